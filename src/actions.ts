@@ -0,0 +1,86 @@
+/**
+ * MeshGuard Action Catalog
+ *
+ * A typed list of the actions an agent may request, so that action strings
+ * are checked at compile time and, optionally, at runtime.
+ *
+ * @example
+ * ```ts
+ * import { MeshGuardClient, defineActions } from "meshguard";
+ *
+ * const actions = defineActions(["read:contacts", "write:email"]);
+ * const client = new MeshGuardClient({ actions });
+ *
+ * await client.check("read:contacts");
+ * await client.check("read:contact"); // compile error
+ * ```
+ */
+
+import { InvalidActionError } from "./exceptions.js";
+
+/** An action string in `verb:noun` form, e.g. `read:contacts`. */
+export type ActionName = `${string}:${string}`;
+
+/**
+ * Syntax of an action: a verb, then one or more `:`-separated segments
+ * (`read:contacts`, `write:crm:notes`).
+ */
+export const ACTION_PATTERN = /^[A-Za-z][\w-]*(?::[\w./-]+)+$/;
+
+/** A typed, immutable list of known actions. Create one with {@link defineActions}. */
+export interface ActionCatalog<A extends string = string> {
+  /** Every action in the catalog, in definition order. */
+  readonly actions: readonly A[];
+  /** Whether `action` is in the catalog. */
+  has(action: string): action is A;
+}
+
+/** The action union of a catalog: `ActionOf<typeof actions>`. */
+export type ActionOf<C> = C extends ActionCatalog<infer A> ? A : never;
+
+/**
+ * `A` in a position that does not drive inference, so an action argument is
+ * checked against the client's catalog instead of widening it. Equivalent to
+ * `NoInfer<A>`, which needs TypeScript 5.4.
+ */
+export type CatalogAction<A> = [A][A extends unknown ? 0 : never];
+
+/**
+ * Define the actions an agent may request.
+ *
+ * Pass the result as the client's `actions` option to make
+ * `MeshGuardClient` reject unknown actions at compile time.
+ *
+ * @throws {@link InvalidActionError} if an entry is not in `verb:noun` form.
+ */
+export function defineActions<const A extends ActionName>(
+  actions: readonly A[],
+): ActionCatalog<A> {
+  for (const action of actions) validateAction(action);
+  const known = new Set<string>(actions);
+  return Object.freeze({
+    actions: Object.freeze([...actions]),
+    has: (action: string): action is A => known.has(action),
+  });
+}
+
+/**
+ * Check an action's syntax and, when a catalog is given, that the catalog
+ * contains it.
+ *
+ * @throws {@link InvalidActionError} if the action is malformed or unknown.
+ */
+export function validateAction(action: string, catalog?: ActionCatalog): void {
+  if (typeof action !== "string" || !ACTION_PATTERN.test(action)) {
+    throw new InvalidActionError(
+      action,
+      `Invalid action '${String(action)}': expected 'verb:noun', e.g. 'read:contacts'`,
+    );
+  }
+  if (catalog && !catalog.has(action)) {
+    throw new InvalidActionError(
+      action,
+      `Unknown action '${action}': not in the action catalog`,
+    );
+  }
+}
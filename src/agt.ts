@@ -0,0 +1,608 @@
+/**
+ * MeshGuard AGT Integration
+ *
+ * Reads and writes Agent Governance Toolkit (AGT) policy YAML, converts it
+ * to and from MeshGuard's policy model, and provides a policy backend that
+ * lets AGT enforce decisions made by the MeshGuard gateway.
+ *
+ * @example
+ * ```ts
+ * import { loadAgtPolicy, agtToPolicy, MeshGuardPolicyBackend } from "meshguard/agt";
+ * ```
+ */
+
+import { readFile } from "node:fs/promises";
+
+import { MeshGuardClient } from "./client.js";
+import type {
+  DecisionContext,
+  MeshGuardOptions,
+  PolicyDecision,
+  PolicyBundle,
+  PolicyDefinition,
+  PolicyEffect,
+  PolicyRule,
+} from "./types.js";
+import { MeshGuardError, PolicyBundleError } from "./exceptions.js";
+import { compileGlob, matchAction, matchResource } from "./matching.js";
+import { parseYaml, validatePolicy } from "./evaluator.js";
+
+// ---------------------------------------------------------------------------
+// AGT policy document
+// ---------------------------------------------------------------------------
+
+/** Comparison operators supported in AGT rule conditions. */
+export type AgtOperator =
+  | "eq"
+  | "ne"
+  | "gt"
+  | "lt"
+  | "gte"
+  | "lte"
+  | "in"
+  | "contains"
+  | "matches";
+
+/** What an AGT rule does when its condition holds. */
+export type AgtAction = "allow" | "deny" | "audit" | "block";
+
+/** A single AGT rule condition: `<field> <operator> <value>`. */
+export interface AgtCondition {
+  field: string;
+  operator: AgtOperator;
+  value: unknown;
+}
+
+/** An AGT policy rule. Higher `priority` rules are evaluated first. */
+export interface AgtRule {
+  name: string;
+  condition: AgtCondition;
+  action: AgtAction;
+  priority?: number;
+  message?: string;
+}
+
+/** AGT policy defaults. */
+export interface AgtDefaults {
+  /** Action when no rule matches. AGT's own default is "allow". */
+  action?: AgtAction;
+  [key: string]: unknown;
+}
+
+/** An AGT policy document, as stored in YAML. */
+export interface AgtPolicyDocument {
+  version?: string;
+  name: string;
+  description?: string;
+  rules: AgtRule[];
+  defaults?: AgtDefaults;
+}
+
+const OPERATORS: readonly AgtOperator[] = [
+  "eq", "ne", "gt", "lt", "gte", "lte", "in", "contains", "matches",
+];
+const ACTIONS: readonly AgtAction[] = ["allow", "deny", "audit", "block"];
+
+/** Priority given to deny rules so AGT's first-match order keeps deny-overrides. */
+const DENY_PRIORITY = 100;
+
+/** Validate an AGT policy document, returning human-readable issues. */
+export function validateAgtPolicy(raw: unknown, path = "policy"): string[] {
+  if (!isObject(raw)) return [`${path} must be an object`];
+
+  const issues: string[] = [];
+  if (typeof raw.name !== "string" || raw.name === "") {
+    issues.push(`${path}.name must be a non-empty string`);
+  }
+  if (raw.version !== undefined && typeof raw.version !== "string") {
+    issues.push(`${path}.version must be a string`);
+  }
+  if (raw.defaults !== undefined) {
+    if (!isObject(raw.defaults)) {
+      issues.push(`${path}.defaults must be an object`);
+    } else if (
+      raw.defaults.action !== undefined &&
+      !ACTIONS.includes(raw.defaults.action as AgtAction)
+    ) {
+      issues.push(`${path}.defaults.action must be one of ${ACTIONS.join(", ")}`);
+    }
+  }
+  if (!Array.isArray(raw.rules)) {
+    issues.push(`${path}.rules must be an array`);
+    return issues;
+  }
+
+  raw.rules.forEach((rule, i) => {
+    const rp = `${path}.rules[${i}]`;
+    if (!isObject(rule)) {
+      issues.push(`${rp} must be an object`);
+      return;
+    }
+    if (typeof rule.name !== "string" || rule.name === "") {
+      issues.push(`${rp}.name must be a non-empty string`);
+    }
+    if (!ACTIONS.includes(rule.action as AgtAction)) {
+      issues.push(`${rp}.action must be one of ${ACTIONS.join(", ")}`);
+    }
+    if (rule.priority !== undefined && typeof rule.priority !== "number") {
+      issues.push(`${rp}.priority must be a number`);
+    }
+    const c = rule.condition;
+    if (!isObject(c)) {
+      issues.push(`${rp}.condition must be an object`);
+      return;
+    }
+    if (typeof c.field !== "string" || c.field === "") {
+      issues.push(`${rp}.condition.field must be a non-empty string`);
+    }
+    if (!OPERATORS.includes(c.operator as AgtOperator)) {
+      issues.push(`${rp}.condition.operator must be one of ${OPERATORS.join(", ")}`);
+    }
+  });
+  return issues;
+}
+
+/**
+ * Parse and validate AGT policy YAML (or JSON, which is valid YAML).
+ *
+ * Requires the optional `yaml` package.
+ *
+ * @throws {@link PolicyBundleError} if the document is invalid.
+ */
+export async function parseAgtPolicy(text: string): Promise<AgtPolicyDocument> {
+  const raw = await parseYaml(text);
+  const issues = validateAgtPolicy(raw);
+  if (issues.length > 0) {
+    throw new PolicyBundleError(`Invalid AGT policy: ${issues.join("; ")}`, issues);
+  }
+  return raw as AgtPolicyDocument;
+}
+
+/** Read and validate an AGT policy file. */
+export async function loadAgtPolicy(path: string): Promise<AgtPolicyDocument> {
+  return parseAgtPolicy(await readFile(path, "utf8"));
+}
+
+/** Serialize an AGT policy document to YAML. Requires the optional `yaml` package. */
+export async function stringifyAgtPolicy(doc: AgtPolicyDocument): Promise<string> {
+  let yaml: typeof import("yaml");
+  try {
+    yaml = await import("yaml");
+  } catch {
+    throw new PolicyBundleError(
+      "YAML support requires the 'yaml' package: npm install yaml",
+    );
+  }
+  return yaml.stringify(doc);
+}
+
+// ---------------------------------------------------------------------------
+// Conversion
+// ---------------------------------------------------------------------------
+
+/**
+ * Convert an AGT policy document to a MeshGuard policy definition.
+ *
+ * Each AGT rule becomes one MeshGuard rule. Conditions on `action` (or
+ * `tool_name`), `resource`, `agent_id` and `trust_tier` are supported with
+ * the `eq`, `in` and — for actions — `matches` operators. `block` maps to
+ * deny and `audit` to allow.
+ *
+ * A policy has no default of its own — MeshGuard denies when nothing
+ * matches — so the document's `defaults.action` must be deny or block; AGT
+ * itself allows by default. Use {@link agtToBundle} to keep an allow default.
+ *
+ * @throws {@link PolicyBundleError} for conditions MeshGuard cannot express,
+ *   an allow default, or an allow rule that outranks a deny rule it may
+ *   overlap (MeshGuard evaluates deny rules first regardless of `priority`).
+ */
+export function agtToPolicy(doc: AgtPolicyDocument): PolicyDefinition {
+  const { policy, issues } = convertAgtPolicy(doc);
+  const effect = agtDefaultEffect(doc);
+  if (effect !== "deny") {
+    issues.push(
+      doc.defaults?.action === undefined
+        ? `no defaults.action, and AGT allows by default; set it to deny or use agtToBundle()`
+        : `defaults.action "${doc.defaults.action}" cannot be expressed in a policy; use agtToBundle()`,
+    );
+  }
+  throwIfIssues(doc, issues);
+  return policy;
+}
+
+/**
+ * Convert an AGT policy document to a MeshGuard policy bundle, carrying
+ * `defaults.action` (AGT's implicit allow when absent) into the bundle's
+ * `defaultEffect`. Load it with {@link LocalPolicyEvaluator}.
+ *
+ * @throws {@link PolicyBundleError} as {@link agtToPolicy} does, except for
+ *   the default.
+ */
+export function agtToBundle(doc: AgtPolicyDocument): PolicyBundle {
+  const { policy, issues } = convertAgtPolicy(doc);
+  throwIfIssues(doc, issues);
+  return {
+    version: doc.version ?? "1.0",
+    defaultEffect: agtDefaultEffect(doc),
+    policies: [policy],
+  };
+}
+
+/** A converted rule's single constraint, for overlap checks. */
+interface RuleConstraint {
+  field: string;
+  values: string[];
+}
+
+function convertAgtPolicy(doc: AgtPolicyDocument): {
+  policy: PolicyDefinition;
+  issues: string[];
+} {
+  const issues: string[] = [];
+  // Stable sort: AGT evaluates higher priorities first, then document order
+  const sorted = [...doc.rules].sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+  const constraints: (RuleConstraint | undefined)[] = [];
+  const rules = sorted.map((rule, i) => {
+    const path = `rules[${i}] (${rule.name})`;
+    const mg: PolicyRule = {
+      name: rule.name,
+      effect: rule.action === "deny" || rule.action === "block" ? "deny" : "allow",
+      actions: ["*"],
+    };
+    if (rule.message) mg.reason = rule.message;
+
+    const { field, operator, value } = rule.condition;
+    const isAction = field === "action" || field === "tool_name";
+    const values = conditionValues(operator, value, isAction);
+    if (values === undefined) {
+      issues.push(`${path}: unsupported condition ${field} ${operator}`);
+      return mg;
+    }
+    switch (field) {
+      case "action":
+      case "tool_name":
+        mg.actions = values;
+        break;
+      case "resource":
+        mg.resources = values;
+        break;
+      case "agent_id":
+        mg.conditions = { agentIds: values };
+        break;
+      case "trust_tier":
+        mg.conditions = { trustTiers: values };
+        break;
+      default:
+        issues.push(`${path}: unsupported condition field "${field}"`);
+        return mg;
+    }
+    constraints[i] = { field: isAction ? "action" : field, values };
+    return mg;
+  });
+
+  // MeshGuard lets every deny win; AGT lets the first match win
+  rules.forEach((allow, i) => {
+    if (allow.effect !== "allow") return;
+    rules.forEach((deny, j) => {
+      if (j <= i || deny.effect !== "deny") return;
+      if (!constraintsOverlap(constraints[i], constraints[j])) return;
+      issues.push(
+        `rules[${i}] (${allow.name}): allow outranks deny rule "${deny.name}" and may overlap it, ` +
+          "but MeshGuard would let the deny win",
+      );
+    });
+  });
+
+  const policy: PolicyDefinition = { name: doc.name, rules };
+  if (doc.description) policy.description = doc.description;
+  return { policy, issues };
+}
+
+function agtDefaultEffect(doc: AgtPolicyDocument): PolicyEffect {
+  const action = doc.defaults?.action ?? "allow";
+  return action === "deny" || action === "block" ? "deny" : "allow";
+}
+
+function throwIfIssues(doc: AgtPolicyDocument, issues: string[]): void {
+  if (issues.length > 0) {
+    throw new PolicyBundleError(
+      `AGT policy "${doc.name}" cannot be converted: ${issues.join("; ")}`,
+      issues,
+    );
+  }
+}
+
+/**
+ * Whether some call could match both constraints. Unknown constraints and
+ * constraints on different fields are assumed to overlap.
+ */
+function constraintsOverlap(
+  a: RuleConstraint | undefined,
+  b: RuleConstraint | undefined,
+): boolean {
+  if (!a || !b || a.field !== b.field) return true;
+  const match =
+    a.field === "action" ? matchAction : a.field === "resource" ? matchResource : undefined;
+  return a.values.some((x) =>
+    b.values.some((y) => (match ? globsOverlap(x, y, match) : x === y)),
+  );
+}
+
+function globsOverlap(
+  a: string,
+  b: string,
+  match: (pattern: string, value: string) => boolean,
+): boolean {
+  const literalA = !/[*?]/.test(a);
+  const literalB = !/[*?]/.test(b);
+  if (literalA) return match(b, a);
+  if (literalB) return match(a, b);
+  // Two patterns: compare what precedes their first wildcard
+  const prefixA = a.slice(0, a.search(/[*?]/));
+  const prefixB = b.slice(0, b.search(/[*?]/));
+  return prefixA.startsWith(prefixB) || prefixB.startsWith(prefixA);
+}
+
+/** Options for {@link policyToAgt}. */
+export interface PolicyToAgtOptions {
+  /** Written to `defaults.action`. Default: "deny", matching MeshGuard. */
+  defaultEffect?: PolicyEffect;
+  /** Written to `version`. Default: "1.0". */
+  version?: string;
+}
+
+/**
+ * Convert a MeshGuard policy definition to an AGT policy document.
+ *
+ * AGT rules carry a single condition, so each MeshGuard rule may constrain
+ * either its actions or one of resources, agent IDs or trust tiers (with
+ * `actions: ["*"]`). Deny rules are given a higher priority so AGT's
+ * first-match evaluation keeps MeshGuard's deny-overrides behavior.
+ *
+ * @throws {@link PolicyBundleError} for rules AGT cannot express.
+ */
+export function policyToAgt(
+  policy: PolicyDefinition,
+  options: PolicyToAgtOptions = {},
+): AgtPolicyDocument {
+  const issues = validatePolicy(policy);
+  if (policy.appliesTo) {
+    issues.push(`policy.appliesTo cannot be expressed in AGT`);
+  }
+
+  const rules = policy.rules.map((rule, i): AgtRule => {
+    const path = `rules[${i}] (${rule.name})`;
+    const constraints: AgtCondition[] = [];
+    const anyAction =
+      rule.actions.length === 1 && (rule.actions[0] === "*" || rule.actions[0] === "**");
+    if (!anyAction) constraints.push(valuesCondition("action", rule.actions, true));
+    if (rule.resources) constraints.push(valuesCondition("resource", rule.resources, false));
+
+    const { agentIds, trustTiers, ...rest } = rule.conditions ?? {};
+    if (agentIds) constraints.push(valuesCondition("agent_id", agentIds, false));
+    if (trustTiers) constraints.push(valuesCondition("trust_tier", trustTiers, false));
+    if (Object.values(rest).some((v) => v !== undefined)) {
+      issues.push(`${path}: tag conditions cannot be expressed in AGT`);
+    }
+    if (constraints.length > 1) {
+      issues.push(`${path}: AGT rules support a single condition`);
+    }
+
+    const agt: AgtRule = {
+      name: rule.name,
+      condition: constraints[0] ?? { field: "action", operator: "matches", value: "^.*$" },
+      action: rule.effect,
+      priority: rule.effect === "deny" ? DENY_PRIORITY : 0,
+    };
+    if (rule.reason) agt.message = rule.reason;
+    return agt;
+  });
+
+  if (issues.length > 0) {
+    throw new PolicyBundleError(
+      `Policy "${policy.name}" cannot be converted to AGT: ${issues.join("; ")}`,
+      issues,
+    );
+  }
+  const doc: AgtPolicyDocument = {
+    version: options.version ?? "1.0",
+    name: policy.name,
+    rules,
+    defaults: { action: options.defaultEffect ?? "deny" },
+  };
+  if (policy.description) doc.description = policy.description;
+  return doc;
+}
+
+function valuesCondition(field: string, values: string[], glob: boolean): AgtCondition {
+  if (glob && values.some((v) => /[*?]/.test(v))) {
+    const alternatives = values.map((v) => compileGlob(v).source.slice(1, -1));
+    return {
+      field,
+      operator: "matches",
+      value:
+        alternatives.length === 1
+          ? `^${alternatives[0]}$`
+          : `^(?:${alternatives.join("|")})$`,
+    };
+  }
+  return values.length === 1
+    ? { field, operator: "eq", value: values[0] }
+    : { field, operator: "in", value: values };
+}
+
+/** Values a condition accepts, or `undefined` if MeshGuard can't express it. */
+function conditionValues(
+  operator: AgtOperator,
+  value: unknown,
+  allowPatterns: boolean,
+): string[] | undefined {
+  switch (operator) {
+    case "eq":
+      return typeof value === "string" ? [value] : undefined;
+    case "in":
+      return Array.isArray(value) && value.every((v) => typeof v === "string")
+        ? (value as string[])
+        : undefined;
+    case "matches":
+      return allowPatterns && typeof value === "string" ? regexToGlobs(value) : undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Convert an anchored regex built from literals, `.` and `.*` (optionally
+ * an alternation of such) back into action globs.
+ */
+function regexToGlobs(source: string): string[] | undefined {
+  const m = /^\^(?:\(\?:(.*)\)|(.*))\$$/.exec(source);
+  if (!m) return undefined;
+  const body = m[1] ?? m[2];
+
+  const globs: string[] = [];
+  let glob = "";
+  for (let i = 0; i < body.length; i++) {
+    const c = body[i];
+    if (c === "\\") {
+      const next = body[++i];
+      if (next === undefined || /[A-Za-z0-9]/.test(next)) return undefined;
+      glob += next;
+    } else if (c === ".") {
+      if (body[i + 1] === "*") {
+        glob += "*";
+        i++;
+      } else {
+        glob += "?";
+      }
+    } else if (c === "|") {
+      globs.push(glob);
+      glob = "";
+    } else if (/[\^$()[\]{}+*?]/.test(c)) {
+      return undefined;
+    } else {
+      glob += c;
+    }
+  }
+  globs.push(glob);
+  return globs;
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+// ---------------------------------------------------------------------------
+// Policy backend
+// ---------------------------------------------------------------------------
+
+/** The call context AGT passes to a policy backend. */
+export interface AgtEvaluationContext {
+  /** The action being taken. */
+  action?: string;
+  /** The tool being called; used as the action when `action` is absent. */
+  tool_name?: string;
+  /** The resource being accessed. */
+  resource?: string;
+  /** The agent making the call. */
+  agent_id?: string;
+  [key: string]: unknown;
+}
+
+/** A decision returned to AGT by a policy backend. */
+export interface AgtBackendDecision {
+  allowed: boolean;
+  action: "allow" | "deny";
+  reason: string;
+  /** Name of the backend that decided. */
+  backend: string;
+  /** Time spent deciding, in milliseconds. */
+  latencyMs: number;
+  /** The underlying MeshGuard decision. */
+  decision: PolicyDecision;
+}
+
+/** The AGT external policy backend interface. */
+export interface AgtPolicyBackend {
+  readonly name: string;
+  evaluate(context: AgtEvaluationContext): Promise<AgtBackendDecision>;
+}
+
+/** Options for {@link MeshGuardPolicyBackend}. */
+export interface MeshGuardPolicyBackendOptions extends MeshGuardOptions {
+  /** MeshGuard tenant, sent to the gateway in the decision context. */
+  tenantId?: string;
+  /** Use an existing client instead of creating one. */
+  client?: MeshGuardClient;
+}
+
+/**
+ * AGT policy backend that delegates decisions to MeshGuard via
+ * {@link MeshGuardClient.check}, so AGT-instrumented agents share the
+ * tenant's policies and audit log with SDK-governed ones.
+ *
+ * Pending approvals are reported to AGT as denials.
+ *
+ * @example
+ * ```ts
+ * const backend = new MeshGuardPolicyBackend({
+ *   gatewayUrl: "https://gateway.meshguard.app",
+ *   tenantId: "acme-corp",
+ *   agentToken: process.env.MESHGUARD_AGENT_TOKEN!,
+ * });
+ *
+ * const result = await backend.evaluate({ tool_name: "send_email", agent_id: "a1" });
+ * ```
+ */
+export class MeshGuardPolicyBackend implements AgtPolicyBackend {
+  readonly name = "meshguard";
+  readonly client: MeshGuardClient;
+  readonly tenantId?: string;
+
+  constructor(options: MeshGuardPolicyBackendOptions | MeshGuardClient = {}) {
+    if (options instanceof MeshGuardClient) {
+      this.client = options;
+      return;
+    }
+    const { client, tenantId, ...clientOptions } = options;
+    this.client = client ?? new MeshGuardClient(clientOptions);
+    this.tenantId = tenantId;
+  }
+
+  async evaluate(context: AgtEvaluationContext): Promise<AgtBackendDecision> {
+    const { action = context.tool_name, resource, tool_name: _tool, ...rest } = context;
+    if (typeof action !== "string" || action === "") {
+      throw new MeshGuardError("AGT context has neither an action nor a tool_name");
+    }
+
+    const start = performance.now();
+    const decision = await this.client.check(action, {
+      resource,
+      context: this.decisionContext(rest),
+    });
+    const latencyMs = performance.now() - start;
+
+    const reason =
+      decision.decision === "require_approval"
+        ? `Approval required${decision.approvalId ? ` (${decision.approvalId})` : ""}`
+        : decision.reason ?? (decision.allowed ? "Allowed by MeshGuard" : "Denied by MeshGuard");
+    return {
+      allowed: decision.allowed,
+      action: decision.allowed ? "allow" : "deny",
+      reason,
+      backend: this.name,
+      latencyMs,
+      decision,
+    };
+  }
+
+  private decisionContext(attributes: Record<string, unknown>): DecisionContext | undefined {
+    const context: DecisionContext = {};
+    for (const [key, value] of Object.entries(attributes)) {
+      if (value === undefined || typeof value === "function") continue;
+      context[key] = value as DecisionContext[string];
+    }
+    if (this.tenantId) context.tenantId = this.tenantId;
+    return Object.keys(context).length > 0 ? context : undefined;
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * MeshGuard Vercel AI SDK Integration
+ *
+ * Governs AI SDK `tool({ execute })` definitions with MeshGuard policy.
+ *
+ * @example
+ * ```ts
+ * import { generateText, tool } from "ai";
+ * import { MeshGuardClient } from "meshguard";
+ * import { governTools } from "meshguard/ai-sdk";
+ *
+ * const client = new MeshGuardClient();
+ * const tools = governTools(client, { weather, sendEmail }, {
+ *   actionMap: { weather: "read:weather", sendEmail: "send:email" },
+ * });
+ *
+ * await generateText({ model, tools, prompt: "..." });
+ * ```
+ */
+
+import type { CatalogAction } from "./actions.js";
+import type { MeshGuardClient } from "./client.js";
+import { isToolRefusalError } from "./exceptions.js";
+import type { ToolRefusalError } from "./exceptions.js";
+import type { DecisionContext } from "./types.js";
+
+// ---------------------------------------------------------------------------
+// Generic tool shape — keeps the AI SDK an optional peer dependency
+// ---------------------------------------------------------------------------
+
+/**
+ * Minimal interface matching an AI SDK `Tool`. Tools without `execute`
+ * (client-side tools) are passed through untouched.
+ */
+export interface AiSdkTool {
+  description?: string;
+  execute?: (args: never, options: never) => unknown;
+}
+
+/** How tool calls are governed. */
+export interface AiSdkGovernOptions {
+  /** The resource a call targets, from its arguments. */
+  resourceFrom?(args: unknown, toolName: string): string | undefined;
+  /** Decision context for a call, from its arguments. */
+  contextFrom?(args: unknown, toolName: string): DecisionContext | undefined;
+  /**
+   * Called instead of throwing when the call is refused — denied, its output
+   * blocked, or over budget; its result becomes the tool result the model
+   * sees, e.g. `(err) => ({ error: err.reason })`.
+   */
+  onDeny?(error: ToolRefusalError, args: unknown, toolName: string): unknown;
+}
+
+/** Options for {@link governTools}. */
+export interface AiSdkToolsetOptions<A extends string = string>
+  extends AiSdkGovernOptions {
+  /** MeshGuard action per tool name (the key in the tools object). */
+  actionMap?: Record<string, CatalogAction<A>>;
+  /** Action for tools missing from `actionMap`. Default: `"execute:tool"`. */
+  defaultAction?: CatalogAction<A>;
+}
+
+// ---------------------------------------------------------------------------
+// governTool / governTools
+// ---------------------------------------------------------------------------
+
+/**
+ * Govern one AI SDK tool: each `execute` runs through `client.govern()`, so
+ * it only runs if allowed and its result honors the decision's obligations.
+ *
+ * @example
+ * ```ts
+ * const sendEmail = governTool(client, "send:email", tool({
+ *   description: "Send an email",
+ *   parameters: z.object({ to: z.string(), body: z.string() }),
+ *   execute: async ({ to, body }) => mailer.send(to, body),
+ * }), {
+ *   contextFrom: (args) => ({ recipient: (args as { to: string }).to }),
+ * });
+ * ```
+ */
+export function governTool<T extends AiSdkTool, A extends string = string>(
+  client: MeshGuardClient<A>,
+  action: CatalogAction<A>,
+  tool: T,
+  options: AiSdkGovernOptions & { name?: string } = {},
+): T {
+  const execute = tool.execute;
+  if (!execute) return tool;
+  const name = options.name ?? action;
+
+  const governed = async (args: never, executionOptions: never): Promise<unknown> => {
+    try {
+      return await client.govern(action, () => execute(args, executionOptions), {
+        resource: options.resourceFrom?.(args, name),
+        context: options.contextFrom?.(args, name),
+      });
+    } catch (err) {
+      if (isToolRefusalError(err) && options.onDeny) {
+        return options.onDeny(err, args, name);
+      }
+      throw err;
+    }
+  };
+  return { ...tool, execute: governed };
+}
+
+/**
+ * Govern every tool in an AI SDK tools object. Returns an object of the same
+ * shape, ready to pass as `tools` to `generateText` / `streamText`.
+ */
+export function governTools<
+  T extends Record<string, AiSdkTool>,
+  A extends string = string,
+>(
+  client: MeshGuardClient<A>,
+  tools: T,
+  options: AiSdkToolsetOptions<A> = {},
+): T {
+  const governed: Record<string, AiSdkTool> = {};
+  for (const [name, tool] of Object.entries(tools)) {
+    const action =
+      options.actionMap?.[name] ?? options.defaultAction ?? ("execute:tool" as A);
+    governed[name] = governTool(client, action, tool, { ...options, name });
+  }
+  return governed as T;
+}
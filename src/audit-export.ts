@@ -0,0 +1,103 @@
+/**
+ * MeshGuard Audit Export
+ *
+ * Writes audit log entries to Node streams as NDJSON or CSV for compliance
+ * archiving, and reads NDJSON exports back.
+ */
+
+import { once } from "node:events";
+import { createReadStream } from "node:fs";
+import { createInterface } from "node:readline";
+import type { Readable, Writable } from "node:stream";
+
+import type { AuditEntry } from "./types.js";
+import { MeshGuardError } from "./exceptions.js";
+
+/** Columns written by {@link writeAuditCsv} unless others are requested. */
+export const DEFAULT_AUDIT_CSV_COLUMNS: readonly string[] = [
+  "id",
+  "timestamp",
+  "action",
+  "decision",
+  "agentId",
+  "policy",
+  "traceId",
+];
+
+/**
+ * Write entries as newline-delimited JSON. Resolves with the number of
+ * entries written. The stream is left open.
+ */
+export async function writeAuditNdjson(
+  entries: AsyncIterable<AuditEntry> | Iterable<AuditEntry>,
+  stream: Writable,
+): Promise<number> {
+  let count = 0;
+  for await (const entry of entries) {
+    await write(stream, `${JSON.stringify(entry)}\n`);
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Write entries as RFC 4180 CSV with a header row. Non-string values are
+ * JSON-encoded. Resolves with the number of entries written. The stream is
+ * left open.
+ */
+export async function writeAuditCsv(
+  entries: AsyncIterable<AuditEntry> | Iterable<AuditEntry>,
+  stream: Writable,
+  columns: readonly string[] = DEFAULT_AUDIT_CSV_COLUMNS,
+): Promise<number> {
+  await write(stream, `${columns.map(csvField).join(",")}\r\n`);
+
+  let count = 0;
+  for await (const entry of entries) {
+    const row = columns.map((c) => csvField(entry[c]));
+    await write(stream, `${row.join(",")}\r\n`);
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Read entries from an NDJSON export, given a file path or a readable
+ * stream. Blank lines are skipped.
+ *
+ * @throws {@link MeshGuardError} on a line that is not valid JSON.
+ */
+export async function* readAuditNdjson(
+  source: string | Readable,
+): AsyncGenerator<AuditEntry, void, undefined> {
+  const input = typeof source === "string" ? createReadStream(source) : source;
+  const lines = createInterface({ input, crlfDelay: Infinity });
+
+  let lineNumber = 0;
+  for await (const line of lines) {
+    lineNumber++;
+    if (line.trim() === "") continue;
+    let entry: AuditEntry;
+    try {
+      entry = JSON.parse(line) as AuditEntry;
+    } catch (err) {
+      throw new MeshGuardError(
+        `Invalid audit NDJSON on line ${lineNumber}: ${(err as Error).message}`,
+      );
+    }
+    yield entry;
+  }
+}
+
+function csvField(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Write a chunk, waiting for `drain` when the stream is backed up. */
+async function write(stream: Writable, chunk: string): Promise<void> {
+  if (!stream.write(chunk)) {
+    await once(stream, "drain");
+  }
+}
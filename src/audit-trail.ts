@@ -0,0 +1,479 @@
+/**
+ * MeshGuard Local Audit Trail
+ *
+ * A tamper-evident copy of governance decisions and execution outcomes,
+ * kept by the client. Records are hash-chained — each one includes the
+ * hash of the one before — and optionally HMAC-signed, so edits, deletions
+ * and reordering show up in {@link verifyAuditLog}.
+ */
+
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+import { createReadStream } from "node:fs";
+import { appendFile, open, type FileHandle } from "node:fs/promises";
+import { createInterface } from "node:readline";
+import type { Readable } from "node:stream";
+
+import type { AuditEntry } from "./types.js";
+import { canonicalJson } from "./canonical-json.js";
+import { MeshGuardError } from "./exceptions.js";
+
+/** `prevHash` of the first record in a trail. */
+export const AUDIT_GENESIS_HASH = "0".repeat(64);
+
+/** One line of the audit trail. */
+export interface AuditRecord {
+  /** Position in the trail, starting at 1. */
+  seq: number;
+  /** When the record was written (ISO 8601). */
+  timestamp: string;
+  /** A policy decision, or the outcome of a governed execution. */
+  type: "decision" | "execution";
+  /** The decision or outcome, as recorded. */
+  data: Record<string, unknown>;
+  /** `hash` of the previous record; {@link AUDIT_GENESIS_HASH} for the first. */
+  prevHash: string;
+  /** SHA-256 (hex) of the canonical JSON of every field above. */
+  hash: string;
+  /** HMAC-SHA256 (hex) of `hash`, when the trail has an `hmacKey`. */
+  signature?: string;
+}
+
+/** Where audit records are written. */
+export interface AuditSink {
+  /** Persist one record. Called in trail order, one call at a time. */
+  write(record: AuditRecord): void | Promise<void>;
+  /**
+   * The last record already persisted, so a restarted process continues
+   * the chain instead of starting a new one.
+   */
+  last?(): AuditRecord | undefined | Promise<AuditRecord | undefined>;
+}
+
+/** Options for {@link AuditTrail} and the client's `auditTrail` option. */
+export interface AuditTrailOptions {
+  /** Append records to this NDJSON file. */
+  path?: string;
+  /** Write records to a custom sink instead of a file. */
+  sink?: AuditSink;
+  /** Sign every record with HMAC-SHA256 under this key. */
+  hmacKey?: string | Buffer;
+}
+
+// ---------------------------------------------------------------------------
+// AuditTrail
+// ---------------------------------------------------------------------------
+
+/**
+ * Appends hash-chained records to a sink.
+ *
+ * Appends are serialized: records are numbered and chained in call order,
+ * and a record whose write fails is not part of the chain.
+ *
+ * @example
+ * ```ts
+ * const client = new MeshGuardClient({
+ *   auditTrail: { path: "./meshguard-audit.ndjson", hmacKey: process.env.AUDIT_KEY },
+ * });
+ * ```
+ */
+export class AuditTrail {
+  private readonly sink: AuditSink;
+  private readonly hmacKey?: string | Buffer;
+  private head?: Promise<{ seq: number; hash: string }>;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(options: AuditTrailOptions) {
+    if (options.sink) {
+      this.sink = options.sink;
+    } else if (options.path) {
+      this.sink = new FileAuditSink(options.path);
+    } else {
+      throw new MeshGuardError("auditTrail needs a 'path' or a 'sink'");
+    }
+    this.hmacKey = options.hmacKey;
+  }
+
+  /** Append a record. Resolves once the sink has persisted it. */
+  append(type: AuditRecord["type"], data: Record<string, unknown>): Promise<AuditRecord> {
+    const write = this.queue.then(() => this.write(type, data));
+    this.queue = write.catch(() => undefined);
+    return write;
+  }
+
+  /** Wait for every pending append to settle. */
+  async flush(): Promise<void> {
+    await this.queue;
+  }
+
+  private async write(
+    type: AuditRecord["type"],
+    data: Record<string, unknown>,
+  ): Promise<AuditRecord> {
+    this.head ??= this.resume();
+    let head: { seq: number; hash: string };
+    try {
+      head = await this.head;
+    } catch (err) {
+      // Retry on the next append rather than start a second chain
+      this.head = undefined;
+      throw err;
+    }
+
+    const record = sealRecord(
+      {
+        seq: head.seq + 1,
+        timestamp: new Date().toISOString(),
+        type,
+        // Round-trip so the hash covers exactly what is persisted
+        data: JSON.parse(JSON.stringify(data)) as Record<string, unknown>,
+        prevHash: head.hash,
+      },
+      this.hmacKey,
+    );
+    await this.sink.write(record);
+    this.head = Promise.resolve({ seq: record.seq, hash: record.hash });
+    return record;
+  }
+
+  private async resume(): Promise<{ seq: number; hash: string }> {
+    const last = await this.sink.last?.();
+    return last ? { seq: last.seq, hash: last.hash } : { seq: 0, hash: AUDIT_GENESIS_HASH };
+  }
+}
+
+/** Appends records to an NDJSON file, one line each. */
+export class FileAuditSink implements AuditSink {
+  readonly path: string;
+  /** The file ends in a partial line, e.g. after a crash mid-write. */
+  private unterminated = false;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async write(record: AuditRecord): Promise<void> {
+    const line = `${JSON.stringify(record)}\n`;
+    await appendFile(this.path, this.unterminated ? `\n${line}` : line);
+    this.unterminated = false;
+  }
+
+  /**
+   * The last valid record in the file. Lines after it that are not records
+   * — such as one torn by a crash mid-write — are skipped, so the chain
+   * continues from that record and {@link verifyAuditLog} reports them as
+   * `parse` issues.
+   */
+  async last(): Promise<AuditRecord | undefined> {
+    let handle: FileHandle;
+    try {
+      handle = await open(this.path, "r");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw err;
+    }
+
+    try {
+      const { size } = await handle.stat();
+      if (size > 0) {
+        const end = Buffer.alloc(1);
+        await handle.read(end, 0, 1, size - 1);
+        this.unterminated = end[0] !== NEWLINE;
+      }
+      for await (const line of linesFromEnd(handle, size)) {
+        const record = parseRecord(line);
+        if (record) return record;
+      }
+      return undefined;
+    } finally {
+      await handle.close();
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Verification
+// ---------------------------------------------------------------------------
+
+/** A problem found by {@link verifyAuditLog}. */
+export interface AuditIssue {
+  /** Line number in the file. */
+  line: number;
+  /** The record's `seq`, if the line could be parsed. */
+  seq?: number;
+  /**
+   * - `parse`: the line is not a record
+   * - `gap`: records are missing before this one
+   * - `order`: the record is out of sequence (reordered or duplicated)
+   * - `chain`: `prevHash` does not match the previous record
+   * - `hash`: the record was edited after it was written
+   * - `signature`: the HMAC is missing or wrong
+   */
+  type: "parse" | "gap" | "order" | "chain" | "hash" | "signature";
+  message: string;
+}
+
+/** Local decisions compared with the gateway's audit log. */
+export interface AuditReconciliation {
+  /** Local decisions found in the gateway log. */
+  matched: number;
+  /** Local decisions the gateway has no entry for. */
+  missingFromGateway: AuditRecord[];
+  /** Gateway entries with no local decision. */
+  missingLocally: AuditEntry[];
+}
+
+/** Options for {@link verifyAuditLog}. */
+export interface VerifyAuditLogOptions {
+  /** The key the trail was signed with. Unsigned records then fail. */
+  hmacKey?: string | Buffer;
+  /**
+   * Only reconcile decisions and gateway entries at or after this time.
+   * Use the same window as the gateway query, so records outside it are
+   * not reported as missing.
+   */
+  since?: Date | string;
+  /** Only reconcile decisions and gateway entries before this time. */
+  until?: Date | string;
+  /**
+   * Gateway audit entries to reconcile against, e.g. from
+   * `client.getAuditLog()` or `client.iterateAuditLog()` for the same agent
+   * and period.
+   */
+  reconcile?: AsyncIterable<AuditEntry> | Iterable<AuditEntry>;
+}
+
+/** Result of {@link verifyAuditLog}. */
+export interface AuditVerification {
+  /** No issues, and nothing missing on either side when reconciling. */
+  valid: boolean;
+  /** Number of records read. */
+  records: number;
+  /** `hash` of the last record — keep it to detect truncation later. */
+  lastHash?: string;
+  issues: AuditIssue[];
+  /** Present when `reconcile` was given. */
+  reconciliation?: AuditReconciliation;
+}
+
+/**
+ * Verify an audit trail written by {@link AuditTrail}, given a file path or
+ * a readable stream.
+ *
+ * Detects missing, reordered and edited records and bad signatures. Records
+ * removed from the end of the file cannot be detected from the file alone;
+ * compare `lastHash` with one kept elsewhere.
+ *
+ * @example
+ * ```ts
+ * const result = await verifyAuditLog("./meshguard-audit.ndjson", {
+ *   hmacKey: process.env.AUDIT_KEY,
+ *   reconcile: client.iterateAuditLog({ since: yesterday }),
+ * });
+ * if (!result.valid) console.error(result.issues, result.reconciliation);
+ * ```
+ */
+export async function verifyAuditLog(
+  source: string | Readable,
+  options: VerifyAuditLogOptions = {},
+): Promise<AuditVerification> {
+  const input = typeof source === "string" ? createReadStream(source) : source;
+  const lines = createInterface({ input, crlfDelay: Infinity });
+
+  const issues: AuditIssue[] = [];
+  const decisions: AuditRecord[] = [];
+  let previous: AuditRecord | undefined;
+  let records = 0;
+  let lineNumber = 0;
+
+  for await (const line of lines) {
+    lineNumber++;
+    if (line.trim() === "") continue;
+
+    const record = parseRecord(line);
+    if (!record) {
+      issues.push({ line: lineNumber, type: "parse", message: "Not an audit record" });
+      continue;
+    }
+    records++;
+    const issue = (type: AuditIssue["type"], message: string) =>
+      issues.push({ line: lineNumber, seq: record.seq, type, message });
+
+    const expected = (previous?.seq ?? 0) + 1;
+    if (record.seq > expected) {
+      const missing = record.seq - expected;
+      issue(
+        "gap",
+        missing === 1
+          ? `Record ${expected} is missing`
+          : `Records ${expected} to ${record.seq - 1} are missing`,
+      );
+    } else if (record.seq < expected) {
+      issue("order", `Record ${record.seq} appears after record ${expected - 1}`);
+    } else if (record.prevHash !== (previous?.hash ?? AUDIT_GENESIS_HASH)) {
+      issue("chain", `Record ${record.seq} does not follow the previous record`);
+    }
+
+    if (hashRecord(record) !== record.hash) {
+      issue("hash", `Record ${record.seq} was modified`);
+    } else if (options.hmacKey !== undefined && !signatureValid(record, options.hmacKey)) {
+      issue(
+        "signature",
+        record.signature === undefined
+          ? `Record ${record.seq} is not signed`
+          : `Record ${record.seq} has an invalid signature`,
+      );
+    }
+
+    if (record.type === "decision") decisions.push(record);
+    previous = record;
+  }
+
+  const reconciliation = options.reconcile
+    ? await reconcile(decisions, options.reconcile, window(options.since, options.until))
+    : undefined;
+  return {
+    valid:
+      issues.length === 0 &&
+      (!reconciliation ||
+        (reconciliation.missingFromGateway.length === 0 &&
+          reconciliation.missingLocally.length === 0)),
+    records,
+    lastHash: previous?.hash,
+    issues,
+    reconciliation,
+  };
+}
+
+/**
+ * Match local decisions with gateway entries on action, decision and (when
+ * the entry has one) trace ID. Decisions the gateway never saw — cached,
+ * degraded or evaluated locally — are left out, as is anything outside the
+ * time window.
+ */
+async function reconcile(
+  decisions: AuditRecord[],
+  entries: AsyncIterable<AuditEntry> | Iterable<AuditEntry>,
+  inWindow: (timestamp: string) => boolean,
+): Promise<AuditReconciliation> {
+  const unmatched = new Map<string, AuditRecord[]>();
+  for (const record of decisions) {
+    const { data } = record;
+    if (data.cached || data.degraded || data.local) continue;
+    if (!inWindow(record.timestamp)) continue;
+    const key = `${String(data.action)}\u0000${String(data.decision)}`;
+    unmatched.set(key, [...(unmatched.get(key) ?? []), record]);
+  }
+
+  let matched = 0;
+  const missingLocally: AuditEntry[] = [];
+  for await (const entry of entries) {
+    if (!inWindow(entry.timestamp)) continue;
+    const candidates = unmatched.get(`${entry.action}\u0000${entry.decision}`) ?? [];
+    const i = candidates.findIndex(
+      (r) => entry.traceId === undefined || r.data.traceId === entry.traceId,
+    );
+    if (i === -1) {
+      missingLocally.push(entry);
+    } else {
+      candidates.splice(i, 1);
+      matched++;
+    }
+  }
+
+  return {
+    matched,
+    missingFromGateway: [...unmatched.values()].flat().sort((a, b) => a.seq - b.seq),
+    missingLocally,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function sealRecord(
+  unsealed: Omit<AuditRecord, "hash" | "signature">,
+  hmacKey?: string | Buffer,
+): AuditRecord {
+  const hash = hashRecord(unsealed);
+  return {
+    ...unsealed,
+    hash,
+    signature: hmacKey !== undefined ? sign(hash, hmacKey) : undefined,
+  };
+}
+
+function hashRecord(record: Omit<AuditRecord, "hash" | "signature">): string {
+  const { seq, timestamp, type, data, prevHash } = record;
+  return createHash("sha256")
+    .update(canonicalJson({ seq, timestamp, type, data, prevHash }))
+    .digest("hex");
+}
+
+function sign(hash: string, key: string | Buffer): string {
+  return createHmac("sha256", key).update(hash).digest("hex");
+}
+
+function signatureValid(record: AuditRecord, key: string | Buffer): boolean {
+  if (typeof record.signature !== "string") return false;
+  const expected = Buffer.from(sign(record.hash, key));
+  const actual = Buffer.from(record.signature);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function parseRecord(line: string): AuditRecord | undefined {
+  let value: unknown;
+  try {
+    value = JSON.parse(line);
+  } catch {
+    return undefined;
+  }
+  const r = value as Partial<AuditRecord> | null;
+  const valid =
+    typeof r === "object" &&
+    r !== null &&
+    Number.isInteger(r.seq) &&
+    typeof r.timestamp === "string" &&
+    typeof r.type === "string" &&
+    typeof r.data === "object" &&
+    r.data !== null &&
+    typeof r.prevHash === "string" &&
+    typeof r.hash === "string";
+  return valid ? (r as AuditRecord) : undefined;
+}
+
+/** Whether a timestamp falls in `[since, until)`; either end may be open. */
+function window(since?: Date | string, until?: Date | string): (timestamp: string) => boolean {
+  const from = since === undefined ? -Infinity : new Date(since).getTime();
+  const to = until === undefined ? Infinity : new Date(until).getTime();
+  return (timestamp) => {
+    const at = Date.parse(timestamp);
+    return at >= from && at < to;
+  };
+}
+
+const NEWLINE = 0x0a;
+
+/** The non-blank lines of a file, last first, reading backwards from the end. */
+async function* linesFromEnd(handle: FileHandle, size: number): AsyncGenerator<string> {
+  let rest = Buffer.alloc(0);
+  let position = size;
+  while (position > 0) {
+    const length = Math.min(64 * 1024, position);
+    position -= length;
+    const chunk = Buffer.alloc(length);
+    await handle.read(chunk, 0, length, position);
+    rest = Buffer.concat([chunk, rest]);
+
+    // Everything after the first newline is a whole line; split on bytes so
+    // multibyte characters at chunk boundaries stay intact
+    let newline: number;
+    while ((newline = rest.lastIndexOf(NEWLINE)) !== -1) {
+      const line = rest.subarray(newline + 1).toString("utf8");
+      if (line.trim() !== "") yield line;
+      rest = rest.subarray(0, newline);
+    }
+  }
+  const first = rest.toString("utf8");
+  if (first.trim() !== "") yield first;
+}
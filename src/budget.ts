@@ -0,0 +1,228 @@
+/**
+ * MeshGuard Budgets
+ *
+ * Client-side spend and count limits, checked by `govern()` before a
+ * governed function runs — a backstop against runaway agent loops.
+ */
+
+import type { Budget, BudgetUsage, Cost, UsageReport } from "./types.js";
+import { BudgetExceededError } from "./exceptions.js";
+import { matchAction } from "./matching.js";
+
+/** The IDs a charge is attributed to, one per {@link Budget} scope. */
+export interface BudgetScopeIds {
+  agent: string;
+  session?: string;
+  user?: string;
+  run?: string;
+}
+
+interface Bucket {
+  budget: Budget;
+  scopeId?: string;
+  used: number;
+  windowStart: number;
+  lastUsed: number;
+}
+
+/** Default cap on tracked budget/scope pairs; see {@link BudgetTracker}. */
+const MAX_BUCKETS = 10_000;
+
+/**
+ * Tracks consumption per action and charges it against {@link Budget}s.
+ *
+ * Shared by a client and its child clients, so a budget scoped to the agent
+ * covers every session the agent serves.
+ *
+ * Usage is kept per budget and scope ID (session, user or run). Once
+ * `maxBuckets` of those are tracked, a new one first drops every bucket whose
+ * window has elapsed, then the least recently used — whose usage starts
+ * over if that scope comes back.
+ *
+ * @example
+ * ```ts
+ * const client = new MeshGuardClient({
+ *   budgets: [
+ *     { name: "llm-tokens", unit: "tokens", limit: 200_000, window: 3_600_000 },
+ *     { name: "emails", unit: "calls", limit: 20, actions: "send:email", scope: "session" },
+ *   ],
+ * });
+ *
+ * await client.govern("invoke:llm", () => llm.call(prompt), {
+ *   cost: (res) => ({ tokens: res.usage.totalTokens }),
+ * });
+ * client.getUsage().budgets; // [{ budget: "llm-tokens", used: 1834, ... }, ...]
+ * ```
+ */
+export class BudgetTracker {
+  private readonly defined = new Map<string, Budget>();
+  private readonly buckets = new Map<string, Bucket>();
+  private readonly totals: Cost = {};
+  private readonly byAction: Record<string, Cost> = {};
+  private readonly maxBuckets: number;
+
+  constructor(budgets: Budget[] = [], maxBuckets = MAX_BUCKETS) {
+    this.maxBuckets = maxBuckets;
+    this.define(budgets);
+  }
+
+  /** The budgets in force. */
+  get budgets(): Budget[] {
+    return [...this.defined.values()];
+  }
+
+  /**
+   * Add budgets, replacing any with the same name. Usage of a replaced
+   * budget starts over.
+   */
+  define(budgets: Budget[]): void {
+    for (const budget of budgets) {
+      this.defined.set(budget.name, budget);
+      for (const [key, bucket] of this.buckets) {
+        if (bucket.budget.name === budget.name) this.buckets.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Charge a call's cost to every budget covering `action`, all or nothing.
+   *
+   * A budget refuses the call when its unit is in `cost` and the amount
+   * would take it over the limit, or when it is already used up.
+   *
+   * @throws {@link BudgetExceededError} if any budget refuses; nothing is charged.
+   */
+  charge(action: string, cost: Cost, ids: BudgetScopeIds): void {
+    const now = Date.now();
+    const buckets = this.bucketsFor(action, ids, now);
+
+    for (const bucket of buckets) {
+      const { budget } = bucket;
+      const requested = cost[budget.unit] ?? 0;
+      const exhausted = bucket.used >= budget.limit;
+      if (exhausted || bucket.used + requested > budget.limit) {
+        throw new BudgetExceededError({
+          action,
+          budget: budget.name,
+          unit: budget.unit,
+          limit: budget.limit,
+          used: bucket.used,
+          requested,
+          resetsAt:
+            budget.window !== undefined
+              ? new Date(bucket.windowStart + budget.window)
+              : undefined,
+        });
+      }
+    }
+
+    this.add(action, cost, buckets);
+  }
+
+  /**
+   * Record consumption that has already happened (e.g. tokens reported by
+   * an LLM response). Never throws, even when it takes a budget over.
+   */
+  record(action: string, cost: Cost, ids: BudgetScopeIds): void {
+    this.add(action, cost, this.bucketsFor(action, ids, Date.now()));
+  }
+
+  /** Consumption so far, overall and per budget. */
+  usage(): UsageReport {
+    const now = Date.now();
+    const budgets: BudgetUsage[] = [];
+    for (const bucket of this.buckets.values()) {
+      this.roll(bucket, now);
+      const { budget } = bucket;
+      budgets.push({
+        budget: budget.name,
+        unit: budget.unit,
+        limit: budget.limit,
+        used: bucket.used,
+        remaining: Math.max(0, budget.limit - bucket.used),
+        scope: budget.scope ?? "agent",
+        scopeId: bucket.scopeId,
+        resetsAt:
+          budget.window !== undefined
+            ? new Date(bucket.windowStart + budget.window).toISOString()
+            : undefined,
+      });
+    }
+    return {
+      totals: { ...this.totals },
+      byAction: Object.fromEntries(
+        Object.entries(this.byAction).map(([action, cost]) => [action, { ...cost }]),
+      ),
+      budgets,
+    };
+  }
+
+  /** Forget all consumption. Budgets stay defined. */
+  reset(): void {
+    this.buckets.clear();
+    for (const unit of Object.keys(this.totals)) delete this.totals[unit];
+    for (const action of Object.keys(this.byAction)) delete this.byAction[action];
+  }
+
+  private bucketsFor(action: string, ids: BudgetScopeIds, now: number): Bucket[] {
+    const buckets: Bucket[] = [];
+    for (const budget of this.defined.values()) {
+      if (!coversAction(budget, action)) continue;
+
+      const scopeId = ids[budget.scope ?? "agent"];
+      const key = `${budget.name}\u0000${scopeId ?? ""}`;
+      let bucket = this.buckets.get(key);
+      if (!bucket) {
+        if (this.buckets.size >= this.maxBuckets) this.prune(now);
+        bucket = { budget, scopeId, used: 0, windowStart: now, lastUsed: now };
+        this.buckets.set(key, bucket);
+      }
+      this.roll(bucket, now);
+      bucket.lastUsed = now;
+      buckets.push(bucket);
+    }
+    return buckets;
+  }
+
+  /**
+   * Make room for a bucket: drop those whose window has elapsed (a new one
+   * would start from zero anyway), else the least recently used.
+   */
+  private prune(now: number): void {
+    let oldest: [string, Bucket] | undefined;
+    for (const entry of this.buckets) {
+      const [key, bucket] = entry;
+      const { window } = bucket.budget;
+      if (window !== undefined && now - bucket.windowStart >= window) {
+        this.buckets.delete(key);
+      } else if (!oldest || bucket.lastUsed < oldest[1].lastUsed) {
+        oldest = entry;
+      }
+    }
+    if (oldest && this.buckets.size >= this.maxBuckets) this.buckets.delete(oldest[0]);
+  }
+
+  /** Start a new window once the current one has elapsed. */
+  private roll(bucket: Bucket, now: number): void {
+    const { window } = bucket.budget;
+    if (window === undefined || now - bucket.windowStart < window) return;
+    bucket.used = 0;
+    bucket.windowStart = now;
+  }
+
+  private add(action: string, cost: Cost, buckets: Bucket[]): void {
+    const perAction = (this.byAction[action] ??= {});
+    for (const [unit, amount] of Object.entries(cost)) {
+      this.totals[unit] = (this.totals[unit] ?? 0) + amount;
+      perAction[unit] = (perAction[unit] ?? 0) + amount;
+    }
+    for (const bucket of buckets) {
+      bucket.used += cost[bucket.budget.unit] ?? 0;
+    }
+  }
+}
+
+function coversAction(budget: Budget, action: string): boolean {
+  if (budget.actions === undefined) return true;
+  return [budget.actions].flat().some((pattern) => matchAction(pattern, action));
+}
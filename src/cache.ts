@@ -0,0 +1,174 @@
+/**
+ * MeshGuard Decision Cache
+ *
+ * Opt-in, in-memory LRU cache for policy decisions returned by the gateway.
+ */
+
+import type {
+  DecisionCacheOptions,
+  DecisionContext,
+  PolicyDecision,
+} from "./types.js";
+import { canonicalJson } from "./canonical-json.js";
+
+/** Identifies a cached decision: who asked, for what, and on which resource. */
+export interface DecisionCacheKey {
+  /** Opaque agent identity (derived from the agent token). */
+  identity: string;
+  /** The action that was checked. */
+  action: string;
+  /** The resource the action targeted, if any. */
+  resource?: string;
+  /** Decision context sent with the check, if any. */
+  context?: DecisionContext;
+}
+
+interface CacheEntry {
+  action: string;
+  resource?: string;
+  decision: PolicyDecision;
+  expiresAt: number;
+}
+
+/**
+ * LRU cache of {@link PolicyDecision}s with separate TTLs for allow and deny.
+ *
+ * @example
+ * ```ts
+ * const client = new MeshGuardClient({ cache: { ttl: 60_000, maxSize: 500 } });
+ *
+ * await client.check("read:contacts"); // gateway round-trip
+ * await client.check("read:contacts"); // served from cache
+ *
+ * client.cache?.invalidate("read:contacts");
+ * ```
+ */
+export class DecisionCache {
+  /** TTL for allow decisions, in milliseconds. */
+  readonly ttl: number;
+  /** TTL for deny decisions, in milliseconds. */
+  readonly denyTtl: number;
+  /** Maximum number of cached decisions. */
+  readonly maxSize: number;
+  /** Whether gateway `Cache-Control` / TTL hints override the configured TTLs. */
+  readonly respectCacheHeaders: boolean;
+
+  private readonly entries = new Map<string, CacheEntry>();
+
+  constructor(options: DecisionCacheOptions = {}) {
+    this.ttl = options.ttl ?? 60_000;
+    this.denyTtl = options.denyTtl ?? this.ttl;
+    this.maxSize = options.maxSize ?? 1_000;
+    this.respectCacheHeaders = options.respectCacheHeaders ?? true;
+  }
+
+  /** Number of decisions currently held (including not-yet-pruned expired ones). */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /** Look up a live decision, or `undefined` on miss or expiry. */
+  get(key: DecisionCacheKey): PolicyDecision | undefined {
+    const k = serializeKey(key);
+    const entry = this.entries.get(k);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(k);
+      return undefined;
+    }
+
+    // Re-insert to mark as most recently used
+    this.entries.delete(k);
+    this.entries.set(k, entry);
+    return entry.decision;
+  }
+
+  /**
+   * Store a decision.
+   *
+   * @param ttlHint - TTL in milliseconds suggested by the gateway. Ignored
+   *   when `respectCacheHeaders` is off; `0` means "do not cache".
+   *   Pending approvals are never cached — each one is a distinct request.
+   */
+  set(key: DecisionCacheKey, decision: PolicyDecision, ttlHint?: number): void {
+    if (decision.decision === "require_approval") return;
+    let ttl = decision.allowed ? this.ttl : this.denyTtl;
+    if (this.respectCacheHeaders && ttlHint !== undefined) ttl = ttlHint;
+    if (ttl <= 0 || this.maxSize <= 0) return;
+
+    const k = serializeKey(key);
+    this.entries.delete(k);
+    while (this.entries.size >= this.maxSize) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+    this.entries.set(k, {
+      action: key.action,
+      resource: key.resource,
+      decision,
+      expiresAt: Date.now() + ttl,
+    });
+  }
+
+  /**
+   * Drop cached decisions for an action, for every agent identity.
+   *
+   * When `resource` is given only that action/resource pair is dropped.
+   * Returns the number of entries removed.
+   */
+  invalidate(action: string, resource?: string): number {
+    let removed = 0;
+    for (const [k, entry] of this.entries) {
+      if (entry.action !== action) continue;
+      if (resource !== undefined && entry.resource !== resource) continue;
+      this.entries.delete(k);
+      removed++;
+    }
+    return removed;
+  }
+
+  /** Drop every cached decision. */
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+function serializeKey(key: DecisionCacheKey): string {
+  return canonicalJson([
+    key.identity,
+    key.action,
+    key.resource ?? null,
+    key.context ?? null,
+  ]);
+}
+
+/**
+ * Read a cache TTL hint (in milliseconds) from gateway response headers.
+ *
+ * Honors `Cache-Control: no-store | no-cache | max-age=N` and the
+ * `X-MeshGuard-Cache-TTL` header (seconds). Returns `undefined` when the
+ * gateway gave no hint.
+ */
+export function parseCacheHint(headers: Headers): number | undefined {
+  const cacheControl = headers.get("Cache-Control");
+  if (cacheControl) {
+    const directives = cacheControl
+      .split(",")
+      .map((d) => d.trim().toLowerCase());
+    if (directives.includes("no-store") || directives.includes("no-cache")) {
+      return 0;
+    }
+    for (const d of directives) {
+      const m = /^(?:s-)?max-age=(\d+)$/.exec(d);
+      if (m) return Number(m[1]) * 1000;
+    }
+  }
+
+  const ttl = headers.get("X-MeshGuard-Cache-TTL");
+  if (ttl !== null && ttl.trim() !== "") {
+    const seconds = Number(ttl);
+    if (Number.isFinite(seconds) && seconds >= 0) return seconds * 1000;
+  }
+  return undefined;
+}
@@ -0,0 +1,25 @@
+/**
+ * MeshGuard Canonical JSON
+ *
+ * Deterministic JSON serialization for signatures and cache keys.
+ */
+
+/**
+ * Serialize `value` with object keys sorted, `undefined` properties dropped
+ * and no whitespace, so equal values always produce equal strings.
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((v) => canonicalJson(v ?? null)).join(",")}]`;
+  }
+  if (typeof value === "object" && value !== null) {
+    const obj = value as Record<string, unknown>;
+    const body = Object.keys(obj)
+      .filter((k) => obj[k] !== undefined)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${canonicalJson(obj[k])}`)
+      .join(",");
+    return `{${body}}`;
+  }
+  return JSON.stringify(value);
+}
@@ -4,17 +4,55 @@
  * Core client for interacting with the MeshGuard gateway.
  */
 
-import { randomUUID } from "node:crypto";
+import { createHash, randomUUID } from "node:crypto";
+import type { Writable } from "node:stream";
 
 import type {
   MeshGuardOptions,
+  FailureMode,
+  FallbackPolicy,
   PolicyDecision,
+  PolicyBundle,
+  CheckRequest,
+  CheckManyOptions,
+  CheckOptions,
+  EnforceOptions,
+  GovernOptions,
+  WaitForApprovalOptions,
+  ApprovalStatus,
+  AuditEvent,
+  CallContext,
+  FetchLike,
+  MeshGuardHooks,
+  HookRequest,
+  RequestKind,
+  DecisionContext,
+  Obligation,
   Agent,
   CreateAgentOptions,
+  CreatedAgent,
+  UpdateAgentOptions,
+  ListAgentsOptions,
+  AgentPage,
+  AgentToken,
   AuditEntry,
   AuditLogOptions,
+  AuditLogPage,
+  AuditExportOptions,
   HealthStatus,
   Policy,
+  PolicyDefinition,
+  PolicyWriteOptions,
+  PolicyValidationIssue,
+  PolicyValidationResult,
+  PolicyVersion,
+  PolicySubject,
+  SimulatePolicyOptions,
+  PolicySimulationChange,
+  PolicySimulationReport,
+  PolicySimulationTally,
+  Budget,
+  UsageReport,
 } from "./types.js";
 
 import {
@@ -22,7 +60,35 @@ import {
   AuthenticationError,
   PolicyDeniedError,
   RateLimitError,
+  GatewayUnavailableError,
+  ApprovalRequiredError,
+  ApprovalRejectedError,
+  ApprovalTimeoutError,
+  PolicyValidationError,
 } from "./exceptions.js";
+import { DecisionCache, parseCacheHint } from "./cache.js";
+import type { DecisionCacheKey } from "./cache.js";
+import {
+  backoffDelay,
+  isIdempotentMethod,
+  parseRetryAfter,
+  resolveRetryOptions,
+  sleep,
+} from "./retry.js";
+import type { ResolvedRetryOptions } from "./retry.js";
+import { lookupByAction } from "./matching.js";
+import type { LocalPolicyEvaluator } from "./evaluator.js";
+import { applyObligations, safeStringify } from "./obligations.js";
+import { writeAuditCsv, writeAuditNdjson } from "./audit-export.js";
+import { simulatePolicyLocally } from "./simulation.js";
+import { Telemetry } from "./telemetry.js";
+import { MeshGuardContext, definedFields } from "./context.js";
+import type { SpanLike } from "./telemetry.js";
+import { validateAction } from "./actions.js";
+import { BudgetTracker } from "./budget.js";
+import type { BudgetScopeIds } from "./budget.js";
+import { AuditTrail } from "./audit-trail.js";
+import type { ActionCatalog } from "./actions.js";
 
 /**
  * Client for the MeshGuard governance gateway.
@@ -48,15 +114,47 @@ import {
  *   return fetchContacts();
  * });
  * ```
+ *
+ * @typeParam A - Actions the client accepts. Inferred from the `actions`
+ *   catalog option; any string when no catalog is given.
  */
-export class MeshGuardClient {
+export class MeshGuardClient<A extends string = string> {
   readonly gatewayUrl: string;
   readonly agentToken?: string;
   readonly adminToken?: string;
   readonly timeout: number;
   readonly traceId: string;
+  /** Client-side decision cache, if enabled via the `cache` option. */
+  readonly cache?: DecisionCache;
+  /** Usage and budgets charged by `govern()`; shared with child clients. */
+  readonly budget: BudgetTracker;
+  /** Local audit trail, if enabled via the `auditTrail` option. */
+  readonly auditTrail?: AuditTrail;
 
-  constructor(options: MeshGuardOptions = {}) {
+  private readonly retry?: ResolvedRetryOptions;
+  private readonly failureMode: FailureMode;
+  private readonly failureModes: Record<string, FailureMode>;
+  private readonly fallback?: FallbackPolicy;
+  private readonly localPolicy?: LocalPolicyEvaluator;
+  private readonly contextTransport: "body" | "header";
+  private readonly auditOutcomes: boolean;
+  private readonly telemetry?: Telemetry;
+  private readonly fetchImpl?: FetchLike;
+  private readonly actions?: ActionCatalog<A>;
+  private readonly validateActions: boolean;
+  /** IDs set with {@link withContext}; they win over the ambient scope. */
+  private readonly overrides: CallContext = {};
+  /** Hooks registered via the `hooks` option and {@link use}; shared with child clients. */
+  private readonly hooks: MeshGuardHooks[] = [];
+  /** The hook view of each response, for error reporting. */
+  private readonly hookRequests = new WeakMap<Response, HookRequest>();
+  /** Mutable state shared with child clients. */
+  private readonly shared = {
+    /** Flipped off once the gateway reports it has no batch endpoint. */
+    batchSupported: true,
+  };
+
+  constructor(options: MeshGuardOptions<A> = {}) {
     this.gatewayUrl = (
       options.gatewayUrl ??
       process.env.MESHGUARD_GATEWAY_URL ??
@@ -69,6 +167,95 @@ export class MeshGuardClient {
       options.adminToken ?? process.env.MESHGUARD_ADMIN_TOKEN;
     this.timeout = options.timeout ?? 30_000;
     this.traceId = options.traceId ?? randomUUID();
+
+    if (options.cache) {
+      this.cache = new DecisionCache(
+        options.cache === true ? {} : options.cache,
+      );
+    }
+    this.budget = new BudgetTracker(options.budgets);
+    if (options.auditTrail) {
+      this.auditTrail =
+        options.auditTrail instanceof AuditTrail
+          ? options.auditTrail
+          : new AuditTrail(options.auditTrail);
+    }
+    this.retry = resolveRetryOptions(options.retry);
+    this.failureMode = options.failureMode ?? "throw";
+    this.failureModes = options.failureModes ?? {};
+    this.fallback = options.fallback;
+    this.localPolicy = options.localPolicy;
+    this.contextTransport = options.contextTransport ?? "body";
+    this.auditOutcomes = options.auditOutcomes ?? false;
+    if (options.telemetry) {
+      this.telemetry = new Telemetry(options.telemetry);
+    }
+    this.fetchImpl = options.fetch;
+    this.actions = options.actions;
+    this.validateActions = options.validateActions ?? false;
+    if (options.hooks) {
+      this.hooks.push(...[options.hooks].flat());
+    }
+  }
+
+  /**
+   * Register hooks. Returns the client for chaining.
+   *
+   * Hooks are shared with child clients created by {@link withContext}.
+   *
+   * @example
+   * ```ts
+   * client.use({
+   *   onRequest(req) {
+   *     req.headers["X-Tenant"] = tenantId;
+   *   },
+   *   onDeny(decision) {
+   *     logger.warn("denied", decision.action, decision.reason);
+   *   },
+   * });
+   * ```
+   */
+  use(hooks: MeshGuardHooks): this {
+    this.hooks.push(hooks);
+    return this;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Call context
+  // ---------------------------------------------------------------------------
+
+  /**
+   * IDs attached to calls made right now: the client's `traceId`,
+   * overridden by the active {@link MeshGuardContext} scope, overridden by
+   * IDs given to {@link withContext}.
+   */
+  get context(): CallContext & { traceId: string } {
+    return {
+      traceId: this.traceId,
+      ...MeshGuardContext.current(),
+      ...this.overrides,
+    };
+  }
+
+  /**
+   * Return a lightweight child client that tags its calls with `context`.
+   *
+   * The child shares configuration, the decision cache and connection state
+   * with its parent; only the IDs differ. Children can be nested.
+   *
+   * @example
+   * ```ts
+   * const session = client.withContext({ sessionId: req.sessionID, userId: user.id });
+   * await session.govern("read:contacts", () => crm.contacts.list());
+   * ```
+   */
+  withContext(context: CallContext): MeshGuardClient<A> {
+    const overrides = { ...this.overrides, ...definedFields(context) };
+    const child = Object.create(MeshGuardClient.prototype) as MeshGuardClient<A>;
+    return Object.assign(child, this, {
+      traceId: overrides.traceId ?? this.traceId,
+      overrides,
+    });
   }
 
   // ---------------------------------------------------------------------------
@@ -76,9 +263,7 @@ export class MeshGuardClient {
   // ---------------------------------------------------------------------------
 
   private headers(includeAuth = true): Record<string, string> {
-    const h: Record<string, string> = {
-      "X-MeshGuard-Trace-ID": this.traceId,
-    };
+    const h = this.contextHeaders();
     if (includeAuth && this.agentToken) {
       h["Authorization"] = `Bearer ${this.agentToken}`;
     }
@@ -89,19 +274,33 @@ export class MeshGuardClient {
     if (!this.adminToken) {
       throw new AuthenticationError("Admin token required for this operation");
     }
-    return {
-      "X-Admin-Token": this.adminToken,
-      "X-MeshGuard-Trace-ID": this.traceId,
-    };
+    return { "X-Admin-Token": this.adminToken, ...this.contextHeaders() };
+  }
+
+  private contextHeaders(): Record<string, string> {
+    const { traceId, sessionId, userId, runId } = this.context;
+    const h: Record<string, string> = { "X-MeshGuard-Trace-ID": traceId };
+    if (sessionId) h["X-MeshGuard-Session-ID"] = sessionId;
+    if (userId) h["X-MeshGuard-User-ID"] = userId;
+    if (runId) h["X-MeshGuard-Run-ID"] = runId;
+    return h;
   }
 
   private async handleResponse(response: Response): Promise<Record<string, unknown>> {
+    if (response.status < 400) return this.safeJson(response);
+
+    const error = await this.responseError(response);
+    await this.runErrorHooks(error, this.hookRequests.get(response));
+    throw error;
+  }
+
+  private async responseError(response: Response): Promise<MeshGuardError> {
     if (response.status === 401) {
-      throw new AuthenticationError("Invalid or expired token");
+      return new AuthenticationError("Invalid or expired token");
     }
     if (response.status === 403) {
       const data = await this.safeJson(response);
-      throw new PolicyDeniedError({
+      return new PolicyDeniedError({
         action: (data.action as string) ?? "unknown",
         policy: data.policy as string | undefined,
         rule: data.rule as string | undefined,
@@ -109,13 +308,20 @@ export class MeshGuardClient {
       });
     }
     if (response.status === 429) {
-      throw new RateLimitError("Rate limit exceeded");
+      return new RateLimitError("Rate limit exceeded", {
+        retryAfterMs: parseRetryAfter(response.headers.get("Retry-After")),
+        limit: headerNumber(response.headers, "RateLimit-Limit"),
+        remaining: headerNumber(response.headers, "RateLimit-Remaining"),
+      });
     }
-    if (response.status >= 400) {
-      const text = await response.text();
-      throw new MeshGuardError(`Request failed: ${response.status} ${text}`);
+    const text = await response.text();
+    if (response.status >= 500) {
+      return new GatewayUnavailableError(
+        `Request failed: ${response.status} ${text}`,
+        { status: response.status },
+      );
     }
-    return this.safeJson(response);
+    return new MeshGuardError(`Request failed: ${response.status} ${text}`);
   }
 
   private async safeJson(response: Response): Promise<Record<string, unknown>> {
@@ -128,16 +334,204 @@ export class MeshGuardClient {
     }
   }
 
+  /** Runtime action check, when enabled with the `validateActions` option. */
+  private assertAction(action: string): void {
+    if (this.validateActions) validateAction(action, this.actions);
+  }
+
+  private cacheKey(
+    action: string,
+    resource?: string,
+    context?: DecisionContext,
+  ): DecisionCacheKey {
+    return { identity: this.identity(), action, resource, context };
+  }
+
+  /** Opaque agent identity for in-memory keys. */
+  private identity(): string {
+    // Never keep the raw token in memory keys — a short digest is enough
+    return this.agentToken
+      ? createHash("sha256").update(this.agentToken).digest("hex").slice(0, 16)
+      : "anonymous";
+  }
+
+  /** Who a budget charge is attributed to right now. */
+  private budgetScope(): BudgetScopeIds {
+    const { sessionId, userId, runId } = this.context;
+    return { agent: this.identity(), session: sessionId, user: userId, run: runId };
+  }
+
+  /**
+   * Send a request, retrying per the client's retry policy.
+   *
+   * Non-idempotent methods are only retried with `retryNonIdempotent`,
+   * unless the call is marked idempotent (e.g. a batch check sent as POST).
+   */
   private async fetch(
     url: string,
     init: RequestInit = {},
+    meta: RequestMeta = {},
   ): Promise<Response> {
+    const traceparent = this.telemetry?.traceparent(meta.span);
+    if (traceparent) {
+      init = {
+        ...init,
+        headers: { ...(init.headers as Record<string, string>), traceparent },
+      };
+    }
+    if (this.hooks.length === 0) return this.fetchWithRetry(url, init, meta);
+
+    const request: HookRequest = {
+      kind: requestKind(url.slice(this.gatewayUrl.length)),
+      method: init.method ?? "GET",
+      url,
+      headers: { ...(init.headers as Record<string, string> | undefined) },
+      body: init.body,
+      action: meta.action,
+      resource: meta.resource,
+    };
+
+    let response: Response | undefined;
+    for (const hook of this.hooks) {
+      const result = await hook.onRequest?.(request);
+      if (result instanceof Response) {
+        response = result;
+        break;
+      }
+      if (isPolicyDecision(result)) {
+        response = decisionResponse(result, request.kind);
+        if (response) break;
+      }
+    }
+
+    if (!response) {
+      try {
+        response = await this.fetchWithRetry(
+          request.url,
+          { ...init, method: request.method, headers: request.headers, body: request.body },
+          meta,
+        );
+      } catch (err) {
+        await this.runErrorHooks(err, request);
+        throw err;
+      }
+    }
+
+    for (const hook of this.hooks) {
+      const replacement: Response | void = await hook.onResponse?.(response, request);
+      if (replacement instanceof Response) response = replacement;
+    }
+    this.hookRequests.set(response, request);
+    return response;
+  }
+
+  private async runErrorHooks(
+    error: unknown,
+    request: HookRequest | undefined,
+  ): Promise<void> {
+    for (const hook of this.hooks) {
+      await hook.onError?.(error, request);
+    }
+  }
+
+  /** Run `onDecision` / `onDeny` hooks, returning the final decision. */
+  private async runDecisionHooks(
+    decision: PolicyDecision,
+    check: CheckRequest,
+  ): Promise<PolicyDecision> {
+    for (const hook of this.hooks) {
+      const replacement = await hook.onDecision?.(decision, check);
+      if (replacement) decision = replacement;
+    }
+    if (!decision.allowed) {
+      for (const hook of this.hooks) {
+        await hook.onDeny?.(decision, check);
+      }
+    }
+    return decision;
+  }
+
+  private async fetchWithRetry(
+    url: string,
+    init: RequestInit,
+    meta: RequestMeta,
+  ): Promise<Response> {
+    const policy = this.retry;
+    const retryable =
+      policy !== undefined &&
+      (policy.retryNonIdempotent ||
+        (meta.idempotent ?? isIdempotentMethod(init.method)));
+    const maxAttempts = retryable ? policy.maxAttempts : 1;
+    // Abort ends a backoff wait too, not just the request in flight
+    const signal = init.signal ?? undefined;
+
+    for (let attempt = 1; ; attempt++) {
+      let response: Response;
+      try {
+        response = await this.send(url, init);
+      } catch (err) {
+        if (init.signal?.aborted) throw err;
+        if (attempt >= maxAttempts || !policy?.retryNetworkErrors) throw err;
+        await sleep(backoffDelay(attempt, policy), signal);
+        continue;
+      }
+
+      if (attempt >= maxAttempts || !policy?.retryOn.includes(response.status)) {
+        return response;
+      }
+
+      const retryAfter = parseRetryAfter(response.headers.get("Retry-After"));
+      // Waiting longer than maxDelay is the caller's call, not ours
+      if (retryAfter !== undefined && retryAfter > policy.maxDelay) {
+        return response;
+      }
+      await response.body?.cancel();
+      await sleep(retryAfter ?? backoffDelay(attempt, policy), signal);
+    }
+  }
+
+  private async send(url: string, init: RequestInit): Promise<Response> {
+    if (!this.telemetry) return this.sendOnce(url, init);
+
+    const start = performance.now();
+    const method = init.method ?? "GET";
+    try {
+      const response = await this.sendOnce(url, init);
+      this.telemetry.recordRequest(method, performance.now() - start, response.status);
+      return response;
+    } catch (err) {
+      this.telemetry.recordRequest(method, performance.now() - start, undefined, err);
+      throw err;
+    }
+  }
+
+  private async sendOnce(url: string, init: RequestInit): Promise<Response> {
     const controller = new AbortController();
     const timer = setTimeout(() => controller.abort(), this.timeout);
+    // Caller cancellation propagates as-is, not as a gateway failure
+    const callerSignal = init.signal ?? undefined;
+    const onAbort = (): void => controller.abort(callerSignal?.reason);
+    callerSignal?.addEventListener("abort", onAbort, { once: true });
     try {
-      return await fetch(url, { ...init, signal: controller.signal });
+      callerSignal?.throwIfAborted();
+      // Resolve the global lazily so it can be replaced after construction
+      const fetchFn = this.fetchImpl ?? globalThis.fetch;
+      return await fetchFn(url, { ...init, signal: controller.signal });
+    } catch (err) {
+      if (callerSignal?.aborted) throw callerSignal.reason;
+      if (controller.signal.aborted) {
+        throw new GatewayUnavailableError(
+          `Gateway request timed out after ${this.timeout}ms`,
+          { cause: err },
+        );
+      }
+      throw new GatewayUnavailableError(
+        `Gateway unreachable: ${err instanceof Error ? err.message : String(err)}`,
+        { cause: err },
+      );
     } finally {
       clearTimeout(timer);
+      callerSignal?.removeEventListener("abort", onAbort);
     }
   }
 
@@ -148,50 +542,202 @@ export class MeshGuardClient {
   /**
    * Check if an action is allowed by policy.
    *
-   * Returns a {@link PolicyDecision} — never throws on deny.
+   * Returns a {@link PolicyDecision} — never throws on deny. When the decision
+   * cache is enabled, repeated checks are answered locally until they expire.
+   * If the gateway is unavailable, the configured failure mode decides.
+   * With `localPolicy` set, the gateway is not contacted at all.
+   *
+   * @example
+   * ```ts
+   * await client.check("read:contacts", "contact-42");
+   *
+   * // Options form: pass call attributes for the policy to condition on
+   * const decision = await client.check("write:payment", {
+   *   resource: "invoice-7",
+   *   context: { amount: 420, currency: "USD", onBehalfOf: "user-9" },
+   * });
+   * decision.conditions; // e.g. { maxAmount: 500 }
+   * ```
    */
-  async check(action: string, resource?: string): Promise<PolicyDecision> {
+  async check(action: A, resource?: string): Promise<PolicyDecision>;
+  async check(action: A, options: CheckOptions): Promise<PolicyDecision>;
+  async check(
+    action: A,
+    resourceOrOptions?: string | CheckOptions,
+  ): Promise<PolicyDecision> {
+    this.assertAction(action);
+    const { resource, context } = toCheckOptions(resourceOrOptions);
+    const run = async (span?: SpanLike): Promise<PolicyDecision> => {
+      let decision = await this.decide(action, resource, context, span);
+      if (this.hooks.length > 0) {
+        decision = await this.runDecisionHooks(decision, { action, resource, context });
+      }
+      await this.recordDecision(decision, { action, resource, context });
+      return decision;
+    };
+    if (!this.telemetry) return run();
+
+    const telemetry = this.telemetry;
+    return telemetry.trace(
+      "meshguard.check",
+      { "meshguard.action": action, "meshguard.resource": resource },
+      async (span) => {
+        const start = performance.now();
+        const decision = await run(span);
+        telemetry.recordDecision(decision, performance.now() - start, span);
+        return decision;
+      },
+    );
+  }
+
+  private async decide(
+    action: string,
+    resource: string | undefined,
+    context: DecisionContext | undefined,
+    span?: SpanLike,
+  ): Promise<PolicyDecision> {
+    if (this.localPolicy) {
+      // Local bundles have no context conditions, so `context` is not used
+      return {
+        ...this.localPolicy.evaluate(action, resource),
+        traceId: this.context.traceId,
+      };
+    }
+
+    const key = this.cacheKey(action, resource, context);
+    const cached = this.cache?.get(key);
+    if (cached) {
+      return { ...cached, traceId: this.context.traceId, cached: true };
+    }
+
+    try {
+      const { decision, ttlHint } = await this.fetchDecision(
+        action,
+        resource,
+        context,
+        span,
+      );
+      this.cache?.set(key, decision, ttlHint);
+      return decision;
+    } catch (err) {
+      if (err instanceof GatewayUnavailableError) {
+        return this.degrade(action, resource, context, err);
+      }
+      throw err;
+    }
+  }
+
+  /** Decide without the gateway, per the failure mode for this action. */
+  private async degrade(
+    action: string,
+    resource: string | undefined,
+    context: DecisionContext | undefined,
+    error: GatewayUnavailableError,
+  ): Promise<PolicyDecision> {
+    const mode = lookupByAction(this.failureModes, action) ?? this.failureMode;
+    const degraded = {
+      action,
+      traceId: this.context.traceId,
+      cached: false,
+      degraded: true,
+      error,
+    };
+
+    switch (mode) {
+      case "throw":
+        throw error;
+      case "failOpen":
+        return {
+          ...degraded,
+          allowed: true,
+          decision: "allow",
+          reason: "Gateway unavailable; failing open",
+        };
+      case "fallback":
+        if (this.fallback) {
+          const result = await this.fallback(action, resource, context);
+          if (typeof result === "boolean") {
+            return {
+              ...degraded,
+              allowed: result,
+              decision: result ? "allow" : "deny",
+              reason: "Gateway unavailable; decided by fallback policy",
+            };
+          }
+          return { ...result, ...degraded };
+        }
+        // No fallback configured: fail closed rather than guess
+        break;
+      case "failClosed":
+        break;
+    }
+    return {
+      ...degraded,
+      allowed: false,
+      decision: "deny",
+      reason: "Gateway unavailable; failing closed",
+    };
+  }
+
+  private async fetchDecision(
+    action: string,
+    resource?: string,
+    context?: DecisionContext,
+    span?: SpanLike,
+  ): Promise<{ decision: PolicyDecision; ttlHint?: number }> {
     const h = this.headers();
     h["X-MeshGuard-Action"] = action;
     if (resource) h["X-MeshGuard-Resource"] = resource;
 
+    const init: RequestInit = { method: "GET", headers: h };
+    if (context && this.contextTransport === "header") {
+      h["X-MeshGuard-Context"] = Buffer.from(JSON.stringify(context)).toString(
+        "base64url",
+      );
+    } else if (context) {
+      h["Content-Type"] = "application/json";
+      init.method = "POST";
+      init.body = JSON.stringify({ action, resource, context });
+    }
+
     try {
-      const response = await this.fetch(`${this.gatewayUrl}/proxy/check`, {
-        method: "GET",
-        headers: h,
-      });
+      const response = await this.fetch(
+        `${this.gatewayUrl}/proxy/check`,
+        init,
+        { idempotent: true, span, action, resource },
+      );
+      const ttlHint = parseCacheHint(response.headers);
 
       if (response.status === 403) {
         const data = await this.safeJson(response);
         return {
-          allowed: false,
-          action,
-          decision: "deny",
-          policy: data.policy as string | undefined,
-          rule: data.rule as string | undefined,
-          reason: data.message as string | undefined,
-          traceId: this.traceId,
+          decision: toDecision(action, "deny", data, this.context.traceId),
+          ttlHint,
         };
       }
 
       const data = await this.handleResponse(response);
+      const verdict =
+        response.status === 202 || data.decision === "require_approval"
+          ? "require_approval"
+          : "allow";
       return {
-        allowed: true,
-        action,
-        decision: "allow",
-        policy: data.policy as string | undefined,
-        traceId: this.traceId,
+        decision: toDecision(action, verdict, data, this.context.traceId),
+        ttlHint,
       };
     } catch (err) {
       if (err instanceof PolicyDeniedError) {
         return {
-          allowed: false,
-          action,
-          decision: "deny",
-          policy: err.policy,
-          rule: err.rule,
-          reason: err.reason,
-          traceId: this.traceId,
+          decision: {
+            allowed: false,
+            action,
+            decision: "deny",
+            policy: err.policy,
+            rule: err.rule,
+            reason: err.reason,
+            traceId: this.context.traceId,
+            cached: false,
+          },
         };
       }
       throw err;
@@ -200,9 +746,69 @@ export class MeshGuardClient {
 
   /**
    * Enforce policy — throws {@link PolicyDeniedError} if the action is denied.
+   *
+   * Actions that require human approval throw {@link ApprovalRequiredError},
+   * unless `waitForApproval` is set, in which case this blocks until a human
+   * approves (resolving with an allow decision) or rejects.
+   *
+   * @example
+   * ```ts
+   * await client.enforce("write:payment", {
+   *   context: { amount: 5_000 },
+   *   waitForApproval: { timeout: 15 * 60_000 },
+   * });
+   * ```
    */
-  async enforce(action: string, resource?: string): Promise<PolicyDecision> {
-    const decision = await this.check(action, resource);
+  async enforce(action: A, resource?: string): Promise<PolicyDecision>;
+  async enforce(action: A, options: EnforceOptions): Promise<PolicyDecision>;
+  async enforce(
+    action: A,
+    resourceOrOptions?: string | EnforceOptions,
+  ): Promise<PolicyDecision> {
+    const options: EnforceOptions = toCheckOptions(resourceOrOptions);
+    if (!this.telemetry) return this.enforceDecision(action, options);
+
+    return this.telemetry.trace(
+      "meshguard.enforce",
+      { "meshguard.action": action, "meshguard.resource": options.resource },
+      () => this.enforceDecision(action, options),
+    );
+  }
+
+  private async enforceDecision(
+    action: A,
+    options: EnforceOptions,
+  ): Promise<PolicyDecision> {
+    const decision = await this.check(action, options);
+
+    if (decision.decision === "require_approval") {
+      if (!decision.approvalId) {
+        throw new MeshGuardError(
+          `Action '${action}' requires approval but the gateway returned no approval ID`,
+        );
+      }
+      if (!options.waitForApproval) {
+        throw new ApprovalRequiredError({
+          action,
+          approvalId: decision.approvalId,
+          policy: decision.policy,
+          rule: decision.rule,
+          reason: decision.reason,
+        });
+      }
+
+      const status = await this.waitForApproval(
+        decision.approvalId,
+        options.waitForApproval === true ? {} : options.waitForApproval,
+      );
+      return {
+        ...decision,
+        allowed: true,
+        decision: "allow",
+        reason: status.reason ?? decision.reason,
+      };
+    }
+
     if (!decision.allowed) {
       throw new PolicyDeniedError({
         action,
@@ -217,20 +823,393 @@ export class MeshGuardClient {
   /**
    * Execute a function only if the action is allowed by policy.
    *
+   * Obligations on the decision (`mask`/`redact`, `remove`, `truncate`,
+   * `block`) are applied to the result before it is returned. With
+   * `auditOutcomes` (or `audit: true`), the outcome is reported to the
+   * gateway as an audit event.
+   *
+   * The call's `cost` (plus one `"calls"`) is charged against the client's
+   * budgets after the policy check and before `fn` runs.
+   *
    * @example
    * ```ts
    * const contacts = await client.govern("read:contacts", async () => {
    *   return db.contacts.findAll();
    * });
+   *
+   * await client.govern("send:email", () => mailer.send(msg), {
+   *   context: { recipientDomain: "example.com" },
+   * });
    * ```
+   *
+   * @throws {@link PolicyDeniedError} if the action is denied.
+   * @throws {@link BudgetExceededError} if the call would exceed a budget.
+   * @throws {@link OutputBlockedError} if the result matches a `block` obligation.
    */
   async govern<T>(
-    action: string,
+    action: A,
     fn: () => T | Promise<T>,
-    resource?: string,
+    resourceOrOptions?: string | GovernOptions<T>,
   ): Promise<T> {
-    await this.enforce(action, resource);
-    return fn();
+    const options: GovernOptions<T> = toCheckOptions(resourceOrOptions);
+    const decision = await this.enforce(action, options);
+    const audit = options.audit ?? this.auditOutcomes;
+    const started = Date.now();
+
+    const report = async (
+      outcome: AuditEvent["outcome"],
+      extra: Partial<AuditEvent>,
+    ): Promise<void> => {
+      const event: AuditEvent = {
+        type: "execution",
+        action,
+        resource: options.resource,
+        outcome,
+        decision: decision.decision,
+        durationMs: Date.now() - started,
+        ...extra,
+      };
+      // Auditing is best-effort; never fail the governed call over it
+      try {
+        await this.auditTrail?.append("execution", { ...this.context, ...event });
+      } catch {
+        // The failed record is not chained, so verification is unaffected
+      }
+      if (!audit) return;
+      try {
+        await this.recordEvent(event);
+      } catch {
+        // Likewise for the gateway
+      }
+    };
+
+    const scope = this.budgetScope();
+    try {
+      const cost = typeof options.cost === "object" ? options.cost : {};
+      this.budget.charge(action, { calls: 1, ...cost }, scope);
+    } catch (err) {
+      await report("blocked", { error: errorMessage(err) });
+      throw err;
+    }
+
+    let result: T;
+    try {
+      // Nested governed calls inherit this call's trace and session IDs
+      result = await MeshGuardContext.run(this.context, fn);
+    } catch (err) {
+      await report("error", { error: errorMessage(err) });
+      throw err;
+    }
+    if (typeof options.cost === "function") {
+      this.budget.record(action, options.cost(result), scope);
+    }
+
+    try {
+      result = applyObligations(result, decision.obligations ?? [], action);
+    } catch (err) {
+      await report("blocked", { error: errorMessage(err) });
+      throw err;
+    }
+
+    const serialized = result === undefined ? undefined : safeStringify(result);
+    await report("success", {
+      resultSize: serialized === undefined ? 0 : Buffer.byteLength(serialized),
+    });
+    return result;
+  }
+
+  /** Report an event to the gateway audit log. */
+  async recordEvent(event: AuditEvent): Promise<void> {
+    const response = await this.fetch(`${this.gatewayUrl}/audit/events`, {
+      method: "POST",
+      headers: { ...this.headers(), "Content-Type": "application/json" },
+      body: JSON.stringify({
+        ...this.context,
+        timestamp: new Date().toISOString(),
+        ...event,
+      }),
+    });
+    await this.handleResponse(response);
+  }
+
+  /**
+   * Wait for a human to decide on a pending approval request.
+   *
+   * Polls `GET /approvals/:id` (optionally long-polling) until the request is
+   * approved, rejected or expires.
+   *
+   * @throws {@link ApprovalRejectedError} if the request is rejected or expires.
+   * @throws {@link ApprovalTimeoutError} if no decision arrives within `timeout`.
+   */
+  async waitForApproval(
+    approvalId: string,
+    options: WaitForApprovalOptions = {},
+  ): Promise<ApprovalStatus> {
+    const timeout = options.timeout ?? 300_000;
+    const pollInterval = options.pollInterval ?? 2_000;
+    const deadline = Date.now() + timeout;
+    const url = `${this.gatewayUrl}/approvals/${encodeURIComponent(approvalId)}`;
+
+    for (;;) {
+      options.signal?.throwIfAborted();
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) throw new ApprovalTimeoutError(approvalId, timeout);
+
+      const params = new URLSearchParams();
+      if (options.longPoll) {
+        // Leave headroom under the request timeout for the gateway to answer
+        const wait = Math.min(remaining, Math.max(0, this.timeout - 5_000));
+        params.set("wait", String(Math.floor(wait / 1000)));
+      }
+      const query = params.toString();
+      const response = await this.fetch(query ? `${url}?${query}` : url, {
+        headers: this.headers(),
+        signal: options.signal,
+      });
+      const data = await this.handleResponse(response);
+      const status: ApprovalStatus = {
+        id: (data.id as string) ?? approvalId,
+        status: (data.status as ApprovalStatus["status"]) ?? "pending",
+        action: data.action as string | undefined,
+        approver: data.approver as string | undefined,
+        reason: data.reason as string | undefined,
+        decidedAt: data.decidedAt as string | undefined,
+      };
+
+      if (status.status === "approved") return status;
+      if (status.status !== "pending") {
+        throw new ApprovalRejectedError({
+          action: status.action ?? "unknown",
+          approvalId,
+          status: status.status,
+          approver: status.approver,
+          reason: status.reason,
+        });
+      }
+
+      await sleep(
+        Math.min(pollInterval, Math.max(0, deadline - Date.now())),
+        options.signal,
+      );
+    }
+  }
+
+  /**
+   * Download the signed policy bundle for this agent, for use with
+   * {@link LocalPolicyEvaluator}.
+   */
+  async getPolicyBundle(): Promise<PolicyBundle> {
+    const response = await this.fetch(`${this.gatewayUrl}/policies/bundle`, {
+      headers: this.headers(),
+    });
+    return (await this.handleResponse(response)) as unknown as PolicyBundle;
+  }
+
+  /**
+   * Check several actions at once. Decisions are returned in request order.
+   *
+   * Uses the gateway's batch endpoint when available, otherwise falls back to
+   * individual checks with bounded concurrency. Never rejects because of a
+   * single item: items that could not be evaluated come back denied, with
+   * `error` set. (With `validateActions`, a malformed action still throws
+   * {@link InvalidActionError} before anything is sent.)
+   *
+   * @example
+   * ```ts
+   * const decisions = await client.checkMany([
+   *   { action: "read:web_search" },
+   *   { action: "write:email", resource: "external" },
+   * ]);
+   * const allowedTools = tools.filter((_, i) => decisions[i].allowed);
+   * ```
+   */
+  async checkMany(
+    requests: CheckRequest<A>[],
+    options: CheckManyOptions = {},
+  ): Promise<PolicyDecision[]> {
+    for (const r of requests) this.assertAction(r.action);
+    const results: PolicyDecision[] = new Array(requests.length);
+    const pending: number[] = [];
+    const cachedHits: number[] = [];
+
+    requests.forEach((r, i) => {
+      const cached = this.localPolicy
+        ? undefined
+        : this.cache?.get(this.cacheKey(r.action, r.resource, r.context));
+      if (cached) {
+        results[i] = { ...cached, traceId: this.context.traceId, cached: true };
+        cachedHits.push(i);
+      } else {
+        pending.push(i);
+      }
+    });
+
+    // Decisions that did not go through check() still get decision hooks
+    // and audit trail records
+    const finish = async (indices: number[]): Promise<PolicyDecision[]> => {
+      if (this.hooks.length > 0) {
+        await Promise.all(
+          indices.map(async (i) => {
+            results[i] = await this.runDecisionHooks(results[i], requests[i]);
+          }),
+        );
+      }
+      for (const i of [...indices].sort((a, b) => a - b)) {
+        await this.recordDecision(results[i], requests[i]);
+      }
+      return results;
+    };
+
+    if (pending.length > 0 && !this.localPolicy && this.shared.batchSupported) {
+      try {
+        const batch = await this.fetchBatch(pending.map((i) => requests[i]));
+        if (batch) {
+          pending.forEach((i, n) => (results[i] = batch[n]));
+          return finish([...cachedHits, ...pending]);
+        }
+      } catch (err) {
+        await Promise.all(
+          pending.map(async (i) => {
+            results[i] = await this.settleFailure(requests[i], err);
+          }),
+        );
+        return finish([...cachedHits, ...pending]);
+      }
+    }
+
+    await mapWithConcurrency(pending, options.concurrency ?? 5, async (i) => {
+      try {
+        const { action, resource, context } = requests[i];
+        results[i] = await this.check(action, { resource, context });
+      } catch (err) {
+        results[i] = failedDecision(requests[i].action, err, this.context.traceId);
+      }
+    });
+    return finish(cachedHits);
+  }
+
+  /**
+   * Evaluate checks through the batch endpoint. Resolves to `undefined` when
+   * the gateway does not support batching.
+   */
+  private async fetchBatch(
+    requests: CheckRequest[],
+  ): Promise<PolicyDecision[] | undefined> {
+    const response = await this.fetch(
+      `${this.gatewayUrl}/proxy/check/batch`,
+      {
+        method: "POST",
+        headers: { ...this.headers(), "Content-Type": "application/json" },
+        body: JSON.stringify({
+          checks: requests.map((r) => ({
+            action: r.action,
+            resource: r.resource,
+            context: r.context,
+          })),
+        }),
+      },
+      { idempotent: true },
+    );
+
+    if ([404, 405, 501].includes(response.status)) {
+      await response.body?.cancel();
+      this.shared.batchSupported = false;
+      return undefined;
+    }
+
+    const ttlHint = parseCacheHint(response.headers);
+    const data = await this.handleResponse(response);
+    const items = (data.decisions as Array<Record<string, unknown>>) ?? [];
+
+    return requests.map((r, i) => {
+      const item = items[i];
+      if (!item || item.error !== undefined) {
+        const message =
+          typeof item?.error === "string"
+            ? item.error
+            : "Gateway returned no decision for this item";
+        return failedDecision(r.action, new MeshGuardError(message), this.context.traceId);
+      }
+
+      const verdict =
+        item.decision === "require_approval"
+          ? "require_approval"
+          : item.allowed === true || item.decision === "allow"
+            ? "allow"
+            : "deny";
+      const decision = toDecision(r.action, verdict, item, this.context.traceId);
+      this.cache?.set(
+        this.cacheKey(r.action, r.resource, r.context),
+        decision,
+        ttlHint,
+      );
+      return decision;
+    });
+  }
+
+  /**
+   * Append a decision to the local audit trail, if enabled. A decision that
+   * cannot be recorded is not returned, so nothing acts on it unrecorded.
+   */
+  private async recordDecision(
+    decision: PolicyDecision,
+    request: CheckRequest,
+  ): Promise<void> {
+    if (!this.auditTrail) return;
+    const { error, ...rest } = decision;
+    const { sessionId, userId, runId } = this.context;
+    await this.auditTrail.append("decision", {
+      ...rest,
+      resource: request.resource,
+      context: request.context,
+      agent: this.identity(),
+      sessionId,
+      userId,
+      runId,
+      local: this.localPolicy ? true : undefined,
+      error: error?.message,
+    });
+  }
+
+  /** Turn a failed batch into per-item decisions, applying failure modes. */
+  private async settleFailure(
+    request: CheckRequest,
+    err: unknown,
+  ): Promise<PolicyDecision> {
+    if (err instanceof GatewayUnavailableError) {
+      try {
+        return await this.degrade(request.action, request.resource, request.context, err);
+      } catch {
+        // "throw" mode: report the error on the item instead
+      }
+    }
+    return failedDecision(request.action, err, this.context.traceId);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Budgets
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Consumption charged by `govern()` so far: totals, per action, and per
+   * budget and scope. Child clients share their parent's usage.
+   */
+  getUsage(): UsageReport {
+    return this.budget.usage();
+  }
+
+  /**
+   * Fetch the agent's budgets from the gateway (`GET /budgets`) and add them
+   * to the client's, replacing local budgets with the same name.
+   */
+  async loadBudgets(): Promise<Budget[]> {
+    const response = await this.fetch(`${this.gatewayUrl}/budgets`, {
+      headers: this.headers(),
+    });
+    const data = await this.handleResponse(response);
+    const budgets = (data.budgets as Budget[] | undefined) ?? [];
+    this.budget.define(budgets);
+    return budgets;
   }
 
   // ---------------------------------------------------------------------------
@@ -243,9 +1222,10 @@ export class MeshGuardClient {
   async request(
     method: string,
     path: string,
-    action: string,
+    action: A,
     init: RequestInit = {},
   ): Promise<Response> {
+    this.assertAction(action);
     const h: Record<string, string> = {
       ...this.headers(),
       "X-MeshGuard-Action": action,
@@ -260,32 +1240,47 @@ export class MeshGuardClient {
       Object.assign(h, extra);
     }
 
-    const response = await this.fetch(
-      `${this.gatewayUrl}/proxy/${path.replace(/^\/+/, "")}`,
-      { ...init, method, headers: h },
-    );
+    const url = `${this.gatewayUrl}/proxy/${path.replace(/^\/+/, "")}`;
+    const send = async (span?: SpanLike): Promise<Response> => {
+      const response = await this.fetch(
+        url,
+        { ...init, method, headers: h },
+        { span, action },
+      );
+      span?.setAttribute("http.response.status_code", response.status);
+      await this.handleResponse(response);
+      return response;
+    };
 
-    await this.handleResponse(response);
-    return response;
+    if (!this.telemetry) return send();
+    return this.telemetry.trace(
+      "meshguard.request",
+      {
+        "meshguard.action": action,
+        "http.request.method": method,
+        "url.full": url,
+      },
+      send,
+    );
   }
 
   /** GET through the governance proxy. */
-  async get(path: string, action: string, init?: RequestInit): Promise<Response> {
+  async get(path: string, action: A, init?: RequestInit): Promise<Response> {
     return this.request("GET", path, action, init);
   }
 
   /** POST through the governance proxy. */
-  async post(path: string, action: string, init?: RequestInit): Promise<Response> {
+  async post(path: string, action: A, init?: RequestInit): Promise<Response> {
     return this.request("POST", path, action, init);
   }
 
   /** PUT through the governance proxy. */
-  async put(path: string, action: string, init?: RequestInit): Promise<Response> {
+  async put(path: string, action: A, init?: RequestInit): Promise<Response> {
     return this.request("PUT", path, action, init);
   }
 
   /** DELETE through the governance proxy. */
-  async delete(path: string, action: string, init?: RequestInit): Promise<Response> {
+  async delete(path: string, action: A, init?: RequestInit): Promise<Response> {
     return this.request("DELETE", path, action, init);
   }
 
@@ -313,24 +1308,71 @@ export class MeshGuardClient {
   // Admin Operations
   // ---------------------------------------------------------------------------
 
-  /** List all agents (requires admin token). */
-  async listAgents(): Promise<Agent[]> {
-    const response = await this.fetch(`${this.gatewayUrl}/admin/agents`, {
+  /**
+   * List agents, optionally filtered (requires admin token).
+   *
+   * Returns a single page; use {@link iterateAgents} to walk every page.
+   */
+  async listAgents(options: ListAgentsOptions = {}): Promise<Agent[]> {
+    return (await this.listAgentsPage(options)).agents;
+  }
+
+  /**
+   * Get one page of agents and the cursor for the next one (requires admin
+   * token).
+   */
+  async listAgentsPage(options: ListAgentsOptions = {}): Promise<AgentPage> {
+    const params = new URLSearchParams();
+    if (options.tag) params.set("tag", options.tag);
+    if (options.trustTier) params.set("trustTier", options.trustTier);
+    if (options.status) params.set("status", options.status);
+    if (options.limit !== undefined) params.set("limit", String(options.limit));
+    if (options.cursor) params.set("cursor", options.cursor);
+
+    const query = params.toString();
+    const response = await this.fetch(
+      `${this.gatewayUrl}/admin/agents${query ? `?${query}` : ""}`,
+      { headers: this.adminHeaders() },
+    );
+    const data = await this.handleResponse(response);
+    const agents = (data.agents as Array<Record<string, unknown>>) ?? [];
+    return {
+      agents: agents.map(toAgent),
+      nextCursor: (data.nextCursor as string | undefined) || undefined,
+    };
+  }
+
+  /**
+   * Iterate over every matching agent, following pagination cursors
+   * (requires admin token).
+   */
+  async *iterateAgents(
+    options: ListAgentsOptions = {},
+  ): AsyncGenerator<Agent, void, undefined> {
+    let cursor = options.cursor;
+    for (;;) {
+      const page = await this.listAgentsPage({ ...options, cursor });
+      yield* page.agents;
+      if (!page.nextCursor || page.agents.length === 0) return;
+      cursor = page.nextCursor;
+    }
+  }
+
+  /** Get a single agent (requires admin token). */
+  async getAgent(agentId: string): Promise<Agent> {
+    const response = await this.fetch(this.agentUrl(agentId), {
       headers: this.adminHeaders(),
     });
     const data = await this.handleResponse(response);
-    const agents = (data.agents as Array<Record<string, unknown>>) ?? [];
-    return agents.map((a) => ({
-      id: a.id as string,
-      name: a.name as string,
-      trustTier: a.trustTier as string,
-      tags: (a.tags as string[]) ?? [],
-      orgId: a.orgId as string | undefined,
-    }));
+    return toAgent((data.agent as Record<string, unknown>) ?? data);
   }
 
-  /** Create a new agent (requires admin token). */
-  async createAgent(options: CreateAgentOptions): Promise<Record<string, unknown>> {
+  /**
+   * Create a new agent (requires admin token).
+   *
+   * The returned `token` is only shown once — store it securely.
+   */
+  async createAgent(options: CreateAgentOptions): Promise<CreatedAgent> {
     const response = await this.fetch(`${this.gatewayUrl}/admin/agents`, {
       method: "POST",
       headers: {
@@ -343,18 +1385,84 @@ export class MeshGuardClient {
         tags: options.tags ?? [],
       }),
     });
-    return this.handleResponse(response);
+    const data = await this.handleResponse(response);
+    return {
+      ...toAgent((data.agent as Record<string, unknown>) ?? data),
+      token: data.token as string,
+    };
+  }
+
+  /** Update an agent's name, trust tier or tags (requires admin token). */
+  async updateAgent(agentId: string, changes: UpdateAgentOptions): Promise<Agent> {
+    const response = await this.fetch(this.agentUrl(agentId), {
+      method: "PATCH",
+      headers: {
+        ...this.adminHeaders(),
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(changes),
+    });
+    const data = await this.handleResponse(response);
+    return toAgent((data.agent as Record<string, unknown>) ?? data);
+  }
+
+  /**
+   * Issue a new token for an agent, invalidating the old one (requires admin
+   * token).
+   */
+  async rotateAgentToken(agentId: string): Promise<AgentToken> {
+    const response = await this.fetch(`${this.agentUrl(agentId)}/rotate-token`, {
+      method: "POST",
+      headers: this.adminHeaders(),
+    });
+    const data = await this.handleResponse(response);
+    return {
+      agentId: (data.agentId as string) ?? agentId,
+      token: data.token as string,
+      expiresAt: data.expiresAt as string | undefined,
+    };
+  }
+
+  /**
+   * Suspend an agent; its checks are denied until it is reinstated
+   * (requires admin token).
+   */
+  async suspendAgent(agentId: string, reason?: string): Promise<Agent> {
+    const response = await this.fetch(`${this.agentUrl(agentId)}/suspend`, {
+      method: "POST",
+      headers: {
+        ...this.adminHeaders(),
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(reason ? { reason } : {}),
+    });
+    const data = await this.handleResponse(response);
+    return toAgent((data.agent as Record<string, unknown>) ?? data);
+  }
+
+  /** Reinstate a suspended agent (requires admin token). */
+  async reinstateAgent(agentId: string): Promise<Agent> {
+    const response = await this.fetch(`${this.agentUrl(agentId)}/reinstate`, {
+      method: "POST",
+      headers: this.adminHeaders(),
+    });
+    const data = await this.handleResponse(response);
+    return toAgent((data.agent as Record<string, unknown>) ?? data);
   }
 
   /** Revoke an agent (requires admin token). */
   async revokeAgent(agentId: string): Promise<void> {
-    const response = await this.fetch(
-      `${this.gatewayUrl}/admin/agents/${agentId}`,
-      { method: "DELETE", headers: this.adminHeaders() },
-    );
+    const response = await this.fetch(this.agentUrl(agentId), {
+      method: "DELETE",
+      headers: this.adminHeaders(),
+    });
     await this.handleResponse(response);
   }
 
+  private agentUrl(agentId: string): string {
+    return `${this.gatewayUrl}/admin/agents/${encodeURIComponent(agentId)}`;
+  }
+
   /** List all policies (requires admin token). */
   async listPolicies(): Promise<Policy[]> {
     const response = await this.fetch(`${this.gatewayUrl}/admin/policies`, {
@@ -364,17 +1472,475 @@ export class MeshGuardClient {
     return (data.policies as Policy[]) ?? [];
   }
 
+  /** Get a single policy (requires admin token). */
+  async getPolicy(policyId: string): Promise<Policy> {
+    const response = await this.fetch(this.policyUrl(policyId), {
+      headers: this.adminHeaders(),
+    });
+    const data = await this.handleResponse(response);
+    return ((data.policy as Policy) ?? data) as Policy;
+  }
+
+  /**
+   * Create a policy (requires admin token).
+   *
+   * @throws {@link PolicyValidationError} if the gateway rejects the policy.
+   */
+  async createPolicy(
+    policy: PolicyDefinition,
+    options: PolicyWriteOptions = {},
+  ): Promise<Policy> {
+    return this.writePolicy("POST", `${this.gatewayUrl}/admin/policies`, policy, options);
+  }
+
+  /**
+   * Update a policy, creating a new version (requires admin token).
+   *
+   * @throws {@link PolicyValidationError} if the gateway rejects the change.
+   */
+  async updatePolicy(
+    policyId: string,
+    changes: Partial<PolicyDefinition>,
+    options: PolicyWriteOptions = {},
+  ): Promise<Policy> {
+    return this.writePolicy("PATCH", this.policyUrl(policyId), changes, options);
+  }
+
+  /** Delete a policy (requires admin token). */
+  async deletePolicy(policyId: string): Promise<void> {
+    const response = await this.fetch(this.policyUrl(policyId), {
+      method: "DELETE",
+      headers: this.adminHeaders(),
+    });
+    await this.handleResponse(response);
+  }
+
+  /**
+   * Lint a policy on the gateway without saving it (requires admin token).
+   *
+   * Never throws for an invalid policy — inspect `valid` and `errors`.
+   */
+  async validatePolicy(policy: PolicyDefinition): Promise<PolicyValidationResult> {
+    const response = await this.fetch(
+      `${this.gatewayUrl}/admin/policies/validate`,
+      {
+        method: "POST",
+        headers: { ...this.adminHeaders(), "Content-Type": "application/json" },
+        body: JSON.stringify(policy),
+      },
+      { idempotent: true },
+    );
+    const data =
+      response.status === 400 || response.status === 422
+        ? await this.safeJson(response)
+        : await this.handleResponse(response);
+    const errors = (data.errors as PolicyValidationIssue[]) ?? [];
+    return {
+      valid: (data.valid as boolean | undefined) ?? errors.length === 0,
+      errors,
+      warnings: (data.warnings as PolicyValidationIssue[]) ?? [],
+    };
+  }
+
+  /** List a policy's version history, newest first (requires admin token). */
+  async listPolicyVersions(policyId: string): Promise<PolicyVersion[]> {
+    const response = await this.fetch(`${this.policyUrl(policyId)}/versions`, {
+      headers: this.adminHeaders(),
+    });
+    const data = await this.handleResponse(response);
+    return (data.versions as PolicyVersion[]) ?? [];
+  }
+
+  /**
+   * Restore a previous version of a policy (requires admin token). The
+   * rollback itself is recorded as a new version.
+   */
+  async rollbackPolicy(
+    policyId: string,
+    version: number,
+    options: PolicyWriteOptions = {},
+  ): Promise<Policy> {
+    const response = await this.fetch(`${this.policyUrl(policyId)}/rollback`, {
+      method: "POST",
+      headers: { ...this.adminHeaders(), "Content-Type": "application/json" },
+      body: JSON.stringify({ version, ...options }),
+    });
+    const data = await this.handleResponse(response);
+    return ((data.policy as Policy) ?? data) as Policy;
+  }
+
+  private policyUrl(policyId: string): string {
+    return `${this.gatewayUrl}/admin/policies/${encodeURIComponent(policyId)}`;
+  }
+
+  private async writePolicy(
+    method: "POST" | "PATCH",
+    url: string,
+    body: Partial<PolicyDefinition>,
+    options: PolicyWriteOptions,
+  ): Promise<Policy> {
+    const params = new URLSearchParams();
+    if (options.dryRun) params.set("dryRun", "true");
+    const query = params.toString();
+
+    const response = await this.fetch(query ? `${url}?${query}` : url, {
+      method,
+      headers: { ...this.adminHeaders(), "Content-Type": "application/json" },
+      body: JSON.stringify(
+        options.comment ? { ...body, comment: options.comment } : body,
+      ),
+    });
+
+    if (response.status === 400 || response.status === 422) {
+      const data = await this.safeJson(response);
+      throw new PolicyValidationError(
+        (data.message as string) ?? "Policy is invalid",
+        (data.errors as PolicyValidationIssue[]) ?? [],
+      );
+    }
+    const data = await this.handleResponse(response);
+    return ((data.policy as Policy) ?? data) as Policy;
+  }
+
+  /**
+   * Replay historical audit traffic against a draft policy and report which
+   * decisions would flip (requires admin token).
+   *
+   * The gateway runs the simulation when it supports it; otherwise matching
+   * entries are fetched with {@link iterateAuditLog} and replayed locally
+   * against the enabled policies with the draft swapped in. Passing
+   * `entries` always simulates locally.
+   *
+   * @example
+   * ```ts
+   * const report = await admin.simulatePolicy(draft, {
+   *   since: "2024-06-01",
+   *   until: "2024-06-08",
+   * });
+   * for (const [action, t] of Object.entries(report.byAction)) {
+   *   console.log(action, t.allowToDeny, t.denyToAllow);
+   * }
+   * ```
+   */
+  async simulatePolicy(
+    draft: PolicyDefinition,
+    options: SimulatePolicyOptions = {},
+  ): Promise<PolicySimulationReport> {
+    const { entries, defaultEffect, limit, ...filters } = options;
+
+    if (!entries) {
+      const response = await this.fetch(
+        `${this.gatewayUrl}/admin/policies/simulate`,
+        {
+          method: "POST",
+          headers: { ...this.adminHeaders(), "Content-Type": "application/json" },
+          body: JSON.stringify({
+            policy: draft,
+            since: filters.since && toIsoString(filters.since),
+            until: filters.until && toIsoString(filters.until),
+            agentId: filters.agentId,
+            limit,
+          }),
+        },
+        { idempotent: true },
+      );
+      if (![404, 405, 501].includes(response.status)) {
+        const data = await this.handleResponse(response);
+        return toSimulationReport(data, draft);
+      }
+    }
+
+    const subjects = new Map<string, Promise<PolicySubject>>();
+    const resolveSubject = (agentId: string | undefined): Promise<PolicySubject> => {
+      if (agentId === undefined) return Promise.resolve({});
+      let subject = subjects.get(agentId);
+      if (!subject) {
+        subject = this.getAgent(agentId).then(
+          (a) => ({ agentId, trustTier: a.trustTier, tags: a.tags }),
+          () => ({ agentId }),
+        );
+        subjects.set(agentId, subject);
+      }
+      return subject;
+    };
+
+    return simulatePolicyLocally(
+      draft,
+      entries ?? this.iterateAuditLog({ ...filters, limit }),
+      {
+        ...filters,
+        policies: (await this.listPolicies()).filter((p) => p.enabled !== false),
+        defaultEffect,
+        resolveSubject,
+      },
+    );
+  }
+
   /** Get audit log entries (requires admin token). */
   async getAuditLog(options: AuditLogOptions = {}): Promise<AuditEntry[]> {
+    return (await this.getAuditLogPage(options)).entries;
+  }
+
+  /**
+   * Get one page of audit log entries and the cursor for the next one
+   * (requires admin token).
+   */
+  async getAuditLogPage(options: AuditLogOptions = {}): Promise<AuditLogPage> {
     const params = new URLSearchParams();
     params.set("limit", String(options.limit ?? 50));
     if (options.decision) params.set("decision", options.decision);
+    if (options.since) params.set("since", toIsoString(options.since));
+    if (options.until) params.set("until", toIsoString(options.until));
+    if (options.agentId) params.set("agentId", options.agentId);
+    if (options.actionPrefix) params.set("actionPrefix", options.actionPrefix);
+    if (options.policy) params.set("policy", options.policy);
+    if (options.traceId) params.set("traceId", options.traceId);
+    if (options.cursor) params.set("cursor", options.cursor);
 
     const response = await this.fetch(
       `${this.gatewayUrl}/admin/audit?${params}`,
       { headers: this.adminHeaders() },
     );
     const data = await this.handleResponse(response);
-    return (data.entries as AuditEntry[]) ?? [];
+    return {
+      entries: (data.entries as AuditEntry[]) ?? [],
+      nextCursor: (data.nextCursor as string | undefined) || undefined,
+    };
+  }
+
+  /**
+   * Iterate over every matching audit entry, following pagination cursors
+   * (requires admin token).
+   *
+   * @example
+   * ```ts
+   * for await (const entry of client.iterateAuditLog({
+   *   since: "2024-06-01T00:00:00Z",
+   *   until: "2024-06-02T00:00:00Z",
+   *   actionPrefix: "write:",
+   * })) {
+   *   console.log(entry.action, entry.decision);
+   * }
+   * ```
+   */
+  async *iterateAuditLog(
+    options: AuditLogOptions = {},
+  ): AsyncGenerator<AuditEntry, void, undefined> {
+    const { limit, pageSize = 100, ...filters } = options;
+    let remaining = limit ?? Infinity;
+    let cursor = filters.cursor;
+
+    while (remaining > 0) {
+      const page = await this.getAuditLogPage({
+        ...filters,
+        cursor,
+        limit: Math.min(pageSize, remaining),
+      });
+      for (const entry of page.entries.slice(0, remaining)) {
+        yield entry;
+      }
+      remaining -= page.entries.length;
+      if (!page.nextCursor || page.entries.length === 0) return;
+      cursor = page.nextCursor;
+    }
   }
+
+  /**
+   * Stream matching audit entries to a writable as NDJSON or CSV (requires
+   * admin token). Resolves with the number of entries written; the stream is
+   * left open.
+   *
+   * @example
+   * ```ts
+   * const out = fs.createWriteStream("audit-2024-06-01.ndjson");
+   * await client.exportAuditLog(out, { since: "2024-06-01", until: "2024-06-02" });
+   * out.end();
+   * ```
+   */
+  async exportAuditLog(
+    stream: Writable,
+    options: AuditExportOptions = {},
+  ): Promise<number> {
+    const { format = "ndjson", columns, ...filters } = options;
+    const entries = this.iterateAuditLog(filters);
+    return format === "csv"
+      ? writeAuditCsv(entries, stream, columns)
+      : writeAuditNdjson(entries, stream);
+  }
+}
+
+function toAgent(a: Record<string, unknown>): Agent {
+  return {
+    id: a.id as string,
+    name: a.name as string,
+    trustTier: a.trustTier as string,
+    tags: (a.tags as string[]) ?? [],
+    orgId: a.orgId as string | undefined,
+    status: a.status as Agent["status"],
+    createdAt: a.createdAt as string | undefined,
+    updatedAt: a.updatedAt as string | undefined,
+  };
+}
+
+function toSimulationReport(
+  data: Record<string, unknown>,
+  draft: PolicyDefinition,
+): PolicySimulationReport {
+  return {
+    source: "gateway",
+    policy: (data.policy as string) ?? draft.name,
+    evaluated: (data.evaluated as number) ?? 0,
+    skipped: (data.skipped as number) ?? 0,
+    allowToDeny: (data.allowToDeny as number) ?? 0,
+    denyToAllow: (data.denyToAllow as number) ?? 0,
+    changes: (data.changes as PolicySimulationChange[]) ?? [],
+    byAction: (data.byAction as Record<string, PolicySimulationTally>) ?? {},
+    byAgent: (data.byAgent as Record<string, PolicySimulationTally>) ?? {},
+  };
+}
+
+function toIsoString(value: Date | string): string {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+/** Read a numeric header, accepting both `Name` and legacy `X-Name` forms. */
+function headerNumber(headers: Headers, name: string): number | undefined {
+  const value = headers.get(name) ?? headers.get(`X-${name}`);
+  if (value === null) return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+/** Per-call options for the internal fetch wrapper. */
+interface RequestMeta {
+  /** Override idempotency detection from the HTTP method. */
+  idempotent?: boolean;
+  /** Span the request belongs to, for `traceparent` propagation. */
+  span?: SpanLike;
+  /** Governed action, reported to hooks. */
+  action?: string;
+  /** Targeted resource, reported to hooks. */
+  resource?: string;
+}
+
+/** Classify a gateway request by its path, for hooks. */
+function requestKind(path: string): RequestKind {
+  if (path.startsWith("/proxy/check/batch")) return "batch";
+  if (path.startsWith("/proxy/check")) return "check";
+  if (path.startsWith("/proxy/")) return "proxy";
+  if (path.startsWith("/audit/")) return "audit";
+  if (path.startsWith("/approvals/")) return "approval";
+  if (path.startsWith("/policies/")) return "policy";
+  if (path.startsWith("/health")) return "health";
+  return "admin";
+}
+
+function isPolicyDecision(value: unknown): value is PolicyDecision {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as PolicyDecision).allowed === "boolean" &&
+    typeof (value as PolicyDecision).decision === "string"
+  );
+}
+
+/**
+ * The response an `onRequest` hook's decision stands for: a synthetic check
+ * response, a 403 for a blocked request, or `undefined` to send the request.
+ */
+function decisionResponse(
+  decision: PolicyDecision,
+  kind: RequestKind,
+): Response | undefined {
+  let status = 403;
+  if (kind !== "check") {
+    if (decision.allowed) return undefined;
+  } else if (decision.decision === "require_approval") {
+    status = 202;
+  } else if (decision.allowed) {
+    status = 200;
+  }
+  const body = {
+    action: decision.action,
+    decision: decision.decision,
+    policy: decision.policy,
+    rule: decision.rule,
+    reason: decision.reason,
+    message: decision.reason,
+    obligations: decision.obligations,
+    conditions: decision.conditions,
+    approvalId: decision.approvalId,
+  };
+  // Hook decisions are made per call; keep them out of the decision cache
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", "Cache-Control": "no-store" },
+  });
+}
+
+/** Normalize the `resource` / options argument of `check`-style methods. */
+function toCheckOptions(resourceOrOptions?: string | CheckOptions): CheckOptions {
+  return typeof resourceOrOptions === "string"
+    ? { resource: resourceOrOptions }
+    : resourceOrOptions ?? {};
+}
+
+/** Build a decision from a gateway payload (single or batch item). */
+function toDecision(
+  action: string,
+  verdict: PolicyDecision["decision"],
+  data: Record<string, unknown>,
+  traceId: string,
+): PolicyDecision {
+  return {
+    allowed: verdict === "allow",
+    action,
+    decision: verdict,
+    approvalId: data.approvalId as string | undefined,
+    policy: data.policy as string | undefined,
+    rule: data.rule as string | undefined,
+    reason: (data.reason ?? data.message) as string | undefined,
+    traceId,
+    cached: false,
+    obligations: data.obligations as Obligation[] | undefined,
+    conditions: data.conditions as Record<string, unknown> | undefined,
+  };
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/** A deny decision for a check that could not be evaluated. */
+function failedDecision(
+  action: string,
+  err: unknown,
+  traceId: string,
+): PolicyDecision {
+  const error = err instanceof Error ? err : new MeshGuardError(String(err));
+  return {
+    allowed: false,
+    action,
+    decision: "deny",
+    reason: error.message,
+    traceId,
+    error,
+  };
+}
+
+/** Run `fn` over `items` with at most `limit` calls in flight. */
+async function mapWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<void>,
+): Promise<void> {
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      await fn(items[next++]);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker),
+  );
 }
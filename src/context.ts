@@ -0,0 +1,51 @@
+/**
+ * MeshGuard Call Context
+ *
+ * Ambient trace, session, user and run IDs, propagated across async calls
+ * with `AsyncLocalStorage`.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+
+import type { CallContext } from "./types.js";
+
+const storage = new AsyncLocalStorage<CallContext>();
+
+/**
+ * Scope for {@link CallContext} IDs. Every client call made inside
+ * `MeshGuardContext.run()` — including nested `govern()` calls and governed
+ * LangChain tools — is tagged with the scope's IDs.
+ *
+ * @example
+ * ```ts
+ * app.use((req, _res, next) => {
+ *   MeshGuardContext.run({ traceId: req.id, userId: req.user.id }, next);
+ * });
+ *
+ * // Anywhere below: requests carry the request's trace and user IDs
+ * await client.check("read:contacts");
+ * ```
+ */
+export const MeshGuardContext = {
+  /**
+   * Run `fn` with `context` active. IDs not given are inherited from the
+   * enclosing scope.
+   */
+  run<T>(context: CallContext, fn: () => T): T {
+    return storage.run({ ...storage.getStore(), ...definedFields(context) }, fn);
+  },
+
+  /** The active scope's IDs, if any. */
+  current(): CallContext | undefined {
+    return storage.getStore();
+  },
+};
+
+/** Copy of `context` without `undefined` values, so merging never erases IDs. */
+export function definedFields(context: CallContext): CallContext {
+  const out: CallContext = {};
+  for (const [key, value] of Object.entries(context)) {
+    if (value !== undefined) out[key as keyof CallContext] = value;
+  }
+  return out;
+}
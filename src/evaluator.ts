@@ -0,0 +1,332 @@
+/**
+ * MeshGuard Local Policy Evaluator
+ *
+ * Evaluates policy bundles in-process — for sub-millisecond checks,
+ * air-gapped deployments, and deterministic tests.
+ */
+
+import { createPublicKey, verify } from "node:crypto";
+import type { KeyObject } from "node:crypto";
+import { readFile } from "node:fs/promises";
+
+import type { MeshGuardClient } from "./client.js";
+import type {
+  PolicyBundle,
+  PolicyConditions,
+  PolicyDecision,
+  PolicyDefinition,
+  PolicyRule,
+  PolicySubject,
+} from "./types.js";
+import { PolicyBundleError } from "./exceptions.js";
+import { matchAction, matchResource } from "./matching.js";
+import { canonicalJson } from "./canonical-json.js";
+
+/** Options for {@link LocalPolicyEvaluator}. */
+export interface LocalPolicyOptions {
+  /** Default agent the policies are evaluated for. */
+  subject?: PolicySubject;
+  /**
+   * Public key (PEM string or `KeyObject`) the bundle signature is verified
+   * against. Ed25519, ECDSA and RSA keys are supported.
+   */
+  publicKey?: string | KeyObject;
+  /** Reject unsigned bundles. Default: true when `publicKey` is set. */
+  requireSignature?: boolean;
+}
+
+/**
+ * Evaluates a {@link PolicyBundle} locally and returns the same
+ * {@link PolicyDecision} shape as {@link MeshGuardClient.check}.
+ *
+ * Deny rules override allow rules; when nothing matches, the bundle's
+ * `defaultEffect` (deny unless stated otherwise) applies.
+ *
+ * @example
+ * ```ts
+ * const local = await LocalPolicyEvaluator.fromFile("./policies.yaml", {
+ *   subject: { trustTier: "verified", tags: ["prod"] },
+ * });
+ *
+ * const decision = local.evaluate("read:contacts", "crm/contacts/42");
+ * ```
+ */
+export class LocalPolicyEvaluator {
+  readonly bundle: PolicyBundle;
+  readonly subject: PolicySubject;
+
+  constructor(bundle: unknown, options: LocalPolicyOptions = {}) {
+    this.bundle = validateBundle(bundle);
+    this.subject = options.subject ?? {};
+
+    const requireSignature =
+      options.requireSignature ?? options.publicKey !== undefined;
+    if (this.bundle.signature === undefined) {
+      if (requireSignature) {
+        throw new PolicyBundleError("Policy bundle is not signed");
+      }
+    } else if (options.publicKey !== undefined) {
+      verifyBundleSignature(this.bundle, options.publicKey);
+    } else if (requireSignature) {
+      throw new PolicyBundleError("A public key is required to verify the bundle");
+    }
+
+    this.assertNotExpired();
+  }
+
+  /**
+   * Load a bundle from a `.json`, `.yaml` or `.yml` file.
+   *
+   * YAML support requires the optional `yaml` package.
+   */
+  static async fromFile(
+    path: string,
+    options: LocalPolicyOptions = {},
+  ): Promise<LocalPolicyEvaluator> {
+    const text = await readFile(path, "utf8");
+    const isYaml = /\.ya?ml$/i.test(path);
+    return new LocalPolicyEvaluator(
+      isYaml ? await parseYaml(text) : parseJson(text),
+      options,
+    );
+  }
+
+  /** Download the agent's policy bundle from the gateway. */
+  static async fromGateway(
+    client: MeshGuardClient,
+    options: LocalPolicyOptions = {},
+  ): Promise<LocalPolicyEvaluator> {
+    return new LocalPolicyEvaluator(await client.getPolicyBundle(), options);
+  }
+
+  /**
+   * Evaluate an action synchronously.
+   *
+   * Local rules match on action, resource and subject only; decision
+   * context is not part of the bundle format.
+   *
+   * @param subject - Agent to evaluate for; defaults to the evaluator's subject.
+   * @throws {@link PolicyBundleError} once the bundle has expired.
+   */
+  evaluate(
+    action: string,
+    resource?: string,
+    subject: PolicySubject = this.subject,
+  ): PolicyDecision {
+    this.assertNotExpired();
+    let allow: { policy: PolicyDefinition; rule: PolicyRule } | undefined;
+
+    for (const policy of this.bundle.policies) {
+      if (policy.appliesTo && !conditionsHold(policy.appliesTo, subject)) {
+        continue;
+      }
+      for (const rule of policy.rules) {
+        if (!ruleMatches(rule, action, resource, subject)) continue;
+        if (rule.effect === "deny") {
+          return {
+            allowed: false,
+            action,
+            decision: "deny",
+            policy: policy.name,
+            rule: rule.name,
+            reason: rule.reason ?? "Denied by local policy",
+          };
+        }
+        allow ??= { policy, rule };
+      }
+    }
+
+    if (allow) {
+      return {
+        allowed: true,
+        action,
+        decision: "allow",
+        policy: allow.policy.name,
+        rule: allow.rule.name,
+        reason: allow.rule.reason,
+      };
+    }
+
+    const allowed = this.bundle.defaultEffect === "allow";
+    return {
+      allowed,
+      action,
+      decision: allowed ? "allow" : "deny",
+      reason: "No matching policy rule",
+    };
+  }
+
+  private assertNotExpired(): void {
+    if (this.bundle.expiresAt && Date.parse(this.bundle.expiresAt) <= Date.now()) {
+      throw new PolicyBundleError(
+        `Policy bundle expired at ${this.bundle.expiresAt}`,
+      );
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------
+
+function ruleMatches(
+  rule: PolicyRule,
+  action: string,
+  resource: string | undefined,
+  subject: PolicySubject,
+): boolean {
+  if (!rule.actions.some((p) => matchAction(p, action))) return false;
+  if (rule.resources) {
+    if (resource === undefined) return false;
+    if (!rule.resources.some((p) => matchResource(p, resource))) return false;
+  }
+  return !rule.conditions || conditionsHold(rule.conditions, subject);
+}
+
+function conditionsHold(c: PolicyConditions, subject: PolicySubject): boolean {
+  const tags = subject.tags ?? [];
+  if (c.trustTiers && !c.trustTiers.includes(subject.trustTier ?? "")) return false;
+  if (c.agentIds && !c.agentIds.includes(subject.agentId ?? "")) return false;
+  if (c.tags && !c.tags.some((t) => tags.includes(t))) return false;
+  if (c.allTags && !c.allTags.every((t) => tags.includes(t))) return false;
+  return true;
+}
+
+// ---------------------------------------------------------------------------
+// Loading & validation
+// ---------------------------------------------------------------------------
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (err) {
+    throw new PolicyBundleError(`Invalid policy bundle JSON: ${(err as Error).message}`);
+  }
+}
+
+/** Parse YAML with the optional `yaml` peer dependency. */
+export async function parseYaml(text: string): Promise<unknown> {
+  let yaml: typeof import("yaml");
+  try {
+    yaml = await import("yaml");
+  } catch {
+    throw new PolicyBundleError(
+      "YAML support requires the 'yaml' package: npm install yaml",
+    );
+  }
+  try {
+    return yaml.parse(text);
+  } catch (err) {
+    throw new PolicyBundleError(`Invalid YAML: ${(err as Error).message}`);
+  }
+}
+
+function validateBundle(raw: unknown): PolicyBundle {
+  const issues: string[] = [];
+  if (!isObject(raw)) {
+    throw new PolicyBundleError("Policy bundle must be an object");
+  }
+  if (typeof raw.version !== "string") issues.push("version must be a string");
+  if (!isEffect(raw.defaultEffect, true)) {
+    issues.push(`defaultEffect must be "allow" or "deny"`);
+  }
+  if (!Array.isArray(raw.policies)) {
+    issues.push("policies must be an array");
+  } else {
+    raw.policies.forEach((p, i) => issues.push(...validatePolicy(p, `policies[${i}]`)));
+  }
+
+  if (issues.length > 0) {
+    throw new PolicyBundleError(`Invalid policy bundle: ${issues.join("; ")}`, issues);
+  }
+  return raw as unknown as PolicyBundle;
+}
+
+/** Validate a policy definition, returning human-readable issues. */
+export function validatePolicy(raw: unknown, path = "policy"): string[] {
+  if (!isObject(raw)) return [`${path} must be an object`];
+
+  const issues: string[] = [];
+  if (typeof raw.name !== "string" || raw.name === "") {
+    issues.push(`${path}.name must be a non-empty string`);
+  }
+  if (raw.appliesTo !== undefined) {
+    issues.push(...validateConditions(raw.appliesTo, `${path}.appliesTo`));
+  }
+  if (!Array.isArray(raw.rules)) {
+    issues.push(`${path}.rules must be an array`);
+    return issues;
+  }
+
+  raw.rules.forEach((rule, i) => {
+    const rp = `${path}.rules[${i}]`;
+    if (!isObject(rule)) {
+      issues.push(`${rp} must be an object`);
+      return;
+    }
+    if (typeof rule.name !== "string" || rule.name === "") {
+      issues.push(`${rp}.name must be a non-empty string`);
+    }
+    if (!isEffect(rule.effect, false)) {
+      issues.push(`${rp}.effect must be "allow" or "deny"`);
+    }
+    if (!isStringArray(rule.actions) || rule.actions.length === 0) {
+      issues.push(`${rp}.actions must be a non-empty array of strings`);
+    }
+    if (rule.resources !== undefined && !isStringArray(rule.resources)) {
+      issues.push(`${rp}.resources must be an array of strings`);
+    }
+    if (rule.conditions !== undefined) {
+      issues.push(...validateConditions(rule.conditions, `${rp}.conditions`));
+    }
+  });
+  return issues;
+}
+
+function validateConditions(raw: unknown, path: string): string[] {
+  if (!isObject(raw)) return [`${path} must be an object`];
+  return (["trustTiers", "tags", "allTags", "agentIds"] as const)
+    .filter((k) => raw[k] !== undefined && !isStringArray(raw[k]))
+    .map((k) => `${path}.${k} must be an array of strings`);
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function isStringArray(v: unknown): v is string[] {
+  return Array.isArray(v) && v.every((x) => typeof x === "string");
+}
+
+function isEffect(v: unknown, optional: boolean): boolean {
+  return v === "allow" || v === "deny" || (optional && v === undefined);
+}
+
+// ---------------------------------------------------------------------------
+// Signatures
+// ---------------------------------------------------------------------------
+
+function verifyBundleSignature(bundle: PolicyBundle, publicKey: string | KeyObject): void {
+  const { signature, ...unsigned } = bundle;
+  const key = typeof publicKey === "string" ? createPublicKey(publicKey) : publicKey;
+  // Ed25519/Ed448 hash internally; RSA and ECDSA bundles are signed over SHA-256
+  const algorithm =
+    key.asymmetricKeyType === "ed25519" || key.asymmetricKeyType === "ed448"
+      ? null
+      : "sha256";
+
+  let valid = false;
+  try {
+    valid = verify(
+      algorithm,
+      Buffer.from(canonicalJson(unsigned)),
+      key,
+      Buffer.from(signature ?? "", "base64"),
+    );
+  } catch {
+    valid = false;
+  }
+  if (!valid) {
+    throw new PolicyBundleError("Policy bundle signature is invalid");
+  }
+}
@@ -2,6 +2,8 @@
  * MeshGuard Exceptions
  */
 
+import type { PolicyValidationIssue } from "./types.js";
+
 /** Base error for all MeshGuard errors. */
 export class MeshGuardError extends Error {
   constructor(message: string) {
@@ -55,8 +57,218 @@ export class PolicyDeniedError extends MeshGuardError {
 
 /** Raised when rate limit is exceeded (429). */
 export class RateLimitError extends MeshGuardError {
-  constructor(message: string = "Rate limit exceeded") {
+  /** How long to wait before retrying, from the `Retry-After` header. */
+  readonly retryAfterMs?: number;
+  /** Request quota for the current window, if the gateway reported it. */
+  readonly limit?: number;
+  /** Requests left in the current window, if the gateway reported it. */
+  readonly remaining?: number;
+
+  constructor(
+    message: string = "Rate limit exceeded",
+    options: { retryAfterMs?: number; limit?: number; remaining?: number } = {},
+  ) {
     super(message);
     this.name = "RateLimitError";
+    this.retryAfterMs = options.retryAfterMs;
+    this.limit = options.limit;
+    this.remaining = options.remaining;
+  }
+}
+
+/** Raised when the gateway is unreachable, times out, or returns a 5xx. */
+export class GatewayUnavailableError extends MeshGuardError {
+  /** HTTP status, when the gateway responded at all. */
+  readonly status?: number;
+
+  constructor(
+    message: string = "MeshGuard gateway unavailable",
+    options: { status?: number; cause?: unknown } = {},
+  ) {
+    super(message);
+    this.name = "GatewayUnavailableError";
+    this.status = options.status;
+    if (options.cause !== undefined) this.cause = options.cause;
+  }
+}
+
+/** Raised when a policy bundle is malformed, unsigned, tampered with, or expired. */
+export class PolicyBundleError extends MeshGuardError {
+  /** Individual validation problems, if any. */
+  readonly issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(message);
+    this.name = "PolicyBundleError";
+    this.issues = issues;
+  }
+}
+
+/** Raised when the gateway rejects a policy as invalid (400/422). */
+export class PolicyValidationError extends MeshGuardError {
+  /** Problems reported by the gateway. */
+  readonly issues: PolicyValidationIssue[];
+
+  constructor(message: string, issues: PolicyValidationIssue[] = []) {
+    super(message);
+    this.name = "PolicyValidationError";
+    this.issues = issues;
+  }
+}
+
+/** Raised when a governed result matches a `block` obligation. */
+export class OutputBlockedError extends MeshGuardError {
+  /** The governed action whose output was blocked. */
+  readonly action: string;
+  /** The pattern that matched. */
+  readonly pattern: string;
+  /** Human-readable reason, if the policy gave one. */
+  readonly reason?: string;
+
+  constructor(options: { action: string; pattern: string; reason?: string }) {
+    const { action, pattern, reason } = options;
+    super(
+      `Output of '${action}' blocked by policy` +
+        (reason ? `: ${reason}` : ` (matched ${pattern})`),
+    );
+    this.name = "OutputBlockedError";
+    this.action = action;
+    this.pattern = pattern;
+    this.reason = reason;
+  }
+}
+
+/** Raised by `enforce()` / `govern()` when an action needs human approval. */
+export class ApprovalRequiredError extends PolicyDeniedError {
+  /** ID of the pending approval request; pass it to `waitForApproval()`. */
+  readonly approvalId: string;
+
+  constructor(options: {
+    action: string;
+    approvalId: string;
+    policy?: string;
+    rule?: string;
+    reason?: string;
+  }) {
+    super({
+      ...options,
+      reason: options.reason ?? `Approval required (request ${options.approvalId})`,
+    });
+    this.name = "ApprovalRequiredError";
+    this.approvalId = options.approvalId;
   }
 }
+
+/** Raised when a human rejects an approval request, or it expires. */
+export class ApprovalRejectedError extends PolicyDeniedError {
+  /** ID of the approval request. */
+  readonly approvalId: string;
+  /** Final status, e.g. "rejected" or "expired". */
+  readonly status: string;
+  /** Who decided, if known. */
+  readonly approver?: string;
+
+  constructor(options: {
+    action: string;
+    approvalId: string;
+    status?: string;
+    approver?: string;
+    reason?: string;
+  }) {
+    const status = options.status ?? "rejected";
+    super({
+      action: options.action,
+      reason: options.reason ?? `Approval request ${options.approvalId} ${status}`,
+    });
+    this.name = "ApprovalRejectedError";
+    this.approvalId = options.approvalId;
+    this.status = status;
+    this.approver = options.approver;
+  }
+}
+
+/** Raised when no approval decision arrives in time. */
+export class ApprovalTimeoutError extends MeshGuardError {
+  /** ID of the approval request, which may still be pending. */
+  readonly approvalId: string;
+  /** How long we waited, in milliseconds. */
+  readonly timeoutMs: number;
+
+  constructor(approvalId: string, timeoutMs: number) {
+    super(`Timed out after ${timeoutMs}ms waiting for approval ${approvalId}`);
+    this.name = "ApprovalTimeoutError";
+    this.approvalId = approvalId;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/** Raised when an action string is malformed or missing from the action catalog. */
+export class InvalidActionError extends MeshGuardError {
+  /** The offending action. */
+  readonly action: string;
+
+  constructor(action: string, message: string) {
+    super(message);
+    this.name = "InvalidActionError";
+    this.action = action;
+  }
+}
+
+/** Raised by `govern()` when a call would exceed a budget. Nothing is executed. */
+export class BudgetExceededError extends MeshGuardError {
+  /** The action that was refused. */
+  readonly action: string;
+  /** Name of the budget that would be exceeded. */
+  readonly budget: string;
+  /** The budget's unit, e.g. "usd" or "calls". */
+  readonly unit: string;
+  readonly limit: number;
+  /** Consumption so far in the current window. */
+  readonly used: number;
+  /** What the refused call would have consumed. */
+  readonly requested: number;
+  /** When the budget's window resets, for windowed budgets. */
+  readonly resetsAt?: Date;
+  /** Human-readable reason, like {@link PolicyDeniedError.reason}. */
+  readonly reason: string;
+
+  constructor(options: {
+    action: string;
+    budget: string;
+    unit: string;
+    limit: number;
+    used: number;
+    requested: number;
+    resetsAt?: Date;
+  }) {
+    super(
+      `Budget '${options.budget}' exceeded by '${options.action}': ` +
+        `${options.used} + ${options.requested} > ${options.limit} ${options.unit}`,
+    );
+    this.name = "BudgetExceededError";
+    this.action = options.action;
+    this.budget = options.budget;
+    this.unit = options.unit;
+    this.limit = options.limit;
+    this.used = options.used;
+    this.requested = options.requested;
+    this.resetsAt = options.resetsAt;
+    this.reason = `Budget '${options.budget}' is used up`;
+  }
+}
+
+/**
+ * Governance errors a tool integration answers with a refusal the model can
+ * read, instead of failing the call: a denied call, a result blocked by an
+ * output obligation, or an exhausted budget.
+ */
+export type ToolRefusalError = PolicyDeniedError | OutputBlockedError | BudgetExceededError;
+
+/** Whether `err` is a {@link ToolRefusalError}. */
+export function isToolRefusalError(err: unknown): err is ToolRefusalError {
+  return (
+    err instanceof PolicyDeniedError ||
+    err instanceof OutputBlockedError ||
+    err instanceof BudgetExceededError
+  );
+}
@@ -0,0 +1,191 @@
+/**
+ * MeshGuard Governed Functions and Methods
+ *
+ * Declare governance once, where a function or method is defined, instead of
+ * wrapping every call site in `client.govern()`.
+ *
+ * @example
+ * ```ts
+ * import { governed, governFn } from "meshguard";
+ *
+ * class CrmService {
+ *   constructor(readonly meshguard: MeshGuardClient) {}
+ *
+ *   @governed("write:crm", { resource: ([contact]: [Contact]) => contact.id })
+ *   async updateContact(contact: Contact) { ... }
+ * }
+ *
+ * const sendEmail = governFn(client, "send:email", mailer.send, {
+ *   context: ([msg]) => ({ recipientDomain: msg.to.split("@")[1] }),
+ * });
+ * ```
+ */
+
+import { MeshGuardClient } from "./client.js";
+import { MeshGuardError } from "./exceptions.js";
+import type { CatalogAction } from "./actions.js";
+import type { DecisionContext, GovernOptions } from "./types.js";
+
+/**
+ * Options for {@link governFn} and {@link governed}: the `govern()` options,
+ * where `resource` and `context` may be derived from the call's arguments
+ * (and, for methods, the instance).
+ */
+export interface GovernFnOptions<Args extends unknown[] = unknown[], This = unknown>
+  extends Omit<GovernOptions, "resource" | "context"> {
+  /** Resource the call targets, or a function deriving it from the arguments. */
+  resource?: string | ((args: Args, self: This) => string | undefined);
+  /** Decision context, or a function deriving it from the arguments. */
+  context?: DecisionContext | ((args: Args, self: This) => DecisionContext | undefined);
+}
+
+/**
+ * Options for the {@link governed} method decorator. `Args` and `This` are
+ * inferred from annotated `resource` / `context` functions, e.g.
+ * `resource: ([invoice]: [Invoice]) => invoice.id`.
+ */
+export interface GovernedMethodOptions<Args extends unknown[] = unknown[], This = unknown>
+  extends GovernFnOptions<Args, This> {
+  /**
+   * Client that governs the method, or a function returning it from the
+   * instance. Default: the instance's `meshguard` property.
+   */
+  client?: MeshGuardClient | ((self: This) => MeshGuardClient);
+}
+
+/**
+ * A decorator usable both as a TypeScript 5 standard decorator and with
+ * `experimentalDecorators`. Only async methods can be governed: the
+ * governed method always returns a promise.
+ */
+export interface GovernedMethodDecorator {
+  <F extends (...args: never[]) => Promise<unknown>>(
+    value: F,
+    context: ClassMethodDecoratorContext,
+  ): F;
+  <F extends (...args: never[]) => Promise<unknown>>(
+    target: object,
+    propertyKey: string | symbol,
+    descriptor: TypedPropertyDescriptor<F>,
+  ): TypedPropertyDescriptor<F>;
+}
+
+/**
+ * Return a governed version of `fn`: every call is checked with
+ * `client.govern()` first, and its result goes through the decision's
+ * obligations. The wrapper takes the same arguments (and `this`) as `fn`
+ * and always returns a promise.
+ *
+ * @example
+ * ```ts
+ * const deleteRecord = governFn(client, "delete:record", db.delete, {
+ *   resource: ([id]) => `records/${id}`,
+ * });
+ * await deleteRecord("r-42"); // throws PolicyDeniedError if denied
+ * ```
+ */
+export function governFn<Args extends unknown[], R, A extends string = string>(
+  client: MeshGuardClient<A>,
+  action: CatalogAction<A>,
+  fn: (...args: Args) => R,
+  options: GovernFnOptions<Args> = {},
+): (...args: Args) => Promise<Awaited<R>> {
+  return function governedFn(this: unknown, ...args: Args): Promise<Awaited<R>> {
+    return client.govern(
+      action,
+      () => fn.apply(this, args) as Awaited<R> | Promise<Awaited<R>>,
+      resolveOptions(options, args, this),
+    );
+  };
+}
+
+/**
+ * Method decorator that governs every call of the method under `action`.
+ *
+ * The client comes from the `client` option or, by default, the instance's
+ * `meshguard` property. Works with standard decorators and with
+ * `experimentalDecorators`, on async methods.
+ *
+ * @example
+ * ```ts
+ * class Billing {
+ *   constructor(readonly meshguard: MeshGuardClient) {}
+ *
+ *   @governed("write:payment", {
+ *     resource: ([invoice]: [Invoice]) => invoice.id,
+ *     context: ([invoice]: [Invoice]) => ({ amount: invoice.total }),
+ *   })
+ *   async pay(invoice: Invoice) { ... }
+ * }
+ * ```
+ *
+ * @throws {@link MeshGuardError} at call time if no client can be found.
+ */
+export function governed<Args extends unknown[] = unknown[], This = unknown>(
+  action: string,
+  options: GovernedMethodOptions<Args, This> = {},
+): GovernedMethodDecorator {
+  const wrap = (method: (...args: unknown[]) => unknown, name: string) =>
+    async function governedMethod(this: unknown, ...args: unknown[]): Promise<unknown> {
+      // The decorated method receives the arguments and instance the
+      // option functions were declared for
+      const self = this as This;
+      const client = resolveClient(options.client, self, name);
+      return client.govern(
+        action,
+        () => method.apply(self, args),
+        resolveOptions(options, args as Args, self),
+      );
+    };
+
+  return ((
+    target: unknown,
+    keyOrContext: string | symbol | ClassMethodDecoratorContext,
+    descriptor?: PropertyDescriptor,
+  ) => {
+    // Standard decorators: (method, context) => replacement method
+    if (typeof keyOrContext === "object") {
+      return wrap(target as (...args: unknown[]) => unknown, String(keyOrContext.name));
+    }
+    // experimentalDecorators: (prototype, key, descriptor) => descriptor
+    if (!descriptor || typeof descriptor.value !== "function") {
+      throw new MeshGuardError(
+        `@governed can only decorate methods, not '${String(keyOrContext)}'`,
+      );
+    }
+    return {
+      ...descriptor,
+      value: wrap(descriptor.value as (...args: unknown[]) => unknown, String(keyOrContext)),
+    };
+  }) as GovernedMethodDecorator;
+}
+
+function resolveClient<This>(
+  option: GovernedMethodOptions<unknown[], This>["client"],
+  self: This,
+  method: string,
+): MeshGuardClient {
+  const client =
+    typeof option === "function"
+      ? option(self)
+      : option ?? (self as { meshguard?: unknown } | undefined)?.meshguard;
+  if (!(client instanceof MeshGuardClient)) {
+    throw new MeshGuardError(
+      `@governed method '${method}' has no MeshGuardClient: pass the 'client' option or set a 'meshguard' property`,
+    );
+  }
+  return client;
+}
+
+function resolveOptions<Args extends unknown[], This>(
+  options: GovernFnOptions<Args, This>,
+  args: Args,
+  self: This,
+): GovernOptions {
+  const { resource, context, ...rest } = options;
+  return {
+    ...rest,
+    resource: typeof resource === "function" ? resource(args, self) : resource,
+    context: typeof context === "function" ? context(args, self) : context,
+  };
+}
@@ -21,16 +21,135 @@
 // Core client
 export { MeshGuardClient } from "./client.js";
 
+// Action catalog
+export { defineActions, validateAction, ACTION_PATTERN } from "./actions.js";
+export type { ActionCatalog, ActionName, ActionOf, CatalogAction } from "./actions.js";
+
+// Governed functions and methods
+export { governFn, governed } from "./governed.js";
+export type {
+  GovernFnOptions,
+  GovernedMethodOptions,
+  GovernedMethodDecorator,
+} from "./governed.js";
+
+// Call context
+export { MeshGuardContext } from "./context.js";
+
+// Decision cache
+export { DecisionCache } from "./cache.js";
+export type { DecisionCacheKey } from "./cache.js";
+
+// Budgets
+export { BudgetTracker } from "./budget.js";
+export type { BudgetScopeIds } from "./budget.js";
+
+// Local policy evaluation
+export { LocalPolicyEvaluator, validatePolicy } from "./evaluator.js";
+export type { LocalPolicyOptions } from "./evaluator.js";
+
+// Audit export
+export {
+  writeAuditNdjson,
+  writeAuditCsv,
+  readAuditNdjson,
+  DEFAULT_AUDIT_CSV_COLUMNS,
+} from "./audit-export.js";
+
+// Local audit trail
+export {
+  AUDIT_GENESIS_HASH,
+  AuditTrail,
+  FileAuditSink,
+  verifyAuditLog,
+} from "./audit-trail.js";
+export type {
+  AuditIssue,
+  AuditReconciliation,
+  AuditRecord,
+  AuditSink,
+  AuditTrailOptions,
+  AuditVerification,
+  VerifyAuditLogOptions,
+} from "./audit-trail.js";
+
+// Policy simulation
+export { simulatePolicyLocally } from "./simulation.js";
+export type { LocalSimulationOptions } from "./simulation.js";
+
+// OpenTelemetry
+export type {
+  TelemetryOptions,
+  TelemetryAttributes,
+  TracerLike,
+  SpanLike,
+  MeterLike,
+  CounterLike,
+  HistogramLike,
+} from "./telemetry.js";
+
+// Obligations
+export { applyObligations } from "./obligations.js";
+
 // Types
 export type {
   MeshGuardOptions,
+  DecisionCacheOptions,
+  RetryOptions,
+  FailureMode,
+  FallbackPolicy,
   PolicyDecision,
+  CheckRequest,
+  CheckManyOptions,
+  CheckOptions,
+  EnforceOptions,
+  GovernOptions,
+  WaitForApprovalOptions,
+  ApprovalStatus,
+  ContextValue,
+  DecisionContext,
+  CallContext,
+  FetchLike,
+  MeshGuardHooks,
+  HookRequest,
+  RequestKind,
+  Obligation,
+  MaskObligation,
+  RemoveObligation,
+  TruncateObligation,
+  BlockObligation,
+  AuditEvent,
   Agent,
   CreateAgentOptions,
+  CreatedAgent,
+  UpdateAgentOptions,
+  ListAgentsOptions,
+  AgentPage,
+  AgentToken,
   AuditEntry,
   AuditLogOptions,
+  AuditLogPage,
+  AuditExportOptions,
   HealthStatus,
   Policy,
+  PolicyEffect,
+  PolicySubject,
+  PolicyConditions,
+  PolicyRule,
+  PolicyDefinition,
+  PolicyWriteOptions,
+  PolicyValidationIssue,
+  PolicyValidationResult,
+  PolicyVersion,
+  SimulatePolicyOptions,
+  PolicySimulationChange,
+  PolicySimulationTally,
+  PolicySimulationReport,
+  PolicyBundle,
+  Cost,
+  Budget,
+  BudgetUsage,
+  UsageReport,
 } from "./types.js";
 
 // Exceptions
@@ -39,4 +158,15 @@ export {
   AuthenticationError,
   PolicyDeniedError,
   RateLimitError,
+  GatewayUnavailableError,
+  PolicyBundleError,
+  OutputBlockedError,
+  ApprovalRequiredError,
+  ApprovalRejectedError,
+  ApprovalTimeoutError,
+  PolicyValidationError,
+  InvalidActionError,
+  BudgetExceededError,
+  isToolRefusalError,
 } from "./exceptions.js";
+export type { ToolRefusalError } from "./exceptions.js";
@@ -1,17 +1,31 @@
 /**
  * MeshGuard LangChain.js Integration
  *
- * Provides wrappers for governing LangChain tools with MeshGuard policy.
+ * Provides wrappers for governing LangChain tools with MeshGuard policy, and
+ * a callback handler that governs and audits whole agent runs.
  *
  * @example
  * ```ts
  * import { MeshGuardClient } from "meshguard";
- * import { GovernedTool, GovernedToolkit } from "meshguard/langchain";
+ * import {
+ *   GovernedTool,
+ *   GovernedToolkit,
+ *   MeshGuardCallbackHandler,
+ * } from "meshguard/langchain";
  * ```
  */
 
 import { MeshGuardClient } from "./client.js";
-import { PolicyDeniedError } from "./exceptions.js";
+import { ApprovalRequiredError, PolicyDeniedError } from "./exceptions.js";
+import { MeshGuardContext } from "./context.js";
+import { safeStringify } from "./obligations.js";
+import type { CatalogAction } from "./actions.js";
+import type {
+  AuditEvent,
+  CheckOptions,
+  DecisionContext,
+  PolicyDecision,
+} from "./types.js";
 
 // ---------------------------------------------------------------------------
 // Generic tool shape — keeps LangChain an optional peer dependency
@@ -31,6 +45,58 @@ type DenyHandler = (
   ...args: unknown[]
 ) => unknown;
 
+/**
+ * Derive what is checked from each tool input, for argument-level policy
+ * ("search public docs" vs "email external@competitor.com"). When an agent
+ * invokes the tool with a `ToolCall`, extractors receive its `args`.
+ *
+ * Extractors may declare the input type they expect, e.g.
+ * `contextFrom: (input: { to: string }) => ({ recipient: input.to })`.
+ */
+export interface ToolInputGovernance<A extends string = string> {
+  /** The resource the call targets. */
+  resourceFrom?(input: unknown, tool: LangChainTool): string | undefined;
+  /** Decision context sent with the check. */
+  contextFrom?(input: unknown, tool: LangChainTool): DecisionContext | undefined;
+  /** The action to check; `undefined` falls back to the tool's action. */
+  actionFrom?(input: unknown, tool: LangChainTool): A | undefined;
+}
+
+/** Options for {@link governedTool}. */
+export interface GovernedToolOptions<A extends string = string>
+  extends ToolInputGovernance<A> {
+  /** Called instead of throwing when the action is denied; its result is returned. */
+  onDeny?: DenyHandler;
+}
+
+/** The action and check options for one tool call. */
+function toolCheck<A extends string>(
+  governance: ToolInputGovernance<A>,
+  tool: LangChainTool,
+  action: A,
+  invocation: unknown,
+): [A, CheckOptions] {
+  const input = toolArgs(invocation);
+  return [
+    governance.actionFrom?.(input, tool) ?? action,
+    {
+      resource: governance.resourceFrom?.(input, tool),
+      context: governance.contextFrom?.(input, tool),
+    },
+  ];
+}
+
+/**
+ * The tool's arguments: agents invoke tools with a LangChain `ToolCall`
+ * (`{ name, args, id, type: "tool_call" }`) rather than the bare input.
+ */
+function toolArgs(input: unknown): unknown {
+  const call = input as { type?: unknown; args?: unknown } | null;
+  return typeof call === "object" && call !== null && call.type === "tool_call"
+    ? call.args
+    : input;
+}
+
 // ---------------------------------------------------------------------------
 // governedTool — functional wrapper
 // ---------------------------------------------------------------------------
@@ -48,25 +114,38 @@ type DenyHandler = (
  * const search = governedTool("read:web_search", client, new DuckDuckGoSearch());
  *
  * const result = await search.invoke("TypeScript SDK patterns");
+ *
+ * // Argument-level policy: check the recipient of every email
+ * const email = governedTool("send:email", client, new GmailSendMessage(), {
+ *   contextFrom: (input: { to: string }) => ({ recipient: input.to }),
+ * });
  * ```
  */
-export function governedTool<T extends LangChainTool>(
-  action: string,
-  client: MeshGuardClient,
+export function governedTool<T extends LangChainTool, A extends string = string>(
+  action: CatalogAction<A>,
+  client: MeshGuardClient<A>,
   tool: T,
-  onDeny?: DenyHandler,
+  onDenyOrOptions?: DenyHandler | GovernedToolOptions<CatalogAction<A>>,
 ): T {
+  const options: GovernedToolOptions<A> =
+    typeof onDenyOrOptions === "function"
+      ? { onDeny: onDenyOrOptions }
+      : (onDenyOrOptions ?? {});
+  const { onDeny } = options;
+
   // Create a proxy that intercepts invoke / call
   return new Proxy(tool, {
     get(target, prop, receiver) {
       if (prop === "invoke" || prop === "call") {
         return async (...args: unknown[]) => {
           try {
-            await client.enforce(action);
+            await client.enforce(...toolCheck(options, target, action, args[0]));
             const fn = Reflect.get(target, prop, receiver) as (
               ...a: unknown[]
             ) => Promise<unknown>;
-            return fn.apply(target, args);
+            return MeshGuardContext.run(client.context, () =>
+              fn.apply(target, args),
+            );
           } catch (err) {
             if (err instanceof PolicyDeniedError && onDeny) {
               return onDeny(err, ...args);
@@ -93,29 +172,34 @@ export function governedTool<T extends LangChainTool>(
  *   tool: myTool,
  *   action: "read:web_search",
  *   client,
+ *   resourceFrom: (input: { url: string }) => input.url,
  * });
  * const result = await governed.invoke("query");
  * ```
  */
-export class GovernedTool implements LangChainTool {
+export class GovernedTool<A extends string = string> implements LangChainTool {
   readonly name: string;
   readonly description: string;
-  readonly action: string;
+  readonly action: A;
 
   private readonly tool: LangChainTool;
-  private readonly client: MeshGuardClient;
+  private readonly client: MeshGuardClient<A>;
   private readonly onDeny?: DenyHandler;
+  private readonly governance: ToolInputGovernance<A>;
 
-  constructor(options: {
-    tool: LangChainTool;
-    action: string;
-    client: MeshGuardClient;
-    onDeny?: DenyHandler;
-  }) {
+  constructor(
+    options: {
+      tool: LangChainTool;
+      action: CatalogAction<A>;
+      client: MeshGuardClient<A>;
+      onDeny?: DenyHandler;
+    } & ToolInputGovernance<CatalogAction<A>>,
+  ) {
     this.tool = options.tool;
     this.action = options.action;
     this.client = options.client;
     this.onDeny = options.onDeny;
+    this.governance = options;
 
     this.name = this.tool.name;
     this.description = this.tool.description;
@@ -124,8 +208,13 @@ export class GovernedTool implements LangChainTool {
   /** Invoke the tool with governance. */
   async invoke(input: unknown, config?: unknown): Promise<unknown> {
     try {
-      await this.client.enforce(this.action);
-      return this.tool.invoke(input, config);
+      await this.client.enforce(
+        ...toolCheck(this.governance, this.tool, this.action, input),
+      );
+      // Calls the tool makes through MeshGuard share this invocation's IDs
+      return MeshGuardContext.run(this.client.context, () =>
+        this.tool.invoke(input, config),
+      );
     } catch (err) {
       if (err instanceof PolicyDeniedError && this.onDeny) {
         return this.onDeny(err, input, config);
@@ -157,39 +246,54 @@ export class GovernedTool implements LangChainTool {
  *     "calculator": "execute:math",
  *   },
  *   defaultAction: "execute:tool",
+ *   // Applied to every tool's input
+ *   resourceFrom: (input, tool) => `${tool.name}:${JSON.stringify(input)}`,
  * });
  *
  * const governedTools = toolkit.getTools();
  * ```
  */
-export class GovernedToolkit {
+export class GovernedToolkit<A extends string = string> {
   private readonly tools: LangChainTool[];
-  private readonly client: MeshGuardClient;
-  private readonly actionMap: Record<string, string>;
-  private readonly defaultAction: string;
+  private readonly client: MeshGuardClient<A>;
+  private readonly actionMap: Record<string, A>;
+  private readonly defaultAction: A;
   private readonly onDeny?: DenyHandler;
+  private readonly governance: ToolInputGovernance<A>;
 
-  constructor(options: {
-    tools: LangChainTool[];
-    client: MeshGuardClient;
-    actionMap?: Record<string, string>;
-    defaultAction?: string;
-    onDeny?: DenyHandler;
-  }) {
+  /**
+   * With a typed client, `actionMap` values and `defaultAction` must be
+   * catalog actions; set `defaultAction` explicitly if the catalog has no
+   * `"execute:tool"`.
+   */
+  constructor(
+    options: {
+      tools: LangChainTool[];
+      client: MeshGuardClient<A>;
+      actionMap?: Record<string, CatalogAction<A>>;
+      defaultAction?: CatalogAction<A>;
+      onDeny?: DenyHandler;
+    } & ToolInputGovernance<CatalogAction<A>>,
+  ) {
     this.tools = options.tools;
     this.client = options.client;
     this.actionMap = options.actionMap ?? {};
-    this.defaultAction = options.defaultAction ?? "execute:tool";
+    this.defaultAction = options.defaultAction ?? ("execute:tool" as A);
     this.onDeny = options.onDeny;
+    this.governance = {
+      resourceFrom: options.resourceFrom,
+      contextFrom: options.contextFrom,
+      actionFrom: options.actionFrom,
+    };
   }
 
   /** Get the MeshGuard action for a tool. */
-  getAction(tool: LangChainTool): string {
+  getAction(tool: LangChainTool): A {
     return this.actionMap[tool.name] ?? this.defaultAction;
   }
 
   /** Return governed versions of all tools. */
-  getTools(): GovernedTool[] {
+  getTools(): GovernedTool<A>[] {
     return this.tools.map(
       (tool) =>
         new GovernedTool({
@@ -197,7 +301,366 @@ export class GovernedToolkit {
           action: this.getAction(tool),
           client: this.client,
           onDeny: this.onDeny,
+          ...this.governance,
         }),
     );
   }
 }
+
+// ---------------------------------------------------------------------------
+// MeshGuardCallbackHandler — govern and audit whole agent runs
+// ---------------------------------------------------------------------------
+
+/** Minimal shape of LangChain's `Serialized` runnable description. */
+export interface SerializedLike {
+  id?: string[];
+  name?: string;
+  kwargs?: { name?: string };
+}
+
+/** Minimal shape of LangChain's `AgentAction`. */
+export interface AgentActionLike {
+  tool: string;
+  toolInput: unknown;
+  log?: string;
+}
+
+/** Minimal shape of LangChain's `LLMResult`. */
+export interface LLMResultLike {
+  llmOutput?: Record<string, unknown>;
+}
+
+/** Options for {@link MeshGuardCallbackHandler}. */
+export interface MeshGuardCallbackHandlerOptions<A extends string = string> {
+  client: MeshGuardClient<A>;
+  /** MeshGuard action per tool name. */
+  actionMap?: Record<string, CatalogAction<A>>;
+  /** Action for tools missing from `actionMap`. Default: `"execute:tool"`. */
+  defaultAction?: CatalogAction<A>;
+  /** The resource a tool call targets, from its (JSON-decoded) input. */
+  resourceFrom?(input: unknown, toolName: string): string | undefined;
+  /** Decision context for a tool call, from its (JSON-decoded) input. */
+  contextFrom?(input: unknown, toolName: string): DecisionContext | undefined;
+  /**
+   * Abort the run when a tool is denied: the handler throws the
+   * {@link PolicyDeniedError} (LangChain rethrows it from the run) and aborts
+   * the run's {@link MeshGuardCallbackHandler.signalFor} signal. When false, denials
+   * are only audited and the tool still runs. Default: true.
+   */
+  abortOnDeny?: boolean;
+  /** Record LLM and tool calls as audit events. Default: true. */
+  audit?: boolean;
+  /** Audit action for LLM calls. Default: `"invoke:llm"`. */
+  llmAction?: string;
+  /** Called for every denied tool call, before the run is aborted. */
+  onDeny?: (error: PolicyDeniedError, toolName: string, input: unknown) => void;
+}
+
+interface RunInfo {
+  /** Top-level run this run belongs to. */
+  root: string;
+  started: number;
+  /** Tool runs only. */
+  tool?: {
+    name: string;
+    action: string;
+    resource?: string;
+    decision?: PolicyDecision["decision"];
+  };
+  /** LLM runs only. */
+  model?: string;
+}
+
+/**
+ * LangChain callback handler that governs and audits a whole agent run,
+ * including tools you did not construct (prebuilt executors, toolkits).
+ *
+ * - Every tool start is checked against policy; a deny aborts the run.
+ * - LLM and tool calls are recorded as audit events. All events of one run
+ *   carry the top-level LangChain run ID as `runId`, plus the client's
+ *   trace ID.
+ *
+ * @example
+ * ```ts
+ * import { MeshGuardCallbackHandler } from "meshguard/langchain";
+ *
+ * const meshguard = new MeshGuardCallbackHandler({
+ *   client,
+ *   actionMap: { search: "read:web_search", send_email: "send:email" },
+ *   contextFrom: (input, tool) =>
+ *     tool === "send_email" ? { recipient: (input as { to: string }).to } : undefined,
+ * });
+ *
+ * const runId = crypto.randomUUID();
+ * await executor.invoke(
+ *   { input: "Email the report to bob" },
+ *   { callbacks: [meshguard], runId, signal: meshguard.signalFor(runId) },
+ * );
+ * await meshguard.flush();
+ * ```
+ *
+ * The handler can be shared by concurrent runs: signals are keyed by the
+ * top-level run ID, so a deny aborts only its own run.
+ */
+export class MeshGuardCallbackHandler<A extends string = string> {
+  readonly name = "MeshGuardCallbackHandler";
+  /** Handler errors (policy denials) propagate out of the LangChain run. */
+  readonly raiseError = true;
+  /** LangChain waits for each callback, so enforcement happens before the tool runs. */
+  readonly awaitHandlers = true;
+
+  private readonly client: MeshGuardClient<A>;
+  private readonly options: MeshGuardCallbackHandlerOptions<A>;
+  private readonly abortOnDeny: boolean;
+  private readonly audit: boolean;
+  /** Controller per top-level run ID, created by `signalFor()`. */
+  private readonly controllers = new Map<string, AbortController>();
+  private readonly runs = new Map<string, RunInfo>();
+  /** Last tool each agent run decided to call, for tools without a run name. */
+  private readonly agentTools = new Map<string, string>();
+  private readonly pending = new Set<Promise<void>>();
+
+  constructor(options: MeshGuardCallbackHandlerOptions<A>) {
+    this.client = options.client;
+    this.options = options;
+    this.abortOnDeny = options.abortOnDeny ?? true;
+    this.audit = options.audit ?? true;
+  }
+
+  /**
+   * Abort signal for the top-level run with this ID — pass both the ID (as
+   * LangChain's `runId`) and the signal to that run's `invoke()`. Aborted
+   * with the {@link PolicyDeniedError} when a deny aborts the run, and
+   * released when the run ends.
+   */
+  signalFor(runId: string): AbortSignal {
+    let controller = this.controllers.get(runId);
+    if (!controller) {
+      controller = new AbortController();
+      this.controllers.set(runId, controller);
+    }
+    return controller.signal;
+  }
+
+  /** Get the MeshGuard action for a tool. */
+  getAction(toolName: string): A {
+    return (
+      this.options.actionMap?.[toolName] ??
+      this.options.defaultAction ??
+      ("execute:tool" as A)
+    );
+  }
+
+  /** Wait for audit events that are still being sent. */
+  async flush(): Promise<void> {
+    while (this.pending.size > 0) {
+      await Promise.all(this.pending);
+    }
+  }
+
+  // -- Runs ------------------------------------------------------------------
+
+  async handleChainStart(
+    _chain: SerializedLike,
+    _inputs: unknown,
+    runId: string,
+    parentRunId?: string,
+  ): Promise<void> {
+    this.startRun(runId, parentRunId);
+  }
+
+  async handleChainEnd(_outputs: unknown, runId: string): Promise<void> {
+    this.endRun(runId);
+  }
+
+  async handleChainError(_err: unknown, runId: string): Promise<void> {
+    this.endRun(runId);
+  }
+
+  async handleAgentAction(
+    action: AgentActionLike,
+    runId: string,
+    parentRunId?: string,
+  ): Promise<void> {
+    this.startRun(runId, parentRunId);
+    this.agentTools.set(runId, action.tool);
+  }
+
+  // -- Tools -----------------------------------------------------------------
+
+  async handleToolStart(
+    tool: SerializedLike,
+    input: string,
+    runId: string,
+    parentRunId?: string,
+    _tags?: string[],
+    _metadata?: Record<string, unknown>,
+    runName?: string,
+  ): Promise<void> {
+    const run = this.startRun(runId, parentRunId);
+    const name =
+      runName ??
+      tool.name ??
+      tool.kwargs?.name ??
+      (parentRunId ? this.agentTools.get(parentRunId) : undefined) ??
+      tool.id?.at(-1) ??
+      "unknown";
+    const args = parseToolInput(input);
+    const action = this.getAction(name);
+    const resource = this.options.resourceFrom?.(args, name);
+    run.tool = { name, action, resource };
+
+    try {
+      const decision = await this.runClient(run).enforce(action, {
+        resource,
+        context: this.options.contextFrom?.(args, name),
+      });
+      run.tool.decision = decision.decision;
+    } catch (err) {
+      if (!(err instanceof PolicyDeniedError)) throw err;
+      run.tool.decision =
+        err instanceof ApprovalRequiredError ? "require_approval" : "deny";
+      this.options.onDeny?.(err, name, args);
+      // Without abortOnDeny the tool still runs; its end event carries the deny
+      if (!this.abortOnDeny) return;
+
+      this.endRun(runId);
+      this.record(run, {
+        type: "tool",
+        action,
+        resource,
+        tool: name,
+        outcome: "blocked",
+        decision: run.tool.decision,
+        error: err.message,
+      });
+      this.controllers.get(run.root)?.abort(err);
+      throw err;
+    }
+  }
+
+  async handleToolEnd(output: unknown, runId: string): Promise<void> {
+    const run = this.endRun(runId);
+    if (!run?.tool) return;
+    const serialized = typeof output === "string" ? output : safeStringify(output);
+    this.record(run, {
+      type: "tool",
+      action: run.tool.action,
+      resource: run.tool.resource,
+      tool: run.tool.name,
+      outcome: "success",
+      decision: run.tool.decision,
+      durationMs: Date.now() - run.started,
+      resultSize: serialized === undefined ? 0 : Buffer.byteLength(serialized),
+    });
+  }
+
+  async handleToolError(err: unknown, runId: string): Promise<void> {
+    const run = this.endRun(runId);
+    if (!run?.tool) return;
+    this.record(run, {
+      type: "tool",
+      action: run.tool.action,
+      resource: run.tool.resource,
+      tool: run.tool.name,
+      outcome: "error",
+      decision: run.tool.decision,
+      durationMs: Date.now() - run.started,
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+
+  // -- LLMs ------------------------------------------------------------------
+
+  async handleLLMStart(
+    llm: SerializedLike,
+    _prompts: unknown,
+    runId: string,
+    parentRunId?: string,
+  ): Promise<void> {
+    this.startRun(runId, parentRunId).model = llm.name ?? llm.id?.at(-1);
+  }
+
+  async handleChatModelStart(
+    llm: SerializedLike,
+    messages: unknown,
+    runId: string,
+    parentRunId?: string,
+  ): Promise<void> {
+    return this.handleLLMStart(llm, messages, runId, parentRunId);
+  }
+
+  async handleLLMEnd(output: LLMResultLike, runId: string): Promise<void> {
+    const run = this.endRun(runId);
+    if (!run) return;
+    this.record(run, {
+      type: "llm",
+      action: this.options.llmAction ?? "invoke:llm",
+      model: run.model,
+      outcome: "success",
+      durationMs: Date.now() - run.started,
+      tokenUsage: output.llmOutput?.tokenUsage,
+    });
+  }
+
+  async handleLLMError(err: unknown, runId: string): Promise<void> {
+    const run = this.endRun(runId);
+    if (!run) return;
+    this.record(run, {
+      type: "llm",
+      action: this.options.llmAction ?? "invoke:llm",
+      model: run.model,
+      outcome: "error",
+      durationMs: Date.now() - run.started,
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+
+  // -- Internals -------------------------------------------------------------
+
+  private startRun(runId: string, parentRunId?: string): RunInfo {
+    let run = this.runs.get(runId);
+    if (!run) {
+      const root = parentRunId
+        ? (this.runs.get(parentRunId)?.root ?? parentRunId)
+        : runId;
+      run = { root, started: Date.now() };
+      this.runs.set(runId, run);
+    }
+    return run;
+  }
+
+  private endRun(runId: string): RunInfo | undefined {
+    const run = this.runs.get(runId);
+    this.runs.delete(runId);
+    this.agentTools.delete(runId);
+    this.controllers.delete(runId);
+    return run;
+  }
+
+  /** The client, tagged with the top-level run. */
+  private runClient(run: RunInfo): MeshGuardClient<A> {
+    return this.client.withContext({ runId: run.root });
+  }
+
+  /** Send an audit event in the background; see {@link flush}. */
+  private record(run: RunInfo, event: AuditEvent): void {
+    if (!this.audit) return;
+    const sent = this.runClient(run)
+      .recordEvent(event)
+      .catch(() => {
+        // Auditing is best-effort; never fail the run over it
+      })
+      .finally(() => this.pending.delete(sent));
+    this.pending.add(sent);
+  }
+}
+
+/** Tool input arrives as a string; structured tools send JSON. */
+function parseToolInput(input: string): unknown {
+  try {
+    return JSON.parse(input);
+  } catch {
+    return input;
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * MeshGuard Pattern Matching
+ *
+ * Glob matching for action names (`read:*`) and resources (`/data/**`).
+ */
+
+const compiled = new Map<string, RegExp>();
+
+/**
+ * Compile a glob into an anchored regular expression.
+ *
+ * `**` matches anything, `?` matches one character. `*` matches anything
+ * except `separator` when one is given, and anything at all otherwise.
+ */
+export function compileGlob(pattern: string, separator?: string): RegExp {
+  const cacheKey = `${separator ?? ""}\u0000${pattern}`;
+  const hit = compiled.get(cacheKey);
+  if (hit) return hit;
+
+  const notSep = separator ? `[^${escapeRegExp(separator)}]` : ".";
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === "*") {
+      if (pattern[i + 1] === "*") {
+        source += ".*";
+        i++;
+      } else {
+        source += `${notSep}*`;
+      }
+    } else if (c === "?") {
+      source += notSep;
+    } else {
+      source += escapeRegExp(c);
+    }
+  }
+
+  const re = new RegExp(`^${source}$`);
+  compiled.set(cacheKey, re);
+  return re;
+}
+
+/** Match an action such as `read:contacts` against a pattern such as `read:*`. */
+export function matchAction(pattern: string, action: string): boolean {
+  if (pattern === action || pattern === "*") return true;
+  return compileGlob(pattern).test(action);
+}
+
+/** Match a resource path against a glob where `*` stops at `/` and `**` does not. */
+export function matchResource(pattern: string, resource: string): boolean {
+  if (pattern === resource || pattern === "**") return true;
+  return compileGlob(pattern, "/").test(resource);
+}
+
+/**
+ * Look up the value for an action in a map keyed by action patterns.
+ *
+ * An exact key wins; otherwise the longest matching pattern does.
+ */
+export function lookupByAction<T>(
+  map: Record<string, T>,
+  action: string,
+): T | undefined {
+  if (Object.prototype.hasOwnProperty.call(map, action)) return map[action];
+
+  let best: string | undefined;
+  for (const pattern of Object.keys(map)) {
+    if (!matchAction(pattern, action)) continue;
+    if (best === undefined || pattern.length > best.length) best = pattern;
+  }
+  return best === undefined ? undefined : map[best];
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\/-]/g, "\\$&");
+}
@@ -0,0 +1,491 @@
+/**
+ * MeshGuard Model Context Protocol (MCP) Integration
+ *
+ * Governs MCP tool servers: `tools/call` requests are checked against
+ * MeshGuard policy (with the call arguments as decision context), and tools
+ * the agent can never use are hidden from `tools/list`.
+ *
+ * Works at the transport level, so it fits any MCP server or client:
+ * wrap a transport with {@link GovernedMcpTransport}, or run a stdio server
+ * behind a governing proxy with {@link startMcpProxy}.
+ *
+ * @example
+ * ```ts
+ * import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+ * import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+ * import { MeshGuardClient } from "meshguard";
+ * import { GovernedMcpTransport } from "meshguard/mcp";
+ *
+ * const transport = new GovernedMcpTransport(
+ *   new StdioClientTransport({ command: "github-mcp-server" }),
+ *   {
+ *     client: new MeshGuardClient(),
+ *     actionMap: { create_issue: "write:issues", search_code: "read:code" },
+ *   },
+ * );
+ * await new Client({ name: "agent", version: "1.0.0" }).connect(transport);
+ * ```
+ */
+
+import { spawn } from "node:child_process";
+import type { ChildProcess } from "node:child_process";
+import type { Readable, Writable } from "node:stream";
+import { StringDecoder } from "node:string_decoder";
+
+import type { CatalogAction } from "./actions.js";
+import type { MeshGuardClient } from "./client.js";
+import type { DecisionContext, PolicyDecision } from "./types.js";
+
+// ---------------------------------------------------------------------------
+// Generic MCP shapes — keeps the MCP SDK an optional peer dependency
+// ---------------------------------------------------------------------------
+
+/** A JSON-RPC 2.0 request, notification or response. */
+export interface JsonRpcMessage {
+  jsonrpc: string;
+  id?: string | number;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: unknown;
+}
+
+/** Minimal interface matching the MCP SDK `Transport`. */
+export interface McpTransport {
+  start(): Promise<void>;
+  send(message: JsonRpcMessage): Promise<void>;
+  close(): Promise<void>;
+  onmessage?: (message: JsonRpcMessage) => void;
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  sessionId?: string;
+}
+
+/** An MCP tool, as listed by `tools/list`. */
+export interface McpToolLike {
+  name: string;
+  description?: string;
+  inputSchema?: unknown;
+}
+
+/** How MCP tools are governed. */
+export interface McpGovernanceOptions<A extends string = string> {
+  client: MeshGuardClient<A>;
+  /** MeshGuard action per tool name. */
+  actionMap?: Record<string, CatalogAction<A>>;
+  /** Action for tools missing from `actionMap`. Default: `"execute:tool"`. */
+  defaultAction?: CatalogAction<A>;
+  /** The resource a call targets, from its arguments. */
+  resourceFrom?(args: unknown, toolName: string): string | undefined;
+  /** Decision context for a call. Default: the call's arguments. */
+  contextFrom?(args: unknown, toolName: string): DecisionContext | undefined;
+  /**
+   * Drop tools whose action is denied outright (checked without call
+   * context) from `tools/list` results. Default: true.
+   */
+  hideDenied?: boolean;
+  /** Text of the error result for a denied call. */
+  denialMessage?(decision: PolicyDecision, toolName: string): string;
+}
+
+/** Options for {@link GovernedMcpTransport}. */
+export interface GovernedMcpTransportOptions<A extends string = string>
+  extends McpGovernanceOptions<A> {
+  /**
+   * Which end of the connection the wrapped transport belongs to:
+   * `"client"` for a transport an MCP client talks to a server through,
+   * `"server"` for the transport an MCP server is served on. Default: `"client"`.
+   */
+  side?: "client" | "server";
+}
+
+// JSON-RPC "invalid params", for tool calls without a tool name
+const INVALID_PARAMS = -32602;
+// JSON-RPC "internal error", for checks that could not be made
+const INTERNAL_ERROR = -32603;
+
+// ---------------------------------------------------------------------------
+// Policy core
+// ---------------------------------------------------------------------------
+
+/** Intercepts tool requests and responses for one connection. */
+class McpGovernor<A extends string> {
+  /** IDs of `tools/list` requests whose responses are still to come. */
+  private readonly listRequests = new Set<string | number>();
+  private readonly options: McpGovernanceOptions<A>;
+
+  constructor(options: McpGovernanceOptions<A>) {
+    this.options = options;
+  }
+
+  getAction(toolName: string): A {
+    return (
+      this.options.actionMap?.[toolName] ??
+      this.options.defaultAction ??
+      ("execute:tool" as A)
+    );
+  }
+
+  /**
+   * Inspect a message headed for the server. Returns the response to send
+   * back in its place, or `undefined` to let it through.
+   */
+  async request(message: JsonRpcMessage): Promise<JsonRpcMessage | undefined> {
+    if (message.id === undefined) return undefined;
+    if (message.method === "tools/list") {
+      this.listRequests.add(message.id);
+      return undefined;
+    }
+    if (message.method !== "tools/call") return undefined;
+
+    const params = (message.params ?? {}) as { name?: unknown; arguments?: unknown };
+    if (typeof params.name !== "string" || params.name === "") {
+      return {
+        jsonrpc: "2.0",
+        id: message.id,
+        error: { code: INVALID_PARAMS, message: "tools/call requires a tool name" },
+      };
+    }
+    const name = params.name;
+    const args = params.arguments ?? {};
+    const context = this.options.contextFrom
+      ? this.options.contextFrom(args, name)
+      : isPlainObject(args)
+        ? (args as DecisionContext)
+        : undefined;
+
+    let decision: PolicyDecision;
+    try {
+      decision = await this.options.client.check(this.getAction(name), {
+        resource: this.options.resourceFrom?.(args, name),
+        context,
+      });
+    } catch (err) {
+      return {
+        jsonrpc: "2.0",
+        id: message.id,
+        error: {
+          code: INTERNAL_ERROR,
+          message: `MeshGuard policy check failed: ${err instanceof Error ? err.message : String(err)}`,
+        },
+      };
+    }
+    if (decision.allowed) return undefined;
+
+    const text = (this.options.denialMessage ?? denialMessage)(decision, name);
+    return {
+      jsonrpc: "2.0",
+      id: message.id,
+      result: { content: [{ type: "text", text }], isError: true },
+    };
+  }
+
+  /** Inspect a message headed for the client; filters `tools/list` results. */
+  async response(message: JsonRpcMessage): Promise<JsonRpcMessage> {
+    if (message.id === undefined || !this.listRequests.delete(message.id)) {
+      return message;
+    }
+    const result = message.result as { tools?: McpToolLike[] } | undefined;
+    const listed = result?.tools;
+    if (!Array.isArray(listed) || this.options.hideDenied === false) {
+      return message;
+    }
+
+    const decisions = await this.options.client.checkMany(
+      listed.map((tool) => ({ action: this.getAction(tool.name) })),
+    );
+    // Keep tools that could not be checked; calls are still enforced
+    const tools = listed.filter(
+      (_, i) => decisions[i].decision !== "deny" || decisions[i].error !== undefined,
+    );
+    return { ...message, result: { ...result, tools } };
+  }
+}
+
+/** The default error text for a denied tool call. */
+export function denialMessage(decision: PolicyDecision, toolName: string): string {
+  if (decision.decision === "require_approval") {
+    return (
+      `Tool "${toolName}" requires human approval` +
+      (decision.approvalId ? ` (request ${decision.approvalId})` : "") +
+      " and was not run."
+    );
+  }
+  return `Tool "${toolName}" denied by MeshGuard policy: ${decision.reason ?? "Access denied by policy"}`;
+}
+
+// ---------------------------------------------------------------------------
+// GovernedMcpTransport
+// ---------------------------------------------------------------------------
+
+/**
+ * Wraps an MCP transport so tool calls passing through it are governed.
+ *
+ * On the client side, denied `tools/call` requests never reach the server:
+ * the client receives an error result (`isError: true`) instead. On the
+ * server side, denied requests are answered before the server sees them.
+ *
+ * @example
+ * ```ts
+ * // Serve an MCP server with governance
+ * const transport = new GovernedMcpTransport(new StdioServerTransport(), {
+ *   client,
+ *   side: "server",
+ *   defaultAction: "execute:tool",
+ * });
+ * await server.connect(transport);
+ * ```
+ */
+export class GovernedMcpTransport<A extends string = string> implements McpTransport {
+  onmessage?: (message: JsonRpcMessage) => void;
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+
+  private readonly inner: McpTransport;
+  private readonly governor: McpGovernor<A>;
+  private readonly side: "client" | "server";
+
+  constructor(inner: McpTransport, options: GovernedMcpTransportOptions<A>) {
+    this.inner = inner;
+    this.governor = new McpGovernor(options);
+    this.side = options.side ?? "client";
+
+    inner.onclose = () => this.onclose?.();
+    inner.onerror = (error) => this.onerror?.(error);
+    inner.onmessage = (message) => {
+      this.receive(message).catch((err) => this.onerror?.(toError(err)));
+    };
+  }
+
+  get sessionId(): string | undefined {
+    return this.inner.sessionId;
+  }
+
+  /** Get the MeshGuard action for a tool. */
+  getAction(toolName: string): A {
+    return this.governor.getAction(toolName);
+  }
+
+  async start(): Promise<void> {
+    await this.inner.start();
+  }
+
+  async close(): Promise<void> {
+    await this.inner.close();
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    if (this.side === "server") {
+      await this.inner.send(await this.governor.response(message));
+      return;
+    }
+    const reply = await this.governor.request(message);
+    if (!reply) {
+      await this.inner.send(message);
+      return;
+    }
+    // Answer the client as the server would have, without contacting it
+    queueMicrotask(() => this.onmessage?.(reply));
+  }
+
+  private async receive(message: JsonRpcMessage): Promise<void> {
+    if (this.side === "client") {
+      this.onmessage?.(await this.governor.response(message));
+      return;
+    }
+    const reply = await this.governor.request(message);
+    if (reply) {
+      await this.inner.send(reply);
+    } else {
+      this.onmessage?.(message);
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Stdio transport and governing proxy
+// ---------------------------------------------------------------------------
+
+/**
+ * MCP stdio framing (one JSON-RPC message per line) over a pair of streams,
+ * e.g. a child process's stdout/stdin or this process's stdin/stdout.
+ */
+export class StdioMcpTransport implements McpTransport {
+  onmessage?: (message: JsonRpcMessage) => void;
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+
+  private readonly input: Readable;
+  private readonly output: Writable;
+  private buffer = "";
+  /** Keeps multibyte characters split across chunks intact. */
+  private decoder = new StringDecoder("utf8");
+  private started = false;
+
+  constructor(input: Readable, output: Writable) {
+    this.input = input;
+    this.output = output;
+  }
+
+  async start(): Promise<void> {
+    if (this.started) return;
+    this.started = true;
+    this.input.on("data", this.onData);
+    this.input.on("error", this.onError);
+    this.input.on("end", this.onEnd);
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    const line = `${JSON.stringify(message)}\n`;
+    await new Promise<void>((resolve, reject) => {
+      this.output.write(line, (err) => (err ? reject(err) : resolve()));
+    });
+  }
+
+  async close(): Promise<void> {
+    if (!this.started) return;
+    this.started = false;
+    this.input.off("data", this.onData);
+    this.input.off("error", this.onError);
+    this.input.off("end", this.onEnd);
+    // Stop reading, so an otherwise idle process (e.g. on stdin) can exit
+    this.input.pause();
+    this.buffer = "";
+    this.decoder = new StringDecoder("utf8");
+    this.onclose?.();
+  }
+
+  private readonly onData = (chunk: Buffer | string): void => {
+    this.buffer += typeof chunk === "string" ? chunk : this.decoder.write(chunk);
+    let newline: number;
+    while ((newline = this.buffer.indexOf("\n")) !== -1) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, "");
+      this.buffer = this.buffer.slice(newline + 1);
+      if (line.trim() === "") continue;
+      try {
+        this.onmessage?.(JSON.parse(line) as JsonRpcMessage);
+      } catch (err) {
+        this.onerror?.(toError(err));
+      }
+    }
+  };
+
+  private readonly onError = (err: Error): void => {
+    this.onerror?.(err);
+  };
+
+  private readonly onEnd = (): void => {
+    void this.close();
+  };
+}
+
+/** Options for {@link startMcpProxy}. */
+export interface McpProxyOptions<A extends string = string>
+  extends McpGovernanceOptions<A> {
+  /** Command that starts the stdio MCP server to govern. */
+  command: string;
+  args?: string[];
+  /** Extra environment variables for the server process. */
+  env?: Record<string, string>;
+  cwd?: string;
+  /** Where the agent's messages come from. Default: `process.stdin`. */
+  input?: Readable;
+  /** Where the agent's responses go. Default: `process.stdout`. */
+  output?: Writable;
+  /**
+   * Milliseconds to let the server exit on its own after the agent's input
+   * ends, before it is killed. Default: 5000.
+   */
+  shutdownTimeout?: number;
+}
+
+/** A running {@link startMcpProxy} proxy. */
+export interface McpProxy {
+  /** The governed MCP server process. */
+  readonly process: ChildProcess;
+  /**
+   * Resolves when the server process exits — including after the agent's
+   * input ends; the proxy then stops reading input.
+   */
+  readonly closed: Promise<void>;
+  /** Stop proxying and terminate the server process. */
+  close(): Promise<void>;
+}
+
+/**
+ * Run a stdio MCP server behind a governing proxy. The agent talks MCP to
+ * this process over `input`/`output` (stdin/stdout by default); the proxy
+ * spawns the real server and governs every tool call on the way through.
+ *
+ * @example
+ * ```ts
+ * // governed-github.ts — point your agent's MCP config at this script
+ * await startMcpProxy({
+ *   client: new MeshGuardClient(),
+ *   command: "github-mcp-server",
+ *   args: ["stdio"],
+ *   actionMap: { create_issue: "write:issues", search_code: "read:code" },
+ * });
+ * ```
+ */
+export async function startMcpProxy<A extends string = string>(
+  options: McpProxyOptions<A>,
+): Promise<McpProxy> {
+  const child = spawn(options.command, options.args ?? [], {
+    cwd: options.cwd,
+    env: { ...process.env, ...options.env },
+    stdio: ["pipe", "pipe", "inherit"],
+  });
+  const closed = new Promise<void>((resolve) => {
+    child.once("exit", () => resolve());
+    child.once("error", () => resolve());
+  });
+
+  const server = new StdioMcpTransport(child.stdout!, child.stdin!);
+  const agent = new GovernedMcpTransport(
+    new StdioMcpTransport(options.input ?? process.stdin, options.output ?? process.stdout),
+    { ...options, side: "server" },
+  );
+
+  const report = (err: unknown): void => {
+    process.emitWarning(`MeshGuard MCP proxy: ${toError(err).message}`);
+  };
+  agent.onmessage = (message) => void server.send(message).catch(report);
+  server.onmessage = (message) => void agent.send(message).catch(report);
+  agent.onerror = report;
+  server.onerror = report;
+  // The agent is gone: close the server's stdin, and kill it if it lingers
+  agent.onclose = () => {
+    if (child.exitCode !== null || child.signalCode !== null) return;
+    child.stdin?.end();
+    const timer = setTimeout(() => child.kill(), options.shutdownTimeout ?? 5000);
+    void closed.then(() => clearTimeout(timer));
+  };
+
+  await server.start();
+  await agent.start();
+  // Release the agent's input once the server is gone, so the proxy can exit
+  void closed.then(async () => {
+    await agent.close();
+    await server.close();
+  });
+
+  return {
+    process: child,
+    closed,
+    async close() {
+      await agent.close();
+      await server.close();
+      if (child.exitCode === null && child.signalCode === null) child.kill();
+      await closed;
+    },
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function toError(err: unknown): Error {
+  return err instanceof Error ? err : new Error(String(err));
+}
@@ -0,0 +1,154 @@
+/**
+ * MeshGuard Obligations
+ *
+ * Applies post-execution obligations from a policy decision to the result
+ * of a governed call: masking, removing and truncating fields, and blocking
+ * results that match patterns.
+ */
+
+import type { Obligation } from "./types.js";
+import { MeshGuardError, OutputBlockedError } from "./exceptions.js";
+
+/**
+ * Apply obligations to a governed result and return the transformed value.
+ *
+ * The input is never mutated — only the containers along each touched path
+ * are copied. Unknown obligation types are ignored.
+ *
+ * Field paths are dot-separated; `*` matches every array element or object
+ * key at that level (e.g. `"contacts.*.email"`).
+ *
+ * @throws {@link OutputBlockedError} when a `block` obligation matches.
+ */
+export function applyObligations<T>(
+  result: T,
+  obligations: Obligation[],
+  action: string,
+): T {
+  let value: unknown = result;
+
+  for (const o of obligations) {
+    switch (o.type) {
+      case "mask":
+      case "redact": {
+        const replacement = (o.replacement as string | undefined) ?? "[REDACTED]";
+        for (const field of fieldsOf(o)) {
+          value = updatePath(value, splitPath(field), () => replacement);
+        }
+        break;
+      }
+      case "remove":
+        for (const field of fieldsOf(o)) {
+          value = updatePath(value, splitPath(field), () => REMOVE);
+        }
+        break;
+      case "truncate": {
+        const max = Number(o.maxItems);
+        if (!Number.isInteger(max) || max < 0) break;
+        const path = typeof o.field === "string" ? splitPath(o.field) : [];
+        value = updatePath(value, path, (v) =>
+          Array.isArray(v) && v.length > max ? v.slice(0, max) : v,
+        );
+        break;
+      }
+      case "block":
+        checkBlocked(value, o, action);
+        break;
+    }
+  }
+  return value as T;
+}
+
+// ---------------------------------------------------------------------------
+// Path helpers
+// ---------------------------------------------------------------------------
+
+/** Sentinel returned by an updater to delete the property. */
+const REMOVE = Symbol("remove");
+
+function fieldsOf(o: Obligation): string[] {
+  return Array.isArray(o.fields) ? (o.fields as string[]) : [];
+}
+
+function splitPath(path: string): string[] {
+  return path === "" ? [] : path.split(".");
+}
+
+/** Copy-on-write update of every value matching `path`. */
+function updatePath(
+  value: unknown,
+  path: string[],
+  fn: (v: unknown) => unknown,
+): unknown {
+  if (path.length === 0) return fn(value);
+  if (typeof value !== "object" || value === null) return value;
+
+  const [head, ...rest] = path;
+  const keys =
+    head === "*"
+      ? Object.keys(value)
+      : Object.prototype.hasOwnProperty.call(value, head)
+        ? [head]
+        : [];
+  if (keys.length === 0) return value;
+
+  const copy: Record<string, unknown> | unknown[] = Array.isArray(value)
+    ? [...value]
+    : { ...(value as Record<string, unknown>) };
+  const removed = new Set<number>();
+
+  for (const key of keys) {
+    const next = updatePath((value as Record<string, unknown>)[key], rest, fn);
+    if (next === REMOVE) {
+      if (Array.isArray(copy)) removed.add(Number(key));
+      else delete copy[key];
+    } else {
+      (copy as Record<string, unknown>)[key] = next;
+    }
+  }
+  return Array.isArray(copy) ? copy.filter((_, i) => !removed.has(i)) : copy;
+}
+
+function collect(value: unknown, path: string[]): unknown[] {
+  if (path.length === 0) return [value];
+  if (typeof value !== "object" || value === null) return [];
+  const [head, ...rest] = path;
+  const obj = value as Record<string, unknown>;
+  const keys = head === "*" ? Object.keys(obj) : head in obj ? [head] : [];
+  return keys.flatMap((k) => collect(obj[k], rest));
+}
+
+function checkBlocked(value: unknown, o: Obligation, action: string): void {
+  const patterns = Array.isArray(o.patterns) ? (o.patterns as string[]) : [];
+  const targets = Array.isArray(o.fields)
+    ? (o.fields as string[]).flatMap((f) => collect(value, splitPath(f)))
+    : [value];
+
+  for (const pattern of patterns) {
+    let re: RegExp;
+    try {
+      re = new RegExp(pattern);
+    } catch {
+      throw new MeshGuardError(`Invalid block pattern in obligation: ${pattern}`);
+    }
+    for (const target of targets) {
+      const text = typeof target === "string" ? target : safeStringify(target);
+      if (text !== undefined && re.test(text)) {
+        throw new OutputBlockedError({
+          action,
+          pattern,
+          reason: o.reason as string | undefined,
+        });
+      }
+    }
+  }
+}
+
+/** JSON-encode a value, or `undefined` if it cannot be serialized. */
+export function safeStringify(value: unknown): string | undefined {
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * MeshGuard OpenAI Function-Calling Integration
+ *
+ * Governs tool-call dispatch for the Chat Completions and Responses APIs.
+ * Denied calls are answered with a refusal message the model can read,
+ * instead of failing the conversation.
+ *
+ * @example
+ * ```ts
+ * import OpenAI from "openai";
+ * import { MeshGuardClient } from "meshguard";
+ * import { GovernedToolDispatcher } from "meshguard/openai";
+ *
+ * const dispatcher = new GovernedToolDispatcher({
+ *   client: new MeshGuardClient(),
+ *   handlers: {
+ *     get_weather: ({ city }: { city: string }) => weather.lookup(city),
+ *     send_email: ({ to, body }: { to: string; body: string }) => mailer.send(to, body),
+ *   },
+ *   actionMap: { get_weather: "read:weather", send_email: "send:email" },
+ * });
+ *
+ * const completion = await openai.chat.completions.create({ model, messages, tools });
+ * const message = completion.choices[0].message;
+ * messages.push(message, ...(await dispatcher.dispatch(message.tool_calls ?? [])));
+ * ```
+ */
+
+import type { CatalogAction } from "./actions.js";
+import type { MeshGuardClient } from "./client.js";
+import {
+  ApprovalRequiredError,
+  BudgetExceededError,
+  OutputBlockedError,
+  isToolRefusalError,
+} from "./exceptions.js";
+import type { ToolRefusalError } from "./exceptions.js";
+import type { DecisionContext } from "./types.js";
+
+export type { ToolRefusalError } from "./exceptions.js";
+
+// ---------------------------------------------------------------------------
+// Generic OpenAI shapes — keeps the OpenAI SDK an optional peer dependency
+// ---------------------------------------------------------------------------
+
+/** Minimal shape of a Chat Completions `tool_calls` entry. */
+export interface ChatToolCallLike {
+  id: string;
+  type?: string;
+  function: { name: string; arguments: string };
+}
+
+/** A Chat Completions `role: "tool"` message answering one tool call. */
+export interface ChatToolMessage {
+  role: "tool";
+  tool_call_id: string;
+  content: string;
+}
+
+/** Minimal shape of a Responses API `function_call` output item. */
+export interface ResponseFunctionCallLike {
+  type: "function_call";
+  call_id: string;
+  name: string;
+  arguments: string;
+}
+
+/** A Responses API `function_call_output` input item answering one call. */
+export interface ResponseFunctionCallOutput {
+  type: "function_call_output";
+  call_id: string;
+  output: string;
+}
+
+/** One tool call, independent of the API it came from. */
+export interface ToolCall {
+  /** `tool_call_id` (Chat Completions) or `call_id` (Responses). */
+  id: string;
+  name: string;
+  /** The JSON-decoded arguments. */
+  args: unknown;
+}
+
+/**
+ * Runs one tool. Declare the argument type you expect, e.g.
+ * `({ city }: { city: string }) => ...`. Non-string results are sent to the
+ * model as JSON.
+ */
+export type ToolHandler = (args: never, call: ToolCall) => unknown;
+
+/** Options for {@link GovernedToolDispatcher}. */
+export interface GovernedToolDispatcherOptions<A extends string = string> {
+  client: MeshGuardClient<A>;
+  /** Tool implementations, keyed by function name. */
+  handlers: Record<string, ToolHandler>;
+  /** MeshGuard action per function name. */
+  actionMap?: Record<string, CatalogAction<A>>;
+  /** Action for functions missing from `actionMap`. Default: `"execute:tool"`. */
+  defaultAction?: CatalogAction<A>;
+  /** The resource a call targets, from its arguments. */
+  resourceFrom?(args: unknown, toolName: string): string | undefined;
+  /** Decision context for a call, from its arguments. */
+  contextFrom?(args: unknown, toolName: string): DecisionContext | undefined;
+  /** The message sent to the model for a refused call. Default: {@link refusalMessage}. */
+  refusal?(error: ToolRefusalError, call: ToolCall): string;
+}
+
+/**
+ * The default model-readable message for a refused tool call. Tells the
+ * model not to retry, so it explains the refusal to the user instead.
+ */
+export function refusalMessage(error: ToolRefusalError, call: ToolCall): string {
+  if (error instanceof OutputBlockedError) {
+    return (
+      `Tool "${call.name}" ran, but its output was blocked by policy` +
+      (error.reason ? `: ${error.reason}` : "") +
+      ". Do not retry this call; tell the user the result cannot be shown."
+    );
+  }
+  if (error instanceof BudgetExceededError) {
+    return (
+      `Tool "${call.name}" was not run: the "${error.budget}" budget is used up` +
+      (error.resetsAt ? ` until ${error.resetsAt.toISOString()}` : "") +
+      ". Do not retry this call; tell the user the limit was reached."
+    );
+  }
+  if (error instanceof ApprovalRequiredError) {
+    return (
+      `Tool "${call.name}" requires human approval (request ${error.approvalId}) ` +
+      "and was not run. Tell the user the request is awaiting approval."
+    );
+  }
+  return (
+    `Tool "${call.name}" was blocked by policy and was not run: ${error.reason}. ` +
+    "Do not retry this call; tell the user it is not permitted."
+  );
+}
+
+// ---------------------------------------------------------------------------
+// GovernedToolDispatcher
+// ---------------------------------------------------------------------------
+
+/**
+ * Executes the tool calls a model asks for, each one governed by MeshGuard
+ * policy via `client.govern()`.
+ *
+ * Denied calls, blocked outputs, exhausted budgets, unknown functions and
+ * malformed arguments are answered with a message for the model; errors
+ * thrown by handlers and gateway failures propagate.
+ */
+export class GovernedToolDispatcher<A extends string = string> {
+  private readonly client: MeshGuardClient<A>;
+  private readonly options: GovernedToolDispatcherOptions<A>;
+
+  constructor(options: GovernedToolDispatcherOptions<A>) {
+    this.client = options.client;
+    this.options = options;
+  }
+
+  /** Get the MeshGuard action for a function name. */
+  getAction(toolName: string): A {
+    return (
+      this.options.actionMap?.[toolName] ??
+      this.options.defaultAction ??
+      ("execute:tool" as A)
+    );
+  }
+
+  /**
+   * Run Chat Completions `tool_calls` concurrently and return the
+   * `role: "tool"` messages to append to the conversation, in call order.
+   */
+  async dispatch(toolCalls: readonly ChatToolCallLike[]): Promise<ChatToolMessage[]> {
+    return Promise.all(
+      toolCalls.map(async (call) => ({
+        role: "tool" as const,
+        tool_call_id: call.id,
+        content: await this.run(call.id, call.function.name, call.function.arguments),
+      })),
+    );
+  }
+
+  /**
+   * Run the `function_call` items of a Responses API `output` array (other
+   * items are skipped) and return the `function_call_output` items to send
+   * back, in call order.
+   */
+  async dispatchResponses(
+    output: readonly { type: string }[],
+  ): Promise<ResponseFunctionCallOutput[]> {
+    const calls = output.filter(
+      (item): item is ResponseFunctionCallLike => item.type === "function_call",
+    );
+    return Promise.all(
+      calls.map(async (call) => ({
+        type: "function_call_output" as const,
+        call_id: call.call_id,
+        output: await this.run(call.call_id, call.name, call.arguments),
+      })),
+    );
+  }
+
+  /** Run one call and return the content for the model. */
+  async run(id: string, name: string, rawArgs: string): Promise<string> {
+    const handler = Object.prototype.hasOwnProperty.call(this.options.handlers, name)
+      ? this.options.handlers[name]
+      : undefined;
+    if (!handler) return `Error: unknown tool "${name}".`;
+
+    let args: unknown;
+    try {
+      args = rawArgs.trim() === "" ? {} : JSON.parse(rawArgs);
+    } catch {
+      return `Error: the arguments for tool "${name}" are not valid JSON.`;
+    }
+
+    const call: ToolCall = { id, name, args };
+    try {
+      const result = await this.client.govern(
+        this.getAction(name),
+        () => handler(args as never, call),
+        {
+          resource: this.options.resourceFrom?.(args, name),
+          context: this.options.contextFrom?.(args, name),
+        },
+      );
+      return typeof result === "string" ? result : (JSON.stringify(result) ?? "");
+    } catch (err) {
+      if (!isToolRefusalError(err)) throw err;
+      return (this.options.refusal ?? refusalMessage)(err, call);
+    }
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * MeshGuard Retry Policy
+ *
+ * Exponential backoff with jitter and `Retry-After` support for gateway calls.
+ */
+
+import type { RetryOptions } from "./types.js";
+
+/** Status codes retried by default: rate limiting and transient gateway errors. */
+export const DEFAULT_RETRY_STATUSES: readonly number[] = [429, 502, 503, 504];
+
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+
+/** A {@link RetryOptions} object with every field filled in. */
+export type ResolvedRetryOptions = Required<RetryOptions>;
+
+/** Fill in retry defaults. Returns `undefined` when retries are disabled. */
+export function resolveRetryOptions(
+  options: boolean | RetryOptions | undefined,
+): ResolvedRetryOptions | undefined {
+  if (!options) return undefined;
+  const o = options === true ? {} : options;
+  return {
+    maxAttempts: Math.max(1, o.maxAttempts ?? 3),
+    baseDelay: o.baseDelay ?? 250,
+    maxDelay: o.maxDelay ?? 10_000,
+    jitter: o.jitter ?? true,
+    retryOn: o.retryOn ?? [...DEFAULT_RETRY_STATUSES],
+    retryNetworkErrors: o.retryNetworkErrors ?? true,
+    retryNonIdempotent: o.retryNonIdempotent ?? false,
+  };
+}
+
+/** Whether repeating a request with this HTTP method is safe. */
+export function isIdempotentMethod(method: string = "GET"): boolean {
+  return IDEMPOTENT_METHODS.has(method.toUpperCase());
+}
+
+/**
+ * Delay before the next attempt, in milliseconds.
+ *
+ * @param attempt - The attempt that just failed (1-based).
+ */
+export function backoffDelay(attempt: number, options: ResolvedRetryOptions): number {
+  const ceiling = Math.min(
+    options.maxDelay,
+    options.baseDelay * 2 ** (attempt - 1),
+  );
+  // "Full jitter": spreads retries from many agents across the whole window
+  return options.jitter ? Math.floor(Math.random() * ceiling) : ceiling;
+}
+
+/**
+ * Parse a `Retry-After` header (delay-seconds or HTTP-date) into milliseconds.
+ *
+ * Returns `undefined` when the header is missing or malformed.
+ */
+export function parseRetryAfter(
+  value: string | null,
+  now: number = Date.now(),
+): number | undefined {
+  if (value === null || value.trim() === "") return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - now);
+}
+
+/** Resolve after `ms` milliseconds, or reject early when `signal` aborts. */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,154 @@
+/**
+ * MeshGuard Policy Simulation
+ *
+ * Replays historical audit entries against a draft policy to show which
+ * decisions it would have flipped.
+ */
+
+import type {
+  AuditEntry,
+  PolicyDefinition,
+  PolicyEffect,
+  PolicySimulationReport,
+  PolicySimulationTally,
+  PolicySubject,
+} from "./types.js";
+import { LocalPolicyEvaluator, validatePolicy } from "./evaluator.js";
+
+/** Options for {@link simulatePolicyLocally}. */
+export interface LocalSimulationOptions {
+  /**
+   * Policies currently in force. The draft replaces the policy with the
+   * same `id` (or, failing that, the same `name`) and is added otherwise.
+   * Policies not in the local rule format are left out and listed in the
+   * report's `excluded`.
+   */
+  policies?: PolicyDefinition[];
+  /** Effect when no rule matches. Default: "deny". */
+  defaultEffect?: PolicyEffect;
+  /** Only replay entries at or after this time. */
+  since?: Date | string;
+  /** Only replay entries before this time. */
+  until?: Date | string;
+  /** Only replay entries for this agent. */
+  agentId?: string;
+  /** Resolve the agent an entry was recorded for. Default: `{ agentId }`. */
+  resolveSubject?: (agentId: string | undefined) => PolicySubject | Promise<PolicySubject>;
+}
+
+/**
+ * Replay audit entries against a draft policy in-process.
+ *
+ * Each entry's recorded decision is compared with what the current policy
+ * set — with the draft swapped in — would decide. Entries without an
+ * allow/deny decision (e.g. pending approvals) are skipped.
+ *
+ * @example
+ * ```ts
+ * const report = await simulatePolicyLocally(
+ *   draft,
+ *   readAuditNdjson("./audit-2024-06.ndjson"),
+ *   { policies: await admin.listPolicies() },
+ * );
+ * console.log(report.allowToDeny, report.byAction);
+ * ```
+ */
+export async function simulatePolicyLocally(
+  draft: PolicyDefinition,
+  entries: AsyncIterable<AuditEntry> | Iterable<AuditEntry>,
+  options: LocalSimulationOptions = {},
+): Promise<PolicySimulationReport> {
+  const excluded: string[] = [];
+  const policies = (options.policies ?? []).filter((p) => {
+    if (validatePolicy(p).length === 0) return true;
+    excluded.push(policyLabel(p));
+    return false;
+  });
+  const evaluator = new LocalPolicyEvaluator({
+    version: "simulation",
+    policies: withDraft(policies, draft),
+    defaultEffect: options.defaultEffect,
+  });
+  const since = options.since === undefined ? -Infinity : Date.parse(toIso(options.since));
+  const until = options.until === undefined ? Infinity : Date.parse(toIso(options.until));
+  const resolveSubject = options.resolveSubject ?? ((agentId) => ({ agentId }));
+
+  const report: PolicySimulationReport = {
+    source: "local",
+    policy: draft.name,
+    evaluated: 0,
+    skipped: 0,
+    allowToDeny: 0,
+    denyToAllow: 0,
+    changes: [],
+    byAction: {},
+    byAgent: {},
+  };
+  if (excluded.length > 0) report.excluded = excluded;
+
+  for await (const entry of entries) {
+    if (options.agentId !== undefined && entry.agentId !== options.agentId) continue;
+    const at = Date.parse(entry.timestamp);
+    if (at < since || at >= until) continue;
+
+    const before = entry.decision;
+    if (before !== "allow" && before !== "deny") {
+      report.skipped++;
+      continue;
+    }
+
+    const resource = typeof entry.resource === "string" ? entry.resource : undefined;
+    const subject = await resolveSubject(entry.agentId);
+    const result = evaluator.evaluate(entry.action, resource, subject);
+    const after: PolicyEffect = result.allowed ? "allow" : "deny";
+
+    const tallies = [
+      tally(report.byAction, entry.action),
+      tally(report.byAgent, entry.agentId ?? "unknown"),
+    ];
+    report.evaluated++;
+    for (const t of tallies) t.evaluated++;
+    if (after === before) continue;
+
+    const field = before === "allow" ? "allowToDeny" : "denyToAllow";
+    report[field]++;
+    for (const t of tallies) t[field]++;
+    report.changes.push({
+      entry,
+      before,
+      after,
+      policy: result.policy,
+      rule: result.rule,
+      reason: result.reason,
+    });
+  }
+  return report;
+}
+
+function withDraft(
+  policies: PolicyDefinition[],
+  draft: PolicyDefinition,
+): PolicyDefinition[] {
+  const id = (draft as { id?: unknown }).id;
+  const index = policies.findIndex((p) =>
+    id !== undefined ? (p as { id?: unknown }).id === id : p.name === draft.name,
+  );
+  if (index === -1) return [...policies, draft];
+  return policies.map((p, i) => (i === index ? draft : p));
+}
+
+function policyLabel(policy: PolicyDefinition): string {
+  const { id, name } = policy as { id?: unknown; name?: unknown };
+  return String(name || id || "(unnamed)");
+}
+
+function tally(
+  tallies: Record<string, PolicySimulationTally>,
+  key: string,
+): PolicySimulationTally {
+  return (tallies[key] ??= { evaluated: 0, allowToDeny: 0, denyToAllow: 0 });
+}
+
+function toIso(value: Date | string): string {
+  return value instanceof Date ? value.toISOString() : value;
+}
@@ -0,0 +1,200 @@
+/**
+ * MeshGuard OpenTelemetry Instrumentation
+ *
+ * Spans, metrics and W3C trace context propagation for client calls.
+ *
+ * Typed structurally so `@opentelemetry/api` stays an optional peer
+ * dependency — pass the tracer and meter from your own OpenTelemetry setup.
+ *
+ * @example
+ * ```ts
+ * import { trace, metrics } from "@opentelemetry/api";
+ *
+ * const client = new MeshGuardClient({
+ *   telemetry: {
+ *     tracer: trace.getTracer("meshguard"),
+ *     meter: metrics.getMeter("meshguard"),
+ *   },
+ * });
+ * ```
+ */
+
+import type { PolicyDecision } from "./types.js";
+
+// ---------------------------------------------------------------------------
+// Generic OpenTelemetry shapes — keeps @opentelemetry/api an optional peer
+// ---------------------------------------------------------------------------
+
+/** Attribute values accepted on spans and metrics. */
+export type TelemetryAttributes = Record<string, string | number | boolean | undefined>;
+
+/** Minimal interface matching OpenTelemetry `Span`. */
+export interface SpanLike {
+  spanContext(): { traceId: string; spanId: string; traceFlags: number };
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error | string): unknown;
+  end(): void;
+}
+
+/** Minimal interface matching OpenTelemetry `Tracer`. */
+export interface TracerLike {
+  startActiveSpan<F extends (span: SpanLike) => unknown>(
+    name: string,
+    options: { kind?: number; attributes?: TelemetryAttributes },
+    fn: F,
+  ): ReturnType<F>;
+}
+
+/** Minimal interface matching OpenTelemetry `Counter`. */
+export interface CounterLike {
+  add(value: number, attributes?: TelemetryAttributes): void;
+}
+
+/** Minimal interface matching OpenTelemetry `Histogram`. */
+export interface HistogramLike {
+  record(value: number, attributes?: TelemetryAttributes): void;
+}
+
+/** Minimal interface matching OpenTelemetry `Meter`. */
+export interface MeterLike {
+  createCounter(name: string, options?: { description?: string; unit?: string }): CounterLike;
+  createHistogram(name: string, options?: { description?: string; unit?: string }): HistogramLike;
+}
+
+/** OpenTelemetry configuration for {@link MeshGuardClient}. */
+export interface TelemetryOptions {
+  /** Tracer for `meshguard.check`, `meshguard.enforce` and `meshguard.request` spans. */
+  tracer?: TracerLike;
+  /** Meter for decision counts and latency histograms. */
+  meter?: MeterLike;
+  /** Send the W3C `traceparent` header to the gateway. Default: true. */
+  propagate?: boolean;
+}
+
+// Values of the OpenTelemetry enums, which live in @opentelemetry/api
+const SPAN_KIND_CLIENT = 2;
+const STATUS_ERROR = 2;
+
+/**
+ * Records spans and metrics for one client. Every method is a no-op for the
+ * parts (tracer, meter) that were not configured.
+ */
+export class Telemetry {
+  private readonly tracer?: TracerLike;
+  private readonly propagate: boolean;
+  private readonly decisions?: CounterLike;
+  private readonly checkDuration?: HistogramLike;
+  private readonly requestDuration?: HistogramLike;
+
+  constructor(options: TelemetryOptions) {
+    this.tracer = options.tracer;
+    this.propagate = options.propagate ?? true;
+
+    const meter = options.meter;
+    this.decisions = meter?.createCounter("meshguard.decisions", {
+      description: "Policy decisions, by action and outcome",
+    });
+    this.checkDuration = meter?.createHistogram("meshguard.check.duration", {
+      description: "Time to reach a policy decision",
+      unit: "ms",
+    });
+    this.requestDuration = meter?.createHistogram("meshguard.request.duration", {
+      description: "Duration of HTTP requests to the gateway",
+      unit: "ms",
+    });
+  }
+
+  /**
+   * Run `fn` inside an active client span. Errors are recorded on the span
+   * and rethrown; the span always ends.
+   */
+  async trace<T>(
+    name: string,
+    attributes: TelemetryAttributes,
+    fn: (span?: SpanLike) => Promise<T>,
+  ): Promise<T> {
+    if (!this.tracer) return fn(undefined);
+
+    return this.tracer.startActiveSpan(
+      name,
+      { kind: SPAN_KIND_CLIENT, attributes },
+      async (span: SpanLike) => {
+        try {
+          return await fn(span);
+        } catch (err) {
+          span.recordException(err instanceof Error ? err : String(err));
+          span.setStatus({
+            code: STATUS_ERROR,
+            message: err instanceof Error ? err.message : String(err),
+          });
+          throw err;
+        } finally {
+          span.end();
+        }
+      },
+    );
+  }
+
+  /** The `traceparent` header for requests made inside `span`, if any. */
+  traceparent(span?: SpanLike): string | undefined {
+    if (!span || !this.propagate) return undefined;
+    const { traceId, spanId, traceFlags } = span.spanContext();
+    // All-zero IDs mark a non-recording (no-op) span
+    if (/^0*$/.test(traceId) || /^0*$/.test(spanId)) return undefined;
+    return `00-${traceId}-${spanId}-${(traceFlags & 0xff).toString(16).padStart(2, "0")}`;
+  }
+
+  /** Annotate a span with a decision and count it. */
+  recordDecision(
+    decision: PolicyDecision,
+    durationMs: number,
+    span?: SpanLike,
+  ): void {
+    const attributes = decisionAttributes(decision);
+    if (span) {
+      for (const [key, value] of Object.entries(attributes)) {
+        if (value !== undefined) span.setAttribute(key, value);
+      }
+    }
+
+    const metric = {
+      "meshguard.action": decision.action,
+      "meshguard.decision": decision.decision,
+      "meshguard.cached": decision.cached ?? false,
+      "meshguard.degraded": decision.degraded ?? false,
+    };
+    this.decisions?.add(1, metric);
+    this.checkDuration?.record(durationMs, metric);
+  }
+
+  /** Record the duration and outcome of one gateway HTTP request. */
+  recordRequest(
+    method: string,
+    durationMs: number,
+    status?: number,
+    error?: unknown,
+  ): void {
+    this.requestDuration?.record(durationMs, {
+      "http.request.method": method,
+      "http.response.status_code": status,
+      "error.type": error
+        ? (error as Error).name ?? "Error"
+        : status !== undefined && status >= 400
+          ? String(status)
+          : undefined,
+    });
+  }
+}
+
+function decisionAttributes(decision: PolicyDecision): TelemetryAttributes {
+  return {
+    "meshguard.decision": decision.decision,
+    "meshguard.allowed": decision.allowed,
+    "meshguard.policy": decision.policy,
+    "meshguard.rule": decision.rule,
+    "meshguard.cached": decision.cached,
+    "meshguard.degraded": decision.degraded,
+    "meshguard.approval_id": decision.approvalId,
+  };
+}
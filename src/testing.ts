@@ -0,0 +1,502 @@
+/**
+ * MeshGuard Testing Utilities
+ *
+ * An in-memory MeshGuard gateway for unit-testing governed agents without
+ * network access or `fetch` spies.
+ *
+ * @example
+ * ```ts
+ * import { MockMeshGuardGateway } from "meshguard/testing";
+ *
+ * const gateway = new MockMeshGuardGateway().allow("read:*").deny("delete:*");
+ * const client = gateway.client();
+ *
+ * await agent.run(client);
+ * gateway.assertChecked("read:contacts");
+ * gateway.assertNotChecked("delete:contacts");
+ * ```
+ */
+
+import assert from "node:assert/strict";
+
+import { MeshGuardClient } from "./client.js";
+import type {
+  ApprovalStatus,
+  Budget,
+  DecisionContext,
+  FetchLike,
+  MeshGuardOptions,
+  Obligation,
+  PolicyDecision,
+} from "./types.js";
+import { matchAction, matchResource } from "./matching.js";
+import { sleep } from "./retry.js";
+
+/** A check as seen by a rule predicate. */
+export interface MockCheck {
+  action: string;
+  resource?: string;
+  context?: DecisionContext;
+}
+
+/** Decision details returned for matching checks. */
+export interface MockRuleOptions {
+  /** Only match this resource (glob, `*` stops at `/`). */
+  resource?: string;
+  /** Only match checks for which this returns true, e.g. on context. */
+  when?: (check: MockCheck) => boolean;
+  policy?: string;
+  rule?: string;
+  reason?: string;
+  obligations?: Obligation[];
+  conditions?: Record<string, unknown>;
+}
+
+/** Options for {@link MockMeshGuardGateway}. */
+export interface MockGatewayOptions {
+  /** Base URL the mock answers for. Default: "https://mock.meshguard.test". */
+  gatewayUrl?: string;
+  /** Decision when no rule matches. Default: "deny". */
+  defaultDecision?: "allow" | "deny";
+  /** Delay before every response, in milliseconds. Default: 0. */
+  latency?: number;
+}
+
+/** Options for {@link MockMeshGuardGateway.fail}. */
+export interface MockFailureOptions {
+  /** Number of requests to fail. Default: 1. */
+  times?: number;
+  /** Only fail requests whose path starts with this, e.g. "/proxy/check". */
+  path?: string;
+  /** `Retry-After` header value in seconds, for 429/503 responses. */
+  retryAfter?: number;
+  /** Response body. */
+  body?: unknown;
+}
+
+/** A request received by the mock gateway. */
+export interface RecordedCall {
+  method: string;
+  /** URL path, without the query string. */
+  path: string;
+  url: string;
+  headers: Record<string, string>;
+  /** Parsed JSON body, if any. */
+  body?: unknown;
+  /** Checked or proxied action. */
+  action?: string;
+  /** Checked resource. */
+  resource?: string;
+  /** Decision context sent with a check. */
+  context?: DecisionContext;
+  /** Status the mock responded with; undefined for simulated network errors. */
+  status?: number;
+}
+
+/** Expectations for {@link MockMeshGuardGateway.assertChecked}. */
+export interface CheckExpectation {
+  resource?: string;
+  /** Expected context; compared with deep equality. */
+  context?: DecisionContext;
+  /** Exact number of matching checks. Default: at least one. */
+  times?: number;
+}
+
+type MockDecision = "allow" | "deny" | "require_approval";
+
+interface MockRule extends MockRuleOptions {
+  pattern: string;
+  decision: MockDecision;
+  approvalId?: string;
+}
+
+interface MockFailure extends MockFailureOptions {
+  status: number | "network";
+  remaining: number;
+}
+
+type ProxyHandler = (call: RecordedCall) => Response | Promise<Response>;
+
+/**
+ * An in-memory MeshGuard gateway. Pass its {@link fetch} to a client (or use
+ * {@link client}) and declare how checks should be decided.
+ *
+ * Supports single and batch checks, proxy requests, audit events, approvals
+ * and health checks. Later rules take precedence over earlier ones; checks
+ * that match no rule get `defaultDecision`.
+ */
+export class MockMeshGuardGateway {
+  readonly gatewayUrl: string;
+  /** Every request received, in order. */
+  readonly calls: RecordedCall[] = [];
+  /** Audit events posted by clients. */
+  readonly events: Array<Record<string, unknown>> = [];
+  /** `fetch` implementation serving this gateway; pass as the `fetch` option. */
+  readonly fetch: FetchLike = (url, init) => this.handle(url, init ?? {});
+
+  private readonly defaultDecision: "allow" | "deny";
+  private latency: number;
+  private rules: MockRule[] = [];
+  private failures: MockFailure[] = [];
+  private approvals = new Map<string, ApprovalStatus>();
+  private proxyHandler?: ProxyHandler;
+  private budgetList: Budget[] = [];
+  private approvalSeq = 0;
+
+  constructor(options: MockGatewayOptions = {}) {
+    this.gatewayUrl = (options.gatewayUrl ?? "https://mock.meshguard.test").replace(/\/+$/, "");
+    this.defaultDecision = options.defaultDecision ?? "deny";
+    this.latency = options.latency ?? 0;
+  }
+
+  /** Create a client wired to this gateway, with test tokens. */
+  client<A extends string = string>(
+    options: MeshGuardOptions<A> = {},
+  ): MeshGuardClient<A> {
+    return new MeshGuardClient({
+      agentToken: "test-agent-token",
+      adminToken: "test-admin-token",
+      ...options,
+      gatewayUrl: this.gatewayUrl,
+      fetch: this.fetch,
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Behavior
+  // ---------------------------------------------------------------------------
+
+  /** Allow actions matching `pattern` (e.g. `"read:*"`). */
+  allow(pattern: string, options: MockRuleOptions = {}): this {
+    this.rules.push({ ...options, pattern, decision: "allow" });
+    return this;
+  }
+
+  /** Deny actions matching `pattern`. */
+  deny(pattern: string, options: MockRuleOptions = {}): this {
+    this.rules.push({ ...options, pattern, decision: "deny" });
+    return this;
+  }
+
+  /**
+   * Answer checks for `pattern` with a pending approval. Resolve it with
+   * {@link approve} or {@link reject}.
+   */
+  requireApproval(
+    pattern: string,
+    options: MockRuleOptions & { approvalId?: string } = {},
+  ): this {
+    this.rules.push({ ...options, pattern, decision: "require_approval" });
+    return this;
+  }
+
+  /** Approve a pending approval request. */
+  approve(approvalId: string, approver = "test-approver"): this {
+    return this.decideApproval(approvalId, "approved", approver);
+  }
+
+  /** Reject a pending approval request. */
+  reject(approvalId: string, reason?: string, approver = "test-approver"): this {
+    return this.decideApproval(approvalId, "rejected", approver, reason);
+  }
+
+  /**
+   * Fail upcoming requests with an HTTP status (e.g. 401, 429, 503).
+   *
+   * @example
+   * ```ts
+   * gateway.fail(503, { times: 2, path: "/proxy/check" });
+   * gateway.fail(429, { retryAfter: 1 });
+   * ```
+   */
+  fail(status: number, options: MockFailureOptions = {}): this {
+    this.failures.push({ ...options, status, remaining: options.times ?? 1 });
+    return this;
+  }
+
+  /** Fail upcoming requests as if the gateway were unreachable. */
+  failNetwork(options: Omit<MockFailureOptions, "retryAfter" | "body"> = {}): this {
+    this.failures.push({ ...options, status: "network", remaining: options.times ?? 1 });
+    return this;
+  }
+
+  /** Delay every response by `ms` milliseconds. */
+  setLatency(ms: number): this {
+    this.latency = ms;
+    return this;
+  }
+
+  /** Respond to allowed proxy requests. Default: 200 with `{}`. */
+  onProxy(handler: ProxyHandler): this {
+    this.proxyHandler = handler;
+    return this;
+  }
+
+  /** Serve these budgets from `GET /budgets` (see `client.loadBudgets()`). */
+  budgets(budgets: Budget[]): this {
+    this.budgetList = budgets;
+    return this;
+  }
+
+  /** Forget rules, failures, approvals, budgets and recorded calls. */
+  reset(): this {
+    this.rules = [];
+    this.failures = [];
+    this.approvals.clear();
+    this.proxyHandler = undefined;
+    this.budgetList = [];
+    this.calls.length = 0;
+    this.events.length = 0;
+    return this;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Inspection & assertions
+  // ---------------------------------------------------------------------------
+
+  /** Checks received (single and batched), optionally for one action. */
+  checks(action?: string): MockCheck[] {
+    const checks: MockCheck[] = [];
+    for (const call of this.calls) {
+      if (call.path === "/proxy/check" && call.action !== undefined) {
+        checks.push({ action: call.action, resource: call.resource, context: call.context });
+      } else if (call.path === "/proxy/check/batch") {
+        checks.push(...(((call.body as { checks?: MockCheck[] })?.checks) ?? []));
+      }
+    }
+    return action === undefined ? checks : checks.filter((c) => c.action === action);
+  }
+
+  /** Assert that `action` was checked, optionally with a resource, context and count. */
+  assertChecked(action: string, expected: CheckExpectation = {}): void {
+    const matching = this.checks(action).filter(
+      (c) =>
+        (expected.resource === undefined || c.resource === expected.resource) &&
+        (expected.context === undefined || isDeepEqual(c.context, expected.context)),
+    );
+    if (expected.times === undefined) {
+      assert.ok(
+        matching.length > 0,
+        `Expected "${action}" to be checked${describeExpectation(expected)}, but it was not. Checked: ${this.checkedActions()}`,
+      );
+    } else {
+      assert.equal(
+        matching.length,
+        expected.times,
+        `Expected "${action}" to be checked ${expected.times} time(s)${describeExpectation(expected)}, got ${matching.length}`,
+      );
+    }
+  }
+
+  /** Assert that `action` was never checked. */
+  assertNotChecked(action: string): void {
+    const count = this.checks(action).length;
+    assert.equal(count, 0, `Expected "${action}" not to be checked, but it was checked ${count} time(s)`);
+  }
+
+  /** Assert that an audit event matching `expected` was recorded. */
+  assertEvent(expected: Record<string, unknown>): void {
+    const found = this.events.some((e) =>
+      Object.entries(expected).every(([k, v]) => isDeepEqual(e[k], v)),
+    );
+    assert.ok(found, `Expected an audit event matching ${JSON.stringify(expected)}`);
+  }
+
+  private checkedActions(): string {
+    const actions = [...new Set(this.checks().map((c) => c.action))];
+    return actions.length > 0 ? actions.join(", ") : "(none)";
+  }
+
+  // ---------------------------------------------------------------------------
+  // Request handling
+  // ---------------------------------------------------------------------------
+
+  private async handle(url: string, init: RequestInit): Promise<Response> {
+    const parsed = new URL(url);
+    const headers = Object.fromEntries(new Headers(init.headers).entries());
+    const call: RecordedCall = {
+      method: (init.method ?? "GET").toUpperCase(),
+      path: parsed.pathname,
+      url,
+      headers,
+      body: parseBody(init.body),
+      action: headers["x-meshguard-action"],
+      resource: headers["x-meshguard-resource"],
+    };
+    if (call.path === "/proxy/check") call.context = checkContext(call);
+    this.calls.push(call);
+
+    if (this.latency > 0) await sleep(this.latency, init.signal ?? undefined);
+    init.signal?.throwIfAborted();
+
+    const failure = this.failures.find(
+      (f) => f.remaining > 0 && (f.path === undefined || call.path.startsWith(f.path)),
+    );
+    if (failure) {
+      failure.remaining--;
+      if (failure.status === "network") throw new TypeError("fetch failed");
+      const h: Record<string, string> = {};
+      if (failure.retryAfter !== undefined) h["Retry-After"] = String(failure.retryAfter);
+      return this.respond(call, failure.status, failure.body ?? { error: "Simulated failure" }, h);
+    }
+
+    return this.route(call, parsed);
+  }
+
+  private async route(call: RecordedCall, url: URL): Promise<Response> {
+    const path = call.path;
+    if (path === "/proxy/check") {
+      return this.checkResponse(call, {
+        action: call.action ?? "",
+        resource: call.resource,
+        context: call.context,
+      });
+    }
+    if (path === "/proxy/check/batch") {
+      const checks = (call.body as { checks?: MockCheck[] })?.checks ?? [];
+      return this.respond(call, 200, {
+        decisions: checks.map((c) => {
+          const d = this.decide(c);
+          return { ...d, allowed: d.decision === "allow" };
+        }),
+      });
+    }
+    if (path.startsWith("/proxy/")) {
+      const d = this.decide({ action: call.action ?? "" });
+      if (d.decision !== "allow") return this.respond(call, 403, { ...d, message: d.reason });
+      if (!this.proxyHandler) return this.respond(call, 200, {});
+      const response = await this.proxyHandler(call);
+      call.status = response.status;
+      return response;
+    }
+    if (path === "/audit/events" && call.method === "POST") {
+      this.events.push((call.body as Record<string, unknown>) ?? {});
+      return this.respond(call, 200, {});
+    }
+    const approval = /^\/approvals\/([^/]+)$/.exec(path);
+    if (approval) {
+      const status = this.approvals.get(decodeURIComponent(approval[1]));
+      return status
+        ? this.respond(call, 200, status)
+        : this.respond(call, 404, { error: "Unknown approval" });
+    }
+    if (path === "/health") {
+      return this.respond(call, 200, { status: "healthy" });
+    }
+    if (path === "/budgets" && call.method === "GET") {
+      return this.respond(call, 200, { budgets: this.budgetList });
+    }
+    return this.respond(call, 404, {
+      error: `MockMeshGuardGateway does not implement ${call.method} ${path}${url.search}`,
+    });
+  }
+
+  private checkResponse(call: RecordedCall, check: MockCheck): Response {
+    const d = this.decide(check);
+    const status = d.decision === "allow" ? 200 : d.decision === "deny" ? 403 : 202;
+    return this.respond(call, status, { ...d, message: d.reason });
+  }
+
+  /** Decide a check against the rules, latest first. */
+  private decide(check: MockCheck): Omit<PolicyDecision, "allowed"> {
+    const rule = [...this.rules]
+      .reverse()
+      .find(
+        (r) =>
+          matchAction(r.pattern, check.action) &&
+          (r.resource === undefined ||
+            (check.resource !== undefined && matchResource(r.resource, check.resource))) &&
+          (r.when === undefined || r.when(check)),
+      );
+    if (!rule) {
+      return {
+        action: check.action,
+        decision: this.defaultDecision,
+        policy: "mock-default",
+        reason: "No matching mock rule",
+      };
+    }
+
+    const decision: Omit<PolicyDecision, "allowed"> = {
+      action: check.action,
+      decision: rule.decision,
+      policy: rule.policy ?? "mock",
+      rule: rule.rule ?? rule.pattern,
+      reason: rule.reason,
+      obligations: rule.obligations,
+      conditions: rule.conditions,
+    };
+    if (rule.decision === "require_approval") {
+      const id = rule.approvalId ?? `mock-approval-${++this.approvalSeq}`;
+      if (!this.approvals.has(id)) {
+        this.approvals.set(id, { id, status: "pending", action: check.action });
+      }
+      decision.approvalId = id;
+    }
+    return decision;
+  }
+
+  private decideApproval(
+    approvalId: string,
+    status: "approved" | "rejected",
+    approver: string,
+    reason?: string,
+  ): this {
+    const current = this.approvals.get(approvalId);
+    this.approvals.set(approvalId, {
+      id: approvalId,
+      action: current?.action,
+      status,
+      approver,
+      reason,
+      decidedAt: new Date().toISOString(),
+    });
+    return this;
+  }
+
+  private respond(
+    call: RecordedCall,
+    status: number,
+    body: unknown,
+    headers: Record<string, string> = {},
+  ): Response {
+    call.status = status;
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { "Content-Type": "application/json", ...headers },
+    });
+  }
+}
+
+function parseBody(body: RequestInit["body"]): unknown {
+  if (typeof body !== "string") return undefined;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+function checkContext(call: RecordedCall): DecisionContext | undefined {
+  const fromBody = (call.body as { context?: DecisionContext } | undefined)?.context;
+  if (fromBody) return fromBody;
+  const header = call.headers["x-meshguard-context"];
+  if (!header) return undefined;
+  return JSON.parse(Buffer.from(header, "base64url").toString("utf8")) as DecisionContext;
+}
+
+function describeExpectation(expected: CheckExpectation): string {
+  const parts: string[] = [];
+  if (expected.resource !== undefined) parts.push(`resource "${expected.resource}"`);
+  if (expected.context !== undefined) parts.push(`context ${JSON.stringify(expected.context)}`);
+  return parts.length > 0 ? ` with ${parts.join(" and ")}` : "";
+}
+
+function isDeepEqual(a: unknown, b: unknown): boolean {
+  try {
+    assert.deepStrictEqual(a, b);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -2,8 +2,17 @@
  * MeshGuard TypeScript Types
  */
 
-/** Configuration options for the MeshGuard client. */
-export interface MeshGuardOptions {
+import type { LocalPolicyEvaluator } from "./evaluator.js";
+import type { TelemetryOptions } from "./telemetry.js";
+import type { ActionCatalog } from "./actions.js";
+import type { AuditTrail, AuditTrailOptions } from "./audit-trail.js";
+
+/**
+ * Configuration options for the MeshGuard client.
+ *
+ * @typeParam A - Actions the client accepts, inferred from `actions`.
+ */
+export interface MeshGuardOptions<A extends string = string> {
   /** MeshGuard gateway URL. Falls back to MESHGUARD_GATEWAY_URL env var. */
   gatewayUrl?: string;
   /** Agent JWT token. Falls back to MESHGUARD_AGENT_TOKEN env var. */
@@ -14,6 +23,361 @@ export interface MeshGuardOptions {
   timeout?: number;
   /** Optional trace ID for request correlation. Auto-generated if omitted. */
   traceId?: string;
+  /**
+   * Cache policy decisions client-side. `true` enables the cache with
+   * defaults; pass options to tune it. Disabled by default.
+   */
+  cache?: boolean | DecisionCacheOptions;
+  /**
+   * Retry rate-limited (429) and transient (5xx, network) failures with
+   * exponential backoff. `true` uses defaults. Disabled by default.
+   */
+  retry?: boolean | RetryOptions;
+  /**
+   * What `check()` does when the gateway is unreachable or returns a 5xx.
+   * Default: `"throw"`.
+   */
+  failureMode?: FailureMode;
+  /**
+   * Per-action overrides of `failureMode`, keyed by action pattern
+   * (e.g. `"read:*"`). An exact action wins over the longest matching pattern.
+   */
+  failureModes?: Record<string, FailureMode>;
+  /** Local policy consulted by the `"fallback"` failure mode. */
+  fallback?: FallbackPolicy;
+  /**
+   * Evaluate every check in-process against this evaluator instead of
+   * calling the gateway (offline / air-gapped mode).
+   */
+  localPolicy?: LocalPolicyEvaluator;
+  /**
+   * How decision context is sent to the gateway: as a JSON request body
+   * (`POST /proxy/check`) or a base64url-encoded `X-MeshGuard-Context`
+   * header. Default: `"body"`.
+   */
+  contextTransport?: "body" | "header";
+  /**
+   * Report the outcome of every `govern()` call (success, error, duration,
+   * size) to the gateway as an audit event. Default: false.
+   */
+  auditOutcomes?: boolean;
+  /**
+   * OpenTelemetry tracer and meter. Adds spans for `check`, `enforce` and
+   * proxy requests, decision and latency metrics, and `traceparent`
+   * propagation to the gateway.
+   */
+  telemetry?: TelemetryOptions;
+  /** Hooks run around every gateway request and policy decision. See {@link MeshGuardHooks}. */
+  hooks?: MeshGuardHooks | MeshGuardHooks[];
+  /**
+   * `fetch` implementation used for every gateway request. Default: the
+   * global `fetch`. Use it for custom agents/proxies or an in-memory gateway
+   * such as `MockMeshGuardGateway` from `meshguard/testing`.
+   */
+  fetch?: FetchLike;
+  /**
+   * Catalog of known actions from `defineActions()`. Narrows the action
+   * parameter of `check`, `enforce`, `govern` and proxy requests to the
+   * catalog's actions.
+   */
+  actions?: ActionCatalog<A>;
+  /**
+   * Reject malformed actions (not `verb:noun`) with `InvalidActionError`
+   * before calling the gateway, and, when `actions` is set, actions missing
+   * from the catalog. Default: false.
+   */
+  validateActions?: boolean;
+  /**
+   * Spend and count limits checked by `govern()` before running the governed
+   * function. See {@link Budget}; `loadBudgets()` adds the gateway's.
+   */
+  budgets?: Budget[];
+  /**
+   * Keep a local, hash-chained copy of every policy decision and governed
+   * execution outcome, in an NDJSON file or a custom sink. Check it with
+   * `verifyAuditLog()`.
+   */
+  auditTrail?: AuditTrailOptions | AuditTrail;
+}
+
+/** The subset of the `fetch` signature the client relies on. */
+export type FetchLike = (url: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Degradation policy when the gateway cannot be reached.
+ *
+ * - `"throw"` — reject with {@link GatewayUnavailableError} (default)
+ * - `"failClosed"` — deny the action
+ * - `"failOpen"` — allow the action
+ * - `"fallback"` — evaluate the client's `fallback` policy
+ *
+ * Every non-throwing mode marks the decision as `degraded`.
+ */
+export type FailureMode = "throw" | "failClosed" | "failOpen" | "fallback";
+
+/**
+ * Locally supplied policy for the `"fallback"` failure mode. Return a
+ * boolean (allowed or not) or a full decision. Receives the check's decision
+ * context, if any.
+ */
+export type FallbackPolicy = (
+  action: string,
+  resource?: string,
+  context?: DecisionContext,
+) => boolean | PolicyDecision | Promise<boolean | PolicyDecision>;
+
+/** Options for the client-side decision cache. */
+export interface DecisionCacheOptions {
+  /** How long allow decisions are cached, in milliseconds. Default: 60000. */
+  ttl?: number;
+  /** How long deny decisions are cached, in milliseconds. `0` disables. Default: `ttl`. */
+  denyTtl?: number;
+  /** Maximum number of cached decisions (least recently used are evicted). Default: 1000. */
+  maxSize?: number;
+  /** Let gateway `Cache-Control` / `X-MeshGuard-Cache-TTL` hints override the TTLs. Default: true. */
+  respectCacheHeaders?: boolean;
+}
+
+/** Retry policy for gateway requests. */
+export interface RetryOptions {
+  /** Total attempts, including the first one. Default: 3. */
+  maxAttempts?: number;
+  /** Backoff base delay in milliseconds; doubles on each attempt. Default: 250. */
+  baseDelay?: number;
+  /**
+   * Upper bound for a single delay in milliseconds. A `Retry-After` longer
+   * than this stops retrying and surfaces the error instead. Default: 10000.
+   */
+  maxDelay?: number;
+  /** Randomize delays ("full jitter") to avoid synchronized retries. Default: true. */
+  jitter?: boolean;
+  /** HTTP status codes that trigger a retry. Default: `[429, 502, 503, 504]`. */
+  retryOn?: number[];
+  /** Retry network errors and timeouts. Default: true. */
+  retryNetworkErrors?: boolean;
+  /** Also retry non-idempotent methods (POST, PATCH), e.g. proxied writes. Default: false. */
+  retryNonIdempotent?: boolean;
+}
+
+/** A JSON-compatible value in a {@link DecisionContext}. */
+export type ContextValue =
+  | string
+  | number
+  | boolean
+  | null
+  | ContextValue[]
+  | { [key: string]: ContextValue };
+
+/**
+ * Call attributes policies can condition on, e.g. recipient domain, amount,
+ * row count, or the user the agent acts for.
+ */
+export type DecisionContext = Record<string, ContextValue>;
+
+/**
+ * IDs that correlate gateway calls with the work that made them. Sent as
+ * `X-MeshGuard-Trace-ID`, `X-MeshGuard-Session-ID`, `X-MeshGuard-User-ID`
+ * and `X-MeshGuard-Run-ID` headers and attached to audit events.
+ */
+export interface CallContext {
+  /** Trace ID for request correlation. */
+  traceId?: string;
+  /** End-user or conversation session. */
+  sessionId?: string;
+  /** User the agent acts for. */
+  userId?: string;
+  /** Agent run, e.g. one execution of a chain or graph. */
+  runId?: string;
+}
+
+/** Options-object form of the `check` / `enforce` / `govern` arguments. */
+export interface CheckOptions {
+  /** The resource the action targets. */
+  resource?: string;
+  /** Attributes of the call, sent to the gateway with the check. */
+  context?: DecisionContext;
+}
+
+/** Options for {@link MeshGuardClient.enforce}. */
+export interface EnforceOptions extends CheckOptions {
+  /**
+   * Block until a human approves or rejects actions that require approval,
+   * instead of throwing `ApprovalRequiredError`.
+   */
+  waitForApproval?: boolean | WaitForApprovalOptions;
+}
+
+/** Options for {@link MeshGuardClient.govern}. */
+export interface GovernOptions<T = unknown> extends EnforceOptions {
+  /** Report the outcome to the gateway. Default: the client's `auditOutcomes`. */
+  audit?: boolean;
+  /**
+   * What the call consumes, charged against the client's budgets. A fixed
+   * cost is checked before the function runs; a function computes the cost
+   * from the result (e.g. tokens used) and is recorded afterwards. Every
+   * call also counts one `"calls"`.
+   */
+  cost?: Cost | ((result: T) => Cost);
+}
+
+/** Amounts consumed, per unit, e.g. `{ tokens: 1200, usd: 0.03 }`. */
+export type Cost = Record<string, number>;
+
+/**
+ * A spend or count limit, enforced client-side by `govern()`.
+ *
+ * @example
+ * ```ts
+ * { name: "daily-spend", unit: "usd", limit: 25, window: 24 * 3_600_000 }
+ * { name: "email-per-session", unit: "calls", limit: 10, actions: "send:email", scope: "session" }
+ * ```
+ */
+export interface Budget {
+  /** Unique name, reported in errors and usage. */
+  name: string;
+  /** `"calls"` counts governed calls; any other unit sums declared costs. */
+  unit: string;
+  /** Maximum consumption per scope and window. */
+  limit: number;
+  /** Action patterns the budget covers, e.g. `"write:*"`. Default: all actions. */
+  actions?: string | string[];
+  /** Who shares the budget: the agent, or each session, user or run. Default: `"agent"`. */
+  scope?: "agent" | "session" | "user" | "run";
+  /** Window length in milliseconds, after which usage resets. Default: never. */
+  window?: number;
+}
+
+/** Consumption of one budget by one scope (agent, session, ...). */
+export interface BudgetUsage {
+  budget: string;
+  unit: string;
+  limit: number;
+  used: number;
+  remaining: number;
+  scope: NonNullable<Budget["scope"]>;
+  /** The session, user or run ID (or agent identity) the usage belongs to. */
+  scopeId?: string;
+  /** When the window resets, for windowed budgets (ISO timestamp). */
+  resetsAt?: string;
+}
+
+/** Result of {@link MeshGuardClient.getUsage}. */
+export interface UsageReport {
+  /** Everything consumed through this client, per unit. */
+  totals: Cost;
+  /** Consumption per action, per unit. */
+  byAction: Record<string, Cost>;
+  /** Each budget, per scope that has used it. */
+  budgets: BudgetUsage[];
+}
+
+/**
+ * An obligation attached to a decision, e.g. "allowed but redact PII".
+ *
+ * `govern()` applies the types below to the governed result; other types
+ * are left to the caller.
+ */
+export interface Obligation {
+  /** Obligation type, e.g. `"redact"`. */
+  type: string;
+  /** Type-specific parameters. */
+  [key: string]: unknown;
+}
+
+/** Replace fields with a placeholder. `"redact"` is an alias. */
+export interface MaskObligation extends Obligation {
+  type: "mask" | "redact";
+  /** Dot-separated field paths; `*` matches any key or element. */
+  fields: string[];
+  /** Replacement value. Default: `"[REDACTED]"`. */
+  replacement?: string;
+}
+
+/** Remove fields entirely. */
+export interface RemoveObligation extends Obligation {
+  type: "remove";
+  /** Dot-separated field paths; `*` matches any key or element. */
+  fields: string[];
+}
+
+/** Cap an array at `maxItems` elements. */
+export interface TruncateObligation extends Obligation {
+  type: "truncate";
+  /** Path to the array. Omit to truncate the result itself. */
+  field?: string;
+  /** Maximum number of elements to keep. */
+  maxItems: number;
+}
+
+/** Reject the result if it matches any pattern. */
+export interface BlockObligation extends Obligation {
+  type: "block";
+  /** Regular expressions tested against the serialized result. */
+  patterns: string[];
+  /** Only test these field paths. Omit to test the whole result. */
+  fields?: string[];
+  /** Reason reported in the error. */
+  reason?: string;
+}
+
+/** Options for {@link MeshGuardClient.waitForApproval}. */
+export interface WaitForApprovalOptions {
+  /** Give up after this many milliseconds. Default: 300000 (5 minutes). */
+  timeout?: number;
+  /** Delay between polls, in milliseconds. Default: 2000. */
+  pollInterval?: number;
+  /** Ask the gateway to hold each poll open until a decision (long-poll). */
+  longPoll?: boolean;
+  /** Cancels the wait; the promise rejects with the signal's reason. */
+  signal?: AbortSignal;
+}
+
+/** State of a human approval request. */
+export interface ApprovalStatus {
+  /** Approval request ID. */
+  id: string;
+  /** Current state. */
+  status: "pending" | "approved" | "rejected" | "expired";
+  /** The action awaiting approval. */
+  action?: string;
+  /** Who approved or rejected the request. */
+  approver?: string;
+  /** Approver's comment or rejection reason. */
+  reason?: string;
+  /** ISO timestamp of the decision. */
+  decidedAt?: string;
+}
+
+/** An event reported to the gateway audit log. */
+export interface AuditEvent {
+  /** Event type, e.g. `"execution"`. */
+  type: string;
+  /** The governed action. */
+  action: string;
+  /** The resource the action targeted. */
+  resource?: string;
+  /** How the governed call ended. */
+  outcome?: "success" | "error" | "blocked";
+  /** Decision the execution was allowed under. */
+  decision?: PolicyDecision["decision"];
+  /** Wall-clock duration of the governed call, in milliseconds. */
+  durationMs?: number;
+  /** Size of the JSON-serialized result, in bytes. */
+  resultSize?: number;
+  /** Error message for failed or blocked calls. */
+  error?: string;
+  /** Trace ID for request correlation. Defaults to the active context's. */
+  traceId?: string;
+  /** Session ID. Defaults to the active context's. */
+  sessionId?: string;
+  /** User ID. Defaults to the active context's. */
+  userId?: string;
+  /** Run ID. Defaults to the active context's. */
+  runId?: string;
+  /** ISO timestamp. Defaults to now. */
+  timestamp?: string;
+  /** Additional metadata. */
+  [key: string]: unknown;
 }
 
 /** Result of a policy evaluation. */
@@ -22,8 +386,8 @@ export interface PolicyDecision {
   allowed: boolean;
   /** The action that was checked. */
   action: string;
-  /** The decision result: "allow" or "deny". */
-  decision: "allow" | "deny";
+  /** The decision result: "allow", "deny", or "require_approval" (pending a human). */
+  decision: "allow" | "deny" | "require_approval";
   /** The policy that produced this decision. */
   policy?: string;
   /** The specific rule that matched. */
@@ -32,6 +396,104 @@ export interface PolicyDecision {
   reason?: string;
   /** Trace ID for request correlation. */
   traceId?: string;
+  /** Whether this decision was served from the client-side cache. */
+  cached?: boolean;
+  /** Set when the gateway was unavailable and a failure mode decided instead. */
+  degraded?: boolean;
+  /** The gateway error behind a degraded decision. */
+  error?: Error;
+  /** Obligations the caller must fulfil when acting on this decision. */
+  obligations?: Obligation[];
+  /** Limits the decision is subject to, e.g. `{ maxAmount: 500 }`. */
+  conditions?: Record<string, unknown>;
+  /** ID of the approval request, for "require_approval" decisions. */
+  approvalId?: string;
+}
+
+/** What a gateway request is for. */
+export type RequestKind =
+  | "check"
+  | "batch"
+  | "proxy"
+  | "admin"
+  | "audit"
+  | "approval"
+  | "policy"
+  | "health";
+
+/** A gateway request as seen by hooks. */
+export interface HookRequest {
+  /** What the request is for. */
+  kind: RequestKind;
+  /** HTTP method. */
+  method: string;
+  /** Full request URL. */
+  url: string;
+  /** Request headers. `onRequest` hooks may add, change or remove entries. */
+  headers: Record<string, string>;
+  /** Request body, if any. */
+  body?: RequestInit["body"];
+  /** The governed action, for checks and proxy requests. */
+  action?: string;
+  /** The targeted resource, for checks. */
+  resource?: string;
+}
+
+/**
+ * Hooks for observing and altering client behavior — custom auth, logging,
+ * metrics and policy overrides — without replacing `fetch`.
+ *
+ * Hooks run in registration order and may be async. An error thrown by a
+ * hook propagates to the caller.
+ */
+export interface MeshGuardHooks {
+  /**
+   * Before a gateway request is sent (once, not per retry).
+   *
+   * Return a `Response` to skip the network. For checks, return a
+   * {@link PolicyDecision} to decide without the gateway; for other requests
+   * a non-allow decision blocks the request with a 403 and an allow decision
+   * lets it through.
+   */
+  onRequest?(
+    request: HookRequest,
+  ): void | Response | PolicyDecision | Promise<void | Response | PolicyDecision>;
+  /** After the gateway (or an `onRequest` hook) responds. Return a `Response` to replace it. */
+  onResponse?(
+    response: Response,
+    request: HookRequest,
+  ): void | Response | Promise<void | Response>;
+  /**
+   * After every policy decision, including cached, local and degraded ones.
+   * Return a {@link PolicyDecision} to replace it.
+   */
+  onDecision?(
+    decision: PolicyDecision,
+    check: CheckRequest,
+  ): void | PolicyDecision | Promise<void | PolicyDecision>;
+  /** After a decision that does not allow the action (run after `onDecision`). */
+  onDeny?(decision: PolicyDecision, check: CheckRequest): void | Promise<void>;
+  /**
+   * When a gateway request fails: the gateway is unreachable, times out, or
+   * answers with an error status.
+   */
+  onError?(error: unknown, request: HookRequest | undefined): void | Promise<void>;
+}
+
+/** A single entry for {@link MeshGuardClient.checkMany}. */
+export interface CheckRequest<A extends string = string> {
+  /** The action to check. */
+  action: A;
+  /** The resource the action targets. */
+  resource?: string;
+  /** Attributes of the call, sent to the gateway with the check. */
+  context?: DecisionContext;
+}
+
+/** Options for {@link MeshGuardClient.checkMany}. */
+export interface CheckManyOptions {
+  /** Maximum in-flight checks when falling back to individual calls. Default: 5. */
+  concurrency?: number;
 }
 
 /** A MeshGuard agent identity. */
@@ -46,6 +508,12 @@ export interface Agent {
   tags: string[];
   /** Organization ID. */
   orgId?: string;
+  /** Lifecycle status. */
+  status?: "active" | "suspended" | "revoked";
+  /** ISO timestamp the agent was created at. */
+  createdAt?: string;
+  /** ISO timestamp of the last update. */
+  updatedAt?: string;
 }
 
 /** Options for creating an agent. */
@@ -58,6 +526,54 @@ export interface CreateAgentOptions {
   tags?: string[];
 }
 
+/** A newly created agent, including its issued token. */
+export interface CreatedAgent extends Agent {
+  /** The agent's token. Only returned at creation — store it securely. */
+  token: string;
+}
+
+/** Changes to apply to an agent. Omitted fields are left unchanged. */
+export interface UpdateAgentOptions {
+  /** New display name. */
+  name?: string;
+  /** New trust tier. */
+  trustTier?: string;
+  /** Replacement tag list. */
+  tags?: string[];
+}
+
+/** Options for listing agents. */
+export interface ListAgentsOptions {
+  /** Only agents carrying this tag. */
+  tag?: string;
+  /** Only agents in this trust tier. */
+  trustTier?: string;
+  /** Only agents with this lifecycle status. */
+  status?: Agent["status"];
+  /** Page size. */
+  limit?: number;
+  /** Resume from a cursor returned by a previous page. */
+  cursor?: string;
+}
+
+/** One page of agents. */
+export interface AgentPage {
+  /** Agents in this page. */
+  agents: Agent[];
+  /** Cursor for the next page; absent on the last page. */
+  nextCursor?: string;
+}
+
+/** A freshly issued agent token. */
+export interface AgentToken {
+  /** The agent the token belongs to. */
+  agentId: string;
+  /** The new token. The previous one no longer works. */
+  token: string;
+  /** ISO timestamp the token expires at, if it does. */
+  expiresAt?: string;
+}
+
 /** An entry in the audit log. */
 export interface AuditEntry {
   /** Unique entry ID. */
@@ -78,10 +594,118 @@ export interface AuditEntry {
 
 /** Options for querying the audit log. */
 export interface AuditLogOptions {
-  /** Maximum number of entries to return. Default: 50. */
+  /**
+   * Maximum number of entries to return. Default: 50. For
+   * `iterateAuditLog()` and `exportAuditLog()` this caps the total across
+   * pages and defaults to no cap.
+   */
   limit?: number;
   /** Filter by decision ("allow" or "deny"). */
   decision?: string;
+  /** Only entries at or after this time. */
+  since?: Date | string;
+  /** Only entries before this time. */
+  until?: Date | string;
+  /** Filter by agent ID. */
+  agentId?: string;
+  /** Only actions starting with this prefix, e.g. `"write:"`. */
+  actionPrefix?: string;
+  /** Filter by the policy that decided. */
+  policy?: string;
+  /** Filter by trace ID. */
+  traceId?: string;
+  /** Resume from a cursor returned by a previous page. */
+  cursor?: string;
+  /** Entries per request when iterating. Default: 100. */
+  pageSize?: number;
+}
+
+/** One page of audit log entries. */
+export interface AuditLogPage {
+  /** Entries in this page. */
+  entries: AuditEntry[];
+  /** Cursor for the next page; absent on the last page. */
+  nextCursor?: string;
+}
+
+/** Options for {@link MeshGuardClient.exportAuditLog}. */
+export interface AuditExportOptions extends AuditLogOptions {
+  /** Output format. Default: "ndjson". */
+  format?: "ndjson" | "csv";
+  /** CSV columns. Default: id, timestamp, action, decision, agentId, policy, traceId. */
+  columns?: string[];
+}
+
+/** Options for {@link MeshGuardClient.simulatePolicy}. */
+export interface SimulatePolicyOptions {
+  /** Only replay entries at or after this time. */
+  since?: Date | string;
+  /** Only replay entries before this time. */
+  until?: Date | string;
+  /** Only replay entries for this agent. */
+  agentId?: string;
+  /** Maximum number of entries to replay. Default: no cap. */
+  limit?: number;
+  /**
+   * Replay these entries locally instead of asking the gateway — e.g.
+   * exported audit data read with `readAuditNdjson()`.
+   */
+  entries?: AsyncIterable<AuditEntry> | Iterable<AuditEntry>;
+  /** Effect when no rule matches during local simulation. Default: "deny". */
+  defaultEffect?: PolicyEffect;
+}
+
+/** An audit entry whose decision would change under the draft policy. */
+export interface PolicySimulationChange {
+  /** The replayed audit entry. */
+  entry: AuditEntry;
+  /** The recorded decision. */
+  before: PolicyEffect;
+  /** The decision under the draft. */
+  after: PolicyEffect;
+  /** Policy that produced the new decision. */
+  policy?: string;
+  /** Rule that produced the new decision. */
+  rule?: string;
+  /** Reason for the new decision. */
+  reason?: string;
+}
+
+/** Decision flips for one action or agent. */
+export interface PolicySimulationTally {
+  /** Entries replayed. */
+  evaluated: number;
+  /** Entries that were allowed and would now be denied. */
+  allowToDeny: number;
+  /** Entries that were denied and would now be allowed. */
+  denyToAllow: number;
+}
+
+/** What a draft policy would have changed over historical traffic. */
+export interface PolicySimulationReport {
+  /** Whether the gateway or the SDK ran the simulation. */
+  source: "gateway" | "local";
+  /** Name of the simulated policy. */
+  policy: string;
+  /** Entries replayed. */
+  evaluated: number;
+  /** Entries skipped because they had no allow/deny decision. */
+  skipped: number;
+  /** Entries that were allowed and would now be denied. */
+  allowToDeny: number;
+  /** Entries that were denied and would now be allowed. */
+  denyToAllow: number;
+  /** Every entry whose decision would flip. */
+  changes: PolicySimulationChange[];
+  /** Tallies keyed by action. */
+  byAction: Record<string, PolicySimulationTally>;
+  /** Tallies keyed by agent ID (`"unknown"` when the entry has none). */
+  byAgent: Record<string, PolicySimulationTally>;
+  /**
+   * Policies left out of a local simulation because they are not in the
+   * local rule format, by name (or ID).
+   */
+  excluded?: string[];
 }
 
 /** Gateway health status. */
@@ -90,9 +714,131 @@ export interface HealthStatus {
   [key: string]: unknown;
 }
 
-/** A policy definition. */
-export interface Policy {
-  id: string;
+// ---------------------------------------------------------------------------
+// Local policy evaluation
+// ---------------------------------------------------------------------------
+
+/** Effect of a policy rule. */
+export type PolicyEffect = "allow" | "deny";
+
+/** The agent a policy is evaluated for. */
+export interface PolicySubject {
+  /** Agent ID. */
+  agentId?: string;
+  /** Trust tier (e.g., "verified", "untrusted"). */
+  trustTier?: string;
+  /** Tags associated with the agent. */
+  tags?: string[];
+}
+
+/** Conditions on the {@link PolicySubject}. All given conditions must hold. */
+export interface PolicyConditions {
+  /** Trust tier must be one of these. */
+  trustTiers?: string[];
+  /** Agent must carry at least one of these tags. */
+  tags?: string[];
+  /** Agent must carry every one of these tags. */
+  allTags?: string[];
+  /** Agent ID must be one of these. */
+  agentIds?: string[];
+}
+
+/** A single allow or deny rule. */
+export interface PolicyRule {
+  /** Rule name, reported as `rule` in decisions. */
   name: string;
+  /** Whether matching requests are allowed or denied. */
+  effect: PolicyEffect;
+  /** Action patterns, e.g. `"read:*"`. */
+  actions: string[];
+  /** Resource globs (`*` stops at `/`, `**` does not). Omit to match any resource. */
+  resources?: string[];
+  /** Conditions on the requesting agent. */
+  conditions?: PolicyConditions;
+  /** Human-readable reason reported with the decision. */
+  reason?: string;
+}
+
+/** A named set of rules that can be evaluated locally. */
+export interface PolicyDefinition {
+  /** Policy name, reported as `policy` in decisions. */
+  name: string;
+  /** Description of the policy's intent. */
+  description?: string;
+  /** Restrict the whole policy to matching agents. */
+  appliesTo?: PolicyConditions;
+  /** Rules, evaluated with deny-overrides precedence. */
+  rules: PolicyRule[];
+}
+
+/** A policy stored on the gateway. */
+export interface Policy extends PolicyDefinition {
+  /** Unique policy identifier. */
+  id: string;
+  /** Current version number; incremented on every change. */
+  version?: number;
+  /** Whether the policy is enforced. */
+  enabled?: boolean;
+  /** ISO timestamp the policy was created at. */
+  createdAt?: string;
+  /** ISO timestamp of the last change. */
+  updatedAt?: string;
+  /** Additional gateway-specific fields. */
   [key: string]: unknown;
 }
+
+/** Options for writes that create a new policy version. */
+export interface PolicyWriteOptions {
+  /** Validate and return the resulting policy without saving it. */
+  dryRun?: boolean;
+  /** Change description recorded in the version history. */
+  comment?: string;
+}
+
+/** A problem found by policy validation. */
+export interface PolicyValidationIssue {
+  /** Location of the problem, e.g. `"rules[2].actions"`. */
+  path?: string;
+  /** What is wrong. */
+  message: string;
+}
+
+/** Result of server-side policy validation. */
+export interface PolicyValidationResult {
+  /** Whether the policy can be saved. */
+  valid: boolean;
+  /** Problems that prevent saving. */
+  errors: PolicyValidationIssue[];
+  /** Non-blocking findings, e.g. rules shadowed by other rules. */
+  warnings: PolicyValidationIssue[];
+}
+
+/** An entry in a policy's version history. */
+export interface PolicyVersion {
+  /** Version number. */
+  version: number;
+  /** ISO timestamp the version was created at. */
+  createdAt?: string;
+  /** Who made the change. */
+  author?: string;
+  /** Change description. */
+  comment?: string;
+  /** The policy as of this version. */
+  policy?: PolicyDefinition;
+}
+
+/** A distributable set of policies, optionally signed by the gateway. */
+export interface PolicyBundle {
+  /** Bundle format or content version. */
+  version: string;
+  /** Policies in the bundle. */
+  policies: PolicyDefinition[];
+  /** Effect when no rule matches. Default: "deny". */
+  defaultEffect?: PolicyEffect;
+  /** ISO timestamp the bundle was issued at. */
+  issuedAt?: string;
+  /** ISO timestamp after which the bundle must not be used. */
+  expiresAt?: string;
+  /** Base64 signature over the canonical JSON of every other field. */
+  signature?: string;
+}
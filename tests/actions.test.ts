@@ -0,0 +1,105 @@
+/**
+ * MeshGuard Action Catalog Tests
+ */
+
+import {
+  InvalidActionError,
+  MeshGuardClient,
+  defineActions,
+  governFn,
+  validateAction,
+} from "../src/index";
+import type { ActionOf } from "../src/index";
+import { GovernedToolkit } from "../src/langchain";
+import { MockMeshGuardGateway } from "../src/testing";
+
+const actions = defineActions(["read:contacts", "write:email", "write:crm:notes"]);
+
+describe("defineActions", () => {
+  it("builds a frozen catalog with a typed membership test", () => {
+    expect(actions.actions).toEqual(["read:contacts", "write:email", "write:crm:notes"]);
+    expect(Object.isFrozen(actions.actions)).toBe(true);
+    expect(actions.has("write:email")).toBe(true);
+    expect(actions.has("write:emails")).toBe(false);
+
+    const action: ActionOf<typeof actions> = "read:contacts";
+    expect(action).toBe("read:contacts");
+  });
+
+  it("rejects malformed actions", () => {
+    // @ts-expect-error — not verb:noun
+    expect(() => defineActions(["contacts"])).toThrow(InvalidActionError);
+    expect(() => defineActions(["read:"])).toThrow(/expected 'verb:noun'/);
+    expect(() => defineActions(["read: contacts"])).toThrow(InvalidActionError);
+  });
+});
+
+describe("validateAction", () => {
+  it("checks syntax and, with a catalog, membership", () => {
+    expect(() => validateAction("execute:tool")).not.toThrow();
+    expect(() => validateAction("execute:tool", actions)).toThrow(/Unknown action 'execute:tool'/);
+    const err = (() => {
+      try {
+        validateAction("read contacts");
+      } catch (e) {
+        return e as InvalidActionError;
+      }
+    })();
+    expect(err?.action).toBe("read contacts");
+  });
+});
+
+describe("typed MeshGuardClient", () => {
+  it("only accepts catalog actions at compile time", async () => {
+    const gateway = new MockMeshGuardGateway().allow("*");
+    const client = gateway.client({ actions });
+
+    await client.check("read:contacts");
+    await client.withContext({ sessionId: "s" }).enforce("write:email");
+    // @ts-expect-error — not in the catalog
+    await client.check("read:contact");
+    // @ts-expect-error — not in the catalog
+    await client.checkMany([{ action: "delete:contacts" }]);
+
+    // Untyped clients still take any string
+    await new MeshGuardClient({ fetch: gateway.fetch }).check("anything:goes");
+    expect(gateway.checks().map((c) => c.action)).toEqual([
+      "read:contacts",
+      "write:email",
+      "read:contact",
+      "delete:contacts",
+      "anything:goes",
+    ]);
+
+    new GovernedToolkit({
+      tools: [],
+      client,
+      actionMap: { search: "read:contacts" },
+      // @ts-expect-error — not in the catalog
+      defaultAction: "execute:tool",
+    });
+
+    governFn(client, "read:contacts", async () => "ok");
+    // @ts-expect-error — not in the catalog
+    governFn(client, "read:contact", async () => "ok");
+  });
+
+  it("validates actions at runtime when asked to", async () => {
+    const gateway = new MockMeshGuardGateway().allow("*");
+    const client = gateway.client({ actions, validateActions: true });
+
+    await expect(client.check("read:contacts")).resolves.toMatchObject({ allowed: true });
+    await expect(client.check("read:contact" as "read:contacts")).rejects.toThrow(InvalidActionError);
+    await expect(
+      client.checkMany([{ action: "read:contacts" }, { action: "bogus" as "read:contacts" }]),
+    ).rejects.toThrow(/Unknown action 'bogus'|Invalid action 'bogus'/);
+    await expect(client.get("/x", "nope" as "read:contacts")).rejects.toThrow(InvalidActionError);
+
+    const syntaxOnly = gateway.client({ validateActions: true });
+    await expect(syntaxOnly.enforce("Read Contacts")).rejects.toThrow(/expected 'verb:noun'/);
+    await expect(syntaxOnly.enforce("read:anything")).resolves.toMatchObject({ allowed: true });
+
+    // Nothing invalid reached the gateway
+    expect(gateway.checks().map((c) => c.action)).toEqual(["read:contacts", "read:anything"]);
+  });
+});
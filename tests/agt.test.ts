@@ -0,0 +1,235 @@
+/**
+ * MeshGuard AGT Integration Tests
+ */
+
+import {
+  MeshGuardPolicyBackend,
+  agtToBundle,
+  agtToPolicy,
+  parseAgtPolicy,
+  policyToAgt,
+  stringifyAgtPolicy,
+} from "../src/agt";
+import { LocalPolicyEvaluator, MeshGuardClient, PolicyBundleError } from "../src/index";
+import type { PolicyDefinition } from "../src/index";
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+const AGT_YAML = `
+version: "1.0"
+name: crm-guard
+description: CRM access
+rules:
+  - name: no-deletes
+    condition:
+      field: action
+      operator: matches
+      value: "^delete:.*$"
+    action: block
+    priority: 100
+    message: Deletes are not allowed
+  - name: crm-reads
+    condition:
+      field: tool_name
+      operator: in
+      value: [read:contacts, read:deals]
+    action: allow
+  - name: verified-only
+    condition:
+      field: trust_tier
+      operator: eq
+      value: verified
+    action: audit
+defaults:
+  action: deny
+`;
+
+// ---------------------------------------------------------------------------
+// Parsing & conversion
+// ---------------------------------------------------------------------------
+
+describe("AGT policy conversion", () => {
+  it("converts AGT YAML to a MeshGuard policy", async () => {
+    const policy = agtToPolicy(await parseAgtPolicy(AGT_YAML));
+
+    expect(policy).toEqual({
+      name: "crm-guard",
+      description: "CRM access",
+      rules: [
+        { name: "no-deletes", effect: "deny", actions: ["delete:*"], reason: "Deletes are not allowed" },
+        { name: "crm-reads", effect: "allow", actions: ["read:contacts", "read:deals"] },
+        { name: "verified-only", effect: "allow", actions: ["*"], conditions: { trustTiers: ["verified"] } },
+      ],
+    });
+
+    const local = new LocalPolicyEvaluator({ version: "1", policies: [policy] });
+    expect(local.evaluate("delete:contacts").allowed).toBe(false);
+    expect(local.evaluate("read:deals").allowed).toBe(true);
+  });
+
+  it("round-trips MeshGuard policies through AGT YAML", async () => {
+    const policy: PolicyDefinition = {
+      name: "support",
+      rules: [
+        { name: "no-exports", effect: "deny", actions: ["export:*", "dump:db?"], reason: "No bulk data" },
+        { name: "tickets", effect: "allow", actions: ["read:tickets"] },
+        { name: "kb", effect: "allow", actions: ["*"], resources: ["kb/**"] },
+        { name: "ops-agent", effect: "allow", actions: ["*"], conditions: { agentIds: ["a1", "a2"] } },
+      ],
+    };
+
+    const yaml = await stringifyAgtPolicy(policyToAgt(policy));
+    expect(agtToPolicy(await parseAgtPolicy(yaml))).toEqual(policy);
+  });
+
+  it("gives deny rules priority so AGT keeps deny-overrides", () => {
+    const doc = policyToAgt({
+      name: "p",
+      rules: [
+        { name: "all", effect: "allow", actions: ["*"] },
+        { name: "no-delete", effect: "deny", actions: ["delete:*"] },
+      ],
+    });
+    expect(doc.defaults).toEqual({ action: "deny" });
+    expect(doc.rules.map((r) => [r.name, r.priority])).toEqual([["all", 0], ["no-delete", 100]]);
+    expect(doc.rules[0].condition).toEqual({ field: "action", operator: "matches", value: "^.*$" });
+  });
+
+  it("rejects rules the other model cannot express", async () => {
+    expect(() =>
+      policyToAgt({
+        name: "p",
+        rules: [{ name: "r", effect: "allow", actions: ["read:*"], resources: ["crm/*"] }],
+      }),
+    ).toThrow(/single condition/);
+
+    const doc = await parseAgtPolicy(`
+name: p
+rules:
+  - name: big
+    condition: { field: amount, operator: gt, value: 100 }
+    action: deny
+`);
+    expect(() => agtToPolicy(doc)).toThrow(PolicyBundleError);
+  });
+
+  it("carries the AGT default into a bundle, not a bare policy", async () => {
+    const doc = await parseAgtPolicy(`
+name: open
+rules:
+  - name: no-deletes
+    condition: { field: action, operator: matches, value: "^delete:.*$" }
+    action: deny
+defaults:
+  action: allow
+`);
+    expect(() => agtToPolicy(doc)).toThrow(/defaults.action "allow".*agtToBundle/);
+    expect(() => agtToPolicy({ ...doc, defaults: undefined })).toThrow(/AGT allows by default/);
+
+    const bundle = agtToBundle(doc);
+    expect(bundle).toMatchObject({ version: "1.0", defaultEffect: "allow" });
+    const local = new LocalPolicyEvaluator(bundle);
+    expect(local.evaluate("read:x").allowed).toBe(true);
+    expect(local.evaluate("delete:x").allowed).toBe(false);
+  });
+
+  it("rejects allow rules that outrank a deny rule they may overlap", async () => {
+    const doc = await parseAgtPolicy(`
+name: p
+rules:
+  - name: admin-deletes
+    condition: { field: action, operator: eq, value: "delete:logs" }
+    action: allow
+    priority: 200
+  - name: reads
+    condition: { field: action, operator: matches, value: "^read:.*$" }
+    action: allow
+    priority: 200
+  - name: no-deletes
+    condition: { field: action, operator: matches, value: "^delete:.*$" }
+    action: deny
+    priority: 100
+defaults:
+  action: deny
+`);
+    expect(() => agtToPolicy(doc)).toThrow(/\(admin-deletes\): allow outranks deny rule "no-deletes"/);
+
+    // Without the overlapping rule, the disjoint allow is fine
+    const ok = agtToPolicy({ ...doc, rules: doc.rules.slice(1) });
+    expect(ok.rules.map((r) => r.name)).toEqual(["reads", "no-deletes"]);
+  });
+
+  it("reports every validation issue", async () => {
+    const err = await parseAgtPolicy(`
+name: ""
+rules:
+  - name: r
+    condition: { field: action, operator: like, value: x }
+    action: maybe
+`).catch((e) => e);
+
+    expect(err).toBeInstanceOf(PolicyBundleError);
+    expect(err.issues).toEqual([
+      "policy.name must be a non-empty string",
+      "policy.rules[0].action must be one of allow, deny, audit, block",
+      expect.stringContaining("policy.rules[0].condition.operator"),
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// MeshGuardPolicyBackend
+// ---------------------------------------------------------------------------
+
+describe("MeshGuardPolicyBackend", () => {
+  it("evaluates AGT contexts through check()", async () => {
+    const spy = jest.spyOn(globalThis, "fetch").mockResolvedValue(
+      new Response(JSON.stringify({ policy: "p", reason: "ok" }), { status: 200 }),
+    );
+    const backend = new MeshGuardPolicyBackend({
+      gatewayUrl: "https://gw.test",
+      agentToken: "tok",
+      tenantId: "acme",
+    });
+
+    const result = await backend.evaluate({
+      tool_name: "send_email",
+      resource: "mailbox/1",
+      agent_id: "a1",
+    });
+    expect(result).toMatchObject({
+      allowed: true,
+      action: "allow",
+      reason: "ok",
+      backend: "meshguard",
+    });
+    expect(typeof result.latencyMs).toBe("number");
+
+    const [, init] = spy.mock.calls[0] as [string, RequestInit];
+    const headers = init.headers as Record<string, string>;
+    expect(headers["X-MeshGuard-Action"]).toBe("send_email");
+    expect(headers["X-MeshGuard-Resource"]).toBe("mailbox/1");
+    expect(JSON.parse(init.body as string).context).toEqual({ agent_id: "a1", tenantId: "acme" });
+  });
+
+  it("reports denials and pending approvals as deny", async () => {
+    jest.spyOn(globalThis, "fetch")
+      .mockResolvedValueOnce(new Response(JSON.stringify({ reason: "nope" }), { status: 403 }))
+      .mockResolvedValueOnce(
+        new Response(JSON.stringify({ approvalId: "ap-1" }), { status: 202 }),
+      );
+    const backend = new MeshGuardPolicyBackend(new MeshGuardClient({ agentToken: "tok" }));
+
+    expect(await backend.evaluate({ action: "delete:db" })).toMatchObject({
+      allowed: false,
+      action: "deny",
+      reason: "nope",
+    });
+    expect(await backend.evaluate({ action: "wire:funds" })).toMatchObject({
+      allowed: false,
+      reason: "Approval required (ap-1)",
+    });
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * MeshGuard Vercel AI SDK Integration Tests
+ */
+
+import { BudgetExceededError, OutputBlockedError, PolicyDeniedError } from "../src/index";
+import { governTool, governTools } from "../src/ai-sdk";
+import { MockMeshGuardGateway } from "../src/testing";
+
+const executionOptions = { toolCallId: "call-1", messages: [] };
+
+function tools() {
+  return {
+    weather: {
+      description: "Current weather",
+      parameters: { type: "object" },
+      execute: jest.fn(async ({ city }: { city: string }) => ({ city, tempC: 21, station: "X-1" })),
+    },
+    sendEmail: {
+      description: "Send an email",
+      execute: jest.fn(async ({ to }: { to: string }, _opts: typeof executionOptions) => `sent to ${to}`),
+    },
+    // Client-side tool, no execute
+    askUser: { description: "Ask the user" },
+  };
+}
+
+describe("governTools", () => {
+  it("governs each tool's execute under its mapped action", async () => {
+    const gateway = new MockMeshGuardGateway().allow("read:weather", {
+      obligations: [{ type: "remove", fields: ["station"] }],
+    });
+    const raw = tools();
+    const governed = governTools(gateway.client(), raw, {
+      actionMap: { weather: "read:weather", sendEmail: "send:email" },
+      contextFrom: (args, name) => (name === "sendEmail" ? { recipient: (args as { to: string }).to } : undefined),
+    });
+
+    expect(governed.weather.description).toBe("Current weather");
+    expect(governed.weather.parameters).toBe(raw.weather.parameters);
+    expect(governed.askUser).toBe(raw.askUser);
+
+    await expect(governed.weather.execute({ city: "Oslo" })).resolves.toEqual({ city: "Oslo", tempC: 21 });
+    await expect(governed.sendEmail.execute({ to: "eve@x.test" }, executionOptions)).rejects.toThrow(
+      PolicyDeniedError,
+    );
+    expect(raw.sendEmail.execute).not.toHaveBeenCalled();
+    gateway.assertChecked("send:email", { context: { recipient: "eve@x.test" } });
+  });
+
+  it("passes execution options through and lets onDeny answer the model", async () => {
+    const gateway = new MockMeshGuardGateway().allow("send:email", {
+      when: (c) => c.resource === "internal",
+    });
+    const raw = tools();
+    const send = governTool(gateway.client(), "send:email", raw.sendEmail, {
+      resourceFrom: (args) => ((args as { to: string }).to.endsWith("@acme.test") ? "internal" : "external"),
+      onDeny: (err) => ({ error: err.reason }),
+    });
+
+    await expect(send.execute({ to: "bob@acme.test" }, executionOptions)).resolves.toBe("sent to bob@acme.test");
+    expect(raw.sendEmail.execute).toHaveBeenCalledWith({ to: "bob@acme.test" }, executionOptions);
+    await expect(send.execute({ to: "eve@x.test" }, executionOptions)).resolves.toEqual({
+      error: "No matching mock rule",
+    });
+  });
+
+  it("sends blocked outputs and exhausted budgets to onDeny", async () => {
+    const gateway = new MockMeshGuardGateway()
+      .allow("read:weather")
+      .allow("read:secrets", {
+        obligations: [{ type: "block", patterns: ["sk-[a-z]+"], reason: "Credentials" }],
+      });
+    const client = gateway.client({
+      budgets: [{ name: "weather", unit: "calls", limit: 1, actions: "read:weather" }],
+    });
+    const onDeny = jest.fn((err: Error) => ({ error: err.name }));
+    const governed = governTools(
+      client,
+      { weather: tools().weather, getKey: { execute: async () => "sk-abc" } },
+      { actionMap: { weather: "read:weather", getKey: "read:secrets" }, onDeny },
+    );
+
+    await expect(governed.getKey.execute()).resolves.toEqual({ error: "OutputBlockedError" });
+    await governed.weather.execute({ city: "Oslo" });
+    await expect(governed.weather.execute({ city: "Oslo" })).resolves.toEqual({
+      error: "BudgetExceededError",
+    });
+    expect(onDeny.mock.calls.map(([err]) => err.constructor)).toEqual([
+      OutputBlockedError,
+      BudgetExceededError,
+    ]);
+
+    // Without onDeny they still throw
+    const bare = governTool(client, "read:secrets", { execute: async () => "sk-abc" });
+    await expect(bare.execute()).rejects.toThrow(OutputBlockedError);
+  });
+});
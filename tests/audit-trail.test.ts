@@ -0,0 +1,247 @@
+/**
+ * MeshGuard Local Audit Trail Tests
+ */
+
+import { appendFileSync, mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { AuditTrail, PolicyDeniedError, verifyAuditLog } from "../src/index";
+import type { AuditEntry, AuditRecord, AuditSink } from "../src/index";
+import { MockMeshGuardGateway } from "../src/testing";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function tempPath(): string {
+  return join(mkdtempSync(join(tmpdir(), "meshguard-audit-")), "audit.ndjson");
+}
+
+function readLines(path: string): string[] {
+  return readFileSync(path, "utf8").trimEnd().split("\n");
+}
+
+function gateway(): MockMeshGuardGateway {
+  return new MockMeshGuardGateway()
+    .allow("read:*")
+    .deny("delete:*", { policy: "safety", reason: "No deletes" });
+}
+
+// ---------------------------------------------------------------------------
+// Recording
+// ---------------------------------------------------------------------------
+
+describe("auditTrail option", () => {
+  it("records decisions and governed outcomes as a hash chain", async () => {
+    const path = tempPath();
+    const client = gateway().client({ auditTrail: { path } });
+    const session = client.withContext({ sessionId: "s-1" });
+
+    await session.check("read:contacts", { resource: "c-1", context: { rows: 5 } });
+    await expect(session.govern("delete:contacts", () => "gone")).rejects.toThrow(
+      PolicyDeniedError,
+    );
+    await session.govern("read:contacts", () => ["a", "b"]);
+
+    const records = readLines(path).map((line) => JSON.parse(line) as AuditRecord);
+    expect(records.map((r) => [r.seq, r.type, r.data.action, r.data.decision])).toEqual([
+      [1, "decision", "read:contacts", "allow"],
+      [2, "decision", "delete:contacts", "deny"],
+      [3, "decision", "read:contacts", "allow"],
+      [4, "execution", "read:contacts", "allow"],
+    ]);
+    expect(records[0].data).toMatchObject({
+      resource: "c-1",
+      context: { rows: 5 },
+      sessionId: "s-1",
+      traceId: client.traceId,
+    });
+    expect(records[1].data).toMatchObject({ policy: "safety", reason: "No deletes" });
+    expect(records[3].data).toMatchObject({ outcome: "success", sessionId: "s-1" });
+    expect(records[0].prevHash).toBe("0".repeat(64));
+    expect(records[1].prevHash).toBe(records[0].hash);
+
+    await expect(verifyAuditLog(path)).resolves.toMatchObject({
+      valid: true,
+      records: 4,
+      lastHash: records[3].hash,
+      issues: [],
+    });
+  });
+
+  it("continues an existing file's chain", async () => {
+    const path = tempPath();
+    await gateway().client({ auditTrail: { path } }).check("read:a");
+    await gateway().client({ auditTrail: { path } }).check("read:b");
+
+    expect(readLines(path).map((line) => (JSON.parse(line) as AuditRecord).seq)).toEqual([1, 2]);
+    expect((await verifyAuditLog(path)).valid).toBe(true);
+  });
+
+  it("continues from the last valid record after a torn write", async () => {
+    const path = tempPath();
+    await gateway().client({ auditTrail: { path } }).check("read:a");
+    appendFileSync(path, '{"seq":2,"timest');
+    await gateway().client({ auditTrail: { path } }).check("read:b");
+
+    const records = readLines(path);
+    expect((JSON.parse(records[2]) as AuditRecord).seq).toBe(2);
+    const result = await verifyAuditLog(path);
+    expect(result.records).toBe(2);
+    expect(result.issues).toEqual([{ line: 2, type: "parse", message: "Not an audit record" }]);
+  });
+
+  it("records batch decisions in request order", async () => {
+    const records: AuditRecord[] = [];
+    const sink: AuditSink = { write: (record) => void records.push(record) };
+    const client = gateway().client({ auditTrail: { sink } });
+
+    await client.checkMany([{ action: "read:a" }, { action: "delete:b" }]);
+    expect(records.map((r) => r.data.action)).toEqual(["read:a", "delete:b"]);
+  });
+
+  it("fails a check it cannot record without breaking the chain", async () => {
+    const records: AuditRecord[] = [];
+    let fail = true;
+    const sink: AuditSink = {
+      write(record) {
+        if (fail) throw new Error("disk full");
+        records.push(record);
+      },
+    };
+    const client = gateway().client({ auditTrail: new AuditTrail({ sink }) });
+
+    await expect(client.check("read:a")).rejects.toThrow("disk full");
+    fail = false;
+    await client.check("read:a");
+    expect(records.map((r) => [r.seq, r.prevHash])).toEqual([[1, "0".repeat(64)]]);
+  });
+
+  it("requires a path or a sink", () => {
+    expect(() => new AuditTrail({})).toThrow(/needs a 'path' or a 'sink'/);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Verification
+// ---------------------------------------------------------------------------
+
+describe("verifyAuditLog()", () => {
+  async function signedTrail(count: number): Promise<string> {
+    const path = tempPath();
+    const trail = new AuditTrail({ path, hmacKey: "secret" });
+    for (let i = 1; i <= count; i++) {
+      await trail.append("decision", { action: `read:r${i}`, decision: "allow" });
+    }
+    return path;
+  }
+
+  function rewrite(path: string, edit: (lines: string[]) => string[]): void {
+    writeFileSync(path, `${edit(readLines(path)).join("\n")}\n`);
+  }
+
+  it("checks signatures", async () => {
+    const path = await signedTrail(2);
+    expect((await verifyAuditLog(path, { hmacKey: "secret" })).valid).toBe(true);
+
+    const result = await verifyAuditLog(path, { hmacKey: "wrong" });
+    expect(result.valid).toBe(false);
+    expect(result.issues.map((i) => i.type)).toEqual(["signature", "signature"]);
+  });
+
+  it("detects edited records", async () => {
+    const path = await signedTrail(3);
+    rewrite(path, (lines) => [lines[0], lines[1].replace("allow", "deny"), lines[2]]);
+
+    const { issues } = await verifyAuditLog(path, { hmacKey: "secret" });
+    expect(issues).toEqual([
+      { line: 2, seq: 2, type: "hash", message: "Record 2 was modified" },
+    ]);
+  });
+
+  it("detects removed and reordered records", async () => {
+    const path = await signedTrail(4);
+    rewrite(path, (lines) => [lines[0], lines[3], lines[2]]);
+
+    const { issues } = await verifyAuditLog(path);
+    expect(issues.map((i) => [i.line, i.type])).toEqual([
+      [2, "gap"],
+      [3, "order"],
+    ]);
+    expect(issues[0].message).toBe("Records 2 to 3 are missing");
+  });
+
+  it("detects records spliced in from another chain", async () => {
+    const path = await signedTrail(2);
+    const other = tempPath();
+    const trail = new AuditTrail({ path: other });
+    await trail.append("decision", { action: "write:x", decision: "allow" });
+    await trail.append("decision", { action: "read:r2", decision: "allow" });
+    rewrite(path, (lines) => [lines[0], readLines(other)[1]]);
+
+    const { issues } = await verifyAuditLog(path);
+    expect(issues.map((i) => i.type)).toEqual(["chain"]);
+  });
+
+  it("reports lines that are not records", async () => {
+    const path = await signedTrail(1);
+    rewrite(path, (lines) => [...lines, "{oops"]);
+
+    const result = await verifyAuditLog(path);
+    expect(result.issues).toEqual([{ line: 2, type: "parse", message: "Not an audit record" }]);
+    expect(result.records).toBe(1);
+  });
+
+  it("reconciles decisions with the gateway audit log", async () => {
+    const path = tempPath();
+    const client = gateway().client({
+      auditTrail: { path },
+      cache: true,
+    });
+    await client.check("read:a");
+    await client.check("read:a"); // cached: the gateway never sees it
+    await client.check("delete:b");
+
+    const entry = (action: string, decision: string, id: string): AuditEntry => ({
+      id,
+      timestamp: new Date().toISOString(),
+      action,
+      decision,
+      traceId: client.traceId,
+    });
+    async function* entries(): AsyncGenerator<AuditEntry> {
+      yield entry("read:a", "allow", "e1");
+      yield entry("write:c", "allow", "e2");
+    }
+
+    const result = await verifyAuditLog(path, { reconcile: entries() });
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual([]);
+    expect(result.reconciliation).toMatchObject({
+      matched: 1,
+      missingFromGateway: [{ seq: 3, data: { action: "delete:b" } }],
+      missingLocally: [{ id: "e2" }],
+    });
+  });
+
+  it("reconciles only inside the time window", async () => {
+    const path = tempPath();
+    const client = gateway().client({ auditTrail: { path } });
+    await client.check("read:a");
+    const since = new Date(Date.now() + 60_000);
+
+    const result = await verifyAuditLog(path, {
+      since,
+      reconcile: [
+        { id: "e1", timestamp: new Date(0).toISOString(), action: "write:c", decision: "allow" },
+      ],
+    });
+    expect(result.valid).toBe(true);
+    expect(result.reconciliation).toEqual({
+      matched: 0,
+      missingFromGateway: [],
+      missingLocally: [],
+    });
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * MeshGuard Audit Log Pagination & Export Tests
+ */
+
+import { PassThrough } from "node:stream";
+
+import { MeshGuardClient } from "../src/index";
+import type { AuditEntry } from "../src/index";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const entries: AuditEntry[] = Array.from({ length: 5 }, (_, i) => ({
+  id: `e${i}`,
+  timestamp: `2024-06-01T00:0${i}:00Z`,
+  action: i % 2 ? "write:crm" : "read:crm",
+  decision: i === 3 ? "deny" : "allow",
+  agentId: "agent-1",
+  policy: "default",
+  reason: i === 4 ? 'said "no", twice' : undefined,
+}));
+
+/** Serve `entries` two at a time, using the entry index as the cursor. */
+function mockAuditGateway(): jest.SpyInstance {
+  return jest.spyOn(globalThis, "fetch").mockImplementation(async (input) => {
+    const url = new URL(String(input));
+    const start = Number(url.searchParams.get("cursor") ?? 0);
+    const limit = Math.min(2, Number(url.searchParams.get("limit")));
+    const end = start + limit;
+    return new Response(
+      JSON.stringify({
+        entries: entries.slice(start, end),
+        nextCursor: end < entries.length ? String(end) : null,
+      }),
+      { status: 200 },
+    );
+  });
+}
+
+function collect(stream: PassThrough): () => string {
+  let out = "";
+  stream.on("data", (chunk) => (out += chunk));
+  return () => out;
+}
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+// ---------------------------------------------------------------------------
+// Pagination
+// ---------------------------------------------------------------------------
+
+describe("iterateAuditLog()", () => {
+  it("follows cursors across pages", async () => {
+    const spy = mockAuditGateway();
+    const client = new MeshGuardClient({ adminToken: "adm" });
+
+    const ids: string[] = [];
+    for await (const entry of client.iterateAuditLog()) ids.push(entry.id);
+
+    expect(ids).toEqual(["e0", "e1", "e2", "e3", "e4"]);
+    expect(spy).toHaveBeenCalledTimes(3);
+  });
+
+  it("stops at limit", async () => {
+    mockAuditGateway();
+    const client = new MeshGuardClient({ adminToken: "adm" });
+
+    const ids: string[] = [];
+    for await (const entry of client.iterateAuditLog({ limit: 3 })) ids.push(entry.id);
+    expect(ids).toEqual(["e0", "e1", "e2"]);
+  });
+
+  it("sends filters on every page", async () => {
+    const spy = mockAuditGateway();
+    const client = new MeshGuardClient({ adminToken: "adm" });
+
+    for await (const _ of client.iterateAuditLog({
+      since: new Date("2024-06-01T00:00:00Z"),
+      until: "2024-06-02T00:00:00Z",
+      agentId: "agent-1",
+      actionPrefix: "write:",
+      policy: "default",
+      traceId: "t-1",
+    })) {
+      // drain
+    }
+
+    for (const [url] of spy.mock.calls as Array<[string]>) {
+      const params = new URL(url).searchParams;
+      expect(params.get("since")).toBe("2024-06-01T00:00:00.000Z");
+      expect(params.get("until")).toBe("2024-06-02T00:00:00Z");
+      expect(params.get("agentId")).toBe("agent-1");
+      expect(params.get("actionPrefix")).toBe("write:");
+      expect(params.get("policy")).toBe("default");
+      expect(params.get("traceId")).toBe("t-1");
+    }
+  });
+
+  it("getAuditLogPage() returns the next cursor", async () => {
+    mockAuditGateway();
+    const client = new MeshGuardClient({ adminToken: "adm" });
+    const page = await client.getAuditLogPage({ limit: 2, cursor: "2" });
+
+    expect(page.entries.map((e) => e.id)).toEqual(["e2", "e3"]);
+    expect(page.nextCursor).toBe("4");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+describe("exportAuditLog()", () => {
+  it("writes NDJSON", async () => {
+    mockAuditGateway();
+    const client = new MeshGuardClient({ adminToken: "adm" });
+    const stream = new PassThrough();
+    const output = collect(stream);
+
+    const count = await client.exportAuditLog(stream);
+    const lines = output().trim().split("\n").map((l) => JSON.parse(l));
+    expect(count).toBe(5);
+    expect(lines.map((l) => l.id)).toEqual(["e0", "e1", "e2", "e3", "e4"]);
+  });
+
+  it("writes CSV with escaping", async () => {
+    mockAuditGateway();
+    const client = new MeshGuardClient({ adminToken: "adm" });
+    const stream = new PassThrough();
+    const output = collect(stream);
+
+    await client.exportAuditLog(stream, {
+      format: "csv",
+      columns: ["id", "decision", "reason"],
+      limit: 5,
+    });
+    const rows = output().split("\r\n");
+    expect(rows[0]).toBe("id,decision,reason");
+    expect(rows[4]).toBe("e3,deny,");
+    expect(rows[5]).toBe('e4,allow,"said ""no"", twice"');
+  });
+});
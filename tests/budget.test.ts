@@ -0,0 +1,159 @@
+/**
+ * MeshGuard Budget Tests
+ */
+
+import { BudgetExceededError, BudgetTracker } from "../src/index";
+import { MockMeshGuardGateway } from "../src/testing";
+
+describe("BudgetTracker", () => {
+  const ids = { agent: "agent-1", session: "s-1" };
+
+  it("charges all or nothing and refuses once a budget is used up", () => {
+    const tracker = new BudgetTracker([
+      { name: "spend", unit: "usd", limit: 1 },
+      { name: "emails", unit: "calls", limit: 2, actions: "send:*" },
+    ]);
+
+    tracker.charge("send:email", { calls: 1, usd: 0.4 }, ids);
+    tracker.charge("read:web", { calls: 1, usd: 0.4 }, ids);
+
+    const err = (() => {
+      try {
+        tracker.charge("send:email", { calls: 1, usd: 0.4 }, ids);
+      } catch (e) {
+        return e as BudgetExceededError;
+      }
+    })();
+    expect(err).toBeInstanceOf(BudgetExceededError);
+    expect(err).toMatchObject({ budget: "spend", unit: "usd", limit: 1, requested: 0.4 });
+    expect(err?.used).toBeCloseTo(0.8);
+
+    // Nothing was charged for the refused call
+    expect(tracker.usage().totals).toEqual({ calls: 2, usd: 0.8 });
+    tracker.charge("send:email", { calls: 1, usd: 0.1 }, ids);
+    expect(() => tracker.charge("send:sms", { calls: 1 }, ids)).toThrow(/Budget 'emails' exceeded/);
+
+    // Costs recorded after the fact can overshoot; then everything is refused
+    tracker.record("read:web", { usd: 5 }, ids);
+    expect(() => tracker.charge("read:web", { calls: 1 }, ids)).toThrow(/Budget 'spend' exceeded/);
+  });
+
+  it("keeps usage per scope and resets windows", () => {
+    jest.useFakeTimers({ now: new Date("2026-01-01T00:00:00Z") });
+    try {
+      const tracker = new BudgetTracker([
+        { name: "per-session", unit: "calls", limit: 1, scope: "session", window: 60_000 },
+      ]);
+
+      tracker.charge("read:a", { calls: 1 }, { agent: "a", session: "s-1" });
+      tracker.charge("read:a", { calls: 1 }, { agent: "a", session: "s-2" });
+      expect(() => tracker.charge("read:a", { calls: 1 }, { agent: "a", session: "s-1" })).toThrow(
+        BudgetExceededError,
+      );
+      expect(tracker.usage().budgets).toEqual([
+        expect.objectContaining({ scope: "session", scopeId: "s-1", used: 1, remaining: 0, resetsAt: "2026-01-01T00:01:00.000Z" }),
+        expect.objectContaining({ scopeId: "s-2", used: 1 }),
+      ]);
+
+      jest.advanceTimersByTime(60_000);
+      tracker.charge("read:a", { calls: 1 }, { agent: "a", session: "s-1" });
+      expect(tracker.usage().byAction).toEqual({ "read:a": { calls: 3 } });
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it("bounds the number of tracked scopes", () => {
+    jest.useFakeTimers({ now: new Date("2026-01-01T00:00:00Z") });
+    try {
+      const tracker = new BudgetTracker(
+        [
+          { name: "per-run", unit: "calls", limit: 5, scope: "run", window: 60_000 },
+          { name: "per-session", unit: "calls", limit: 5, scope: "session" },
+        ],
+        4,
+      );
+      const scopes = () => tracker.usage().budgets.map((b) => `${b.budget}/${b.scopeId}`);
+
+      tracker.charge("read:a", { calls: 1 }, { agent: "a", session: "s-1", run: "r-1" });
+      tracker.charge("read:a", { calls: 1 }, { agent: "a", session: "s-2", run: "r-2" });
+      jest.advanceTimersByTime(60_000);
+
+      // Full: runs whose window elapsed go first
+      tracker.charge("read:a", { calls: 1 }, { agent: "a", session: "s-2", run: "r-3" });
+      expect(scopes()).toEqual(["per-session/s-1", "per-session/s-2", "per-run/r-3"]);
+
+      // Then the least recently used
+      jest.advanceTimersByTime(1_000);
+      tracker.charge("read:a", { calls: 1 }, { agent: "a", session: "s-3", run: "r-4" });
+      expect(scopes()).toEqual([
+        "per-session/s-2",
+        "per-run/r-3",
+        "per-run/r-4",
+        "per-session/s-3",
+      ]);
+      expect(tracker.usage().totals).toEqual({ calls: 4 });
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe("govern() budgets", () => {
+  it("throws BudgetExceededError before running the function", async () => {
+    const gateway = new MockMeshGuardGateway().allow("*");
+    const client = gateway.client({
+      budgets: [{ name: "loop-guard", unit: "calls", limit: 3, actions: "invoke:llm" }],
+      auditOutcomes: true,
+    });
+    const fn = jest.fn(() => "ok");
+
+    for (let i = 0; i < 3; i++) await client.govern("invoke:llm", fn);
+    await expect(client.govern("invoke:llm", fn)).rejects.toThrow(BudgetExceededError);
+    expect(fn).toHaveBeenCalledTimes(3);
+    gateway.assertEvent({ action: "invoke:llm", outcome: "blocked" });
+
+    expect(client.getUsage()).toMatchObject({
+      totals: { calls: 3 },
+      budgets: [{ budget: "loop-guard", used: 3, remaining: 0, scope: "agent" }],
+    });
+  });
+
+  it("charges declared costs and records costs computed from the result", async () => {
+    const gateway = new MockMeshGuardGateway().allow("*");
+    const client = gateway.client({
+      budgets: [
+        { name: "spend", unit: "usd", limit: 0.05 },
+        { name: "tokens", unit: "tokens", limit: 1_000, scope: "session" },
+      ],
+    });
+    const session = client.withContext({ sessionId: "s-1" });
+
+    await session.govern("invoke:llm", () => ({ usage: { totalTokens: 1_200 } }), {
+      cost: (res) => ({ tokens: res.usage.totalTokens, usd: 0.01 }),
+    });
+    // Over the token budget now: refused, but other sessions are unaffected
+    await expect(session.govern("invoke:llm", () => "x")).rejects.toThrow(/Budget 'tokens'/);
+    await client.withContext({ sessionId: "s-2" }).govern("send:sms", () => "sent", {
+      cost: { usd: 0.04 },
+    });
+    await expect(client.govern("send:sms", () => "sent", { cost: { usd: 0.04 } })).rejects.toThrow(
+      /Budget 'spend' exceeded by 'send:sms': 0.05 \+ 0.04 > 0.05 usd/,
+    );
+
+    // Usage is shared between a client and its children
+    expect(client.getUsage().totals).toEqual({ calls: 2, tokens: 1_200, usd: 0.05 });
+  });
+
+  it("loads budgets from the gateway", async () => {
+    const gateway = new MockMeshGuardGateway()
+      .allow("*")
+      .budgets([{ name: "calls", unit: "calls", limit: 1 }]);
+    const client = gateway.client({ budgets: [{ name: "calls", unit: "calls", limit: 100 }] });
+
+    await expect(client.loadBudgets()).resolves.toEqual([{ name: "calls", unit: "calls", limit: 1 }]);
+    expect(client.budget.budgets).toEqual([{ name: "calls", unit: "calls", limit: 1 }]);
+    await client.govern("read:a", () => 1);
+    await expect(client.govern("read:a", () => 1)).rejects.toThrow(BudgetExceededError);
+  });
+});
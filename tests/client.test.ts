@@ -6,9 +6,16 @@ import {
   MeshGuardClient,
   MeshGuardError,
   AuthenticationError,
+  PolicyValidationError,
   PolicyDeniedError,
   RateLimitError,
+  DecisionCache,
+  GatewayUnavailableError,
+  ApprovalRequiredError,
+  ApprovalRejectedError,
+  ApprovalTimeoutError,
 } from "../src/index";
+import type { DecisionContext } from "../src/index";
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -17,15 +24,38 @@ import {
 function mockFetch(
   status: number,
   body: Record<string, unknown> = {},
+  headers: Record<string, string> = {},
 ): jest.SpyInstance {
-  return jest.spyOn(globalThis, "fetch").mockResolvedValue(
-    new Response(JSON.stringify(body), {
-      status,
-      headers: { "Content-Type": "application/json" },
-    }),
+  // A fresh Response per call — bodies can only be read once
+  return jest.spyOn(globalThis, "fetch").mockImplementation(
+    async () =>
+      new Response(JSON.stringify(body), {
+        status,
+        headers: { "Content-Type": "application/json", ...headers },
+      }),
   );
 }
 
+function mockFetchSequence(
+  ...responses: Array<[number, Record<string, unknown>?, Record<string, string>?] | Error>
+): jest.SpyInstance {
+  const spy = jest.spyOn(globalThis, "fetch");
+  for (const r of responses) {
+    if (r instanceof Error) {
+      spy.mockRejectedValueOnce(r);
+    } else {
+      const [status, body = {}, headers = {}] = r;
+      spy.mockResolvedValueOnce(
+        new Response(JSON.stringify(body), {
+          status,
+          headers: { "Content-Type": "application/json", ...headers },
+        }),
+      );
+    }
+  }
+  return spy;
+}
+
 afterEach(() => {
   jest.restoreAllMocks();
 });
@@ -112,6 +142,466 @@ describe("check()", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Decision context
+// ---------------------------------------------------------------------------
+
+describe("decision context", () => {
+  const context = { amount: 420, recipient: { domain: "example.com" } };
+
+  it("sends context as a JSON body by default", async () => {
+    const spy = mockFetch(200, {
+      policy: "payments",
+      conditions: { maxAmount: 500 },
+      obligations: [{ type: "redact", fields: ["card.number"] }],
+    });
+    const client = new MeshGuardClient({ agentToken: "tok" });
+    const decision = await client.check("write:payment", {
+      resource: "invoice-7",
+      context,
+    });
+
+    const [, init] = spy.mock.calls[0] as [string, RequestInit];
+    expect(init.method).toBe("POST");
+    expect(JSON.parse(init.body as string)).toEqual({
+      action: "write:payment",
+      resource: "invoice-7",
+      context,
+    });
+    expect(decision.conditions).toEqual({ maxAmount: 500 });
+    expect(decision.obligations).toEqual([{ type: "redact", fields: ["card.number"] }]);
+  });
+
+  it("can send context as an encoded header", async () => {
+    const spy = mockFetch(200, {});
+    const client = new MeshGuardClient({ agentToken: "tok", contextTransport: "header" });
+    await client.enforce("write:payment", { context });
+
+    const [, init] = spy.mock.calls[0] as [string, RequestInit];
+    const headers = init.headers as Record<string, string>;
+    expect(init.method).toBe("GET");
+    expect(JSON.parse(Buffer.from(headers["X-MeshGuard-Context"], "base64url").toString()))
+      .toEqual(context);
+  });
+
+  it("govern() accepts the options form", async () => {
+    const spy = mockFetch(403, { message: "Too much" });
+    const client = new MeshGuardClient({ agentToken: "tok" });
+    const fn = jest.fn();
+
+    await expect(
+      client.govern("write:payment", fn, { context: { amount: 9_000 } }),
+    ).rejects.toThrow(PolicyDeniedError);
+    expect(fn).not.toHaveBeenCalled();
+    expect(spy).toHaveBeenCalledTimes(1);
+  });
+
+  it("caches per context", async () => {
+    const spy = mockFetch(200, {});
+    const client = new MeshGuardClient({ agentToken: "tok", cache: true });
+
+    await client.check("write:payment", { context: { amount: 1, currency: "USD" } });
+    await client.check("write:payment", { context: { currency: "USD", amount: 1 } });
+    await client.check("write:payment", { context: { amount: 2, currency: "USD" } });
+    expect(spy).toHaveBeenCalledTimes(2);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Decision cache
+// ---------------------------------------------------------------------------
+
+describe("decision cache", () => {
+  it("is disabled by default", async () => {
+    const spy = mockFetch(200, {});
+    const client = new MeshGuardClient({ agentToken: "tok" });
+    await client.check("read:contacts");
+    const decision = await client.check("read:contacts");
+
+    expect(spy).toHaveBeenCalledTimes(2);
+    expect(client.cache).toBeUndefined();
+    expect(decision.cached).toBe(false);
+  });
+
+  it("serves repeated checks from the cache", async () => {
+    const spy = mockFetch(200, { policy: "default" });
+    const client = new MeshGuardClient({ agentToken: "tok", cache: true });
+
+    const first = await client.check("read:contacts");
+    const second = await client.check("read:contacts");
+    await client.check("read:contacts", "contact-1");
+
+    expect(spy).toHaveBeenCalledTimes(2);
+    expect(first.cached).toBe(false);
+    expect(second.cached).toBe(true);
+    expect(second.policy).toBe("default");
+  });
+
+  it("uses a separate TTL for deny decisions", async () => {
+    const spy = mockFetch(403, { message: "Denied" });
+    const client = new MeshGuardClient({
+      agentToken: "tok",
+      cache: { ttl: 60_000, denyTtl: 0 },
+    });
+
+    await client.check("write:secrets");
+    await client.check("write:secrets");
+    expect(spy).toHaveBeenCalledTimes(2);
+  });
+
+  it("honors Cache-Control hints from the gateway", async () => {
+    const spy = mockFetch(200, {}, { "Cache-Control": "no-store" });
+    const client = new MeshGuardClient({ agentToken: "tok", cache: true });
+
+    await client.check("read:contacts");
+    await client.check("read:contacts");
+    expect(spy).toHaveBeenCalledTimes(2);
+  });
+
+  it("expires entries after the TTL", async () => {
+    const spy = mockFetch(200, {}, { "X-MeshGuard-Cache-TTL": "1" });
+    const client = new MeshGuardClient({ agentToken: "tok", cache: true });
+    const now = jest.spyOn(Date, "now").mockReturnValue(1_000_000);
+
+    await client.check("read:contacts");
+    now.mockReturnValue(1_000_500);
+    expect((await client.check("read:contacts")).cached).toBe(true);
+    now.mockReturnValue(1_001_000);
+    expect((await client.check("read:contacts")).cached).toBe(false);
+    expect(spy).toHaveBeenCalledTimes(2);
+  });
+
+  it("evicts the least recently used entry when full", async () => {
+    const spy = mockFetch(200, {});
+    const client = new MeshGuardClient({
+      agentToken: "tok",
+      cache: { maxSize: 2 },
+    });
+
+    await client.check("read:a");
+    await client.check("read:b");
+    await client.check("read:a");
+    await client.check("read:c"); // evicts read:b
+    expect(client.cache?.size).toBe(2);
+
+    await client.check("read:b");
+    expect(spy).toHaveBeenCalledTimes(4);
+  });
+
+  it("invalidate() and clear() drop entries", async () => {
+    const spy = mockFetch(200, {});
+    const client = new MeshGuardClient({ agentToken: "tok", cache: true });
+
+    await client.check("read:contacts", "c-1");
+    await client.check("read:contacts", "c-2");
+    await client.check("read:files");
+
+    expect(client.cache?.invalidate("read:contacts", "c-1")).toBe(1);
+    expect(client.cache?.invalidate("read:contacts")).toBe(1);
+    client.cache?.clear();
+    expect(client.cache?.size).toBe(0);
+
+    await client.check("read:files");
+    expect(spy).toHaveBeenCalledTimes(4);
+  });
+
+  it("keys entries on agent identity", () => {
+    const cache = new DecisionCache();
+    const decision = { allowed: true, action: "read:contacts", decision: "allow" as const };
+    cache.set({ identity: "agent-a", action: "read:contacts" }, decision);
+
+    expect(cache.get({ identity: "agent-a", action: "read:contacts" })).toEqual(decision);
+    expect(cache.get({ identity: "agent-b", action: "read:contacts" })).toBeUndefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Retry
+// ---------------------------------------------------------------------------
+
+describe("retry", () => {
+  const retry = { maxAttempts: 3, baseDelay: 1, maxDelay: 50 };
+
+  it("does not retry by default", async () => {
+    const spy = mockFetchSequence([503], [200]);
+    const client = new MeshGuardClient({ agentToken: "tok" });
+    await expect(client.check("read:data")).rejects.toThrow(MeshGuardError);
+    expect(spy).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries transient failures and network errors", async () => {
+    const spy = mockFetchSequence(
+      new TypeError("fetch failed"),
+      [503],
+      [200, { policy: "default" }],
+    );
+    const client = new MeshGuardClient({ agentToken: "tok", retry });
+    const decision = await client.check("read:data");
+
+    expect(decision.allowed).toBe(true);
+    expect(spy).toHaveBeenCalledTimes(3);
+  });
+
+  it("gives up after maxAttempts", async () => {
+    const spy = mockFetchSequence([502], [502], [502], [200]);
+    const client = new MeshGuardClient({ agentToken: "tok", retry });
+    await expect(client.check("read:data")).rejects.toThrow(MeshGuardError);
+    expect(spy).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not retry status codes outside retryOn", async () => {
+    const spy = mockFetchSequence([500], [200]);
+    const client = new MeshGuardClient({ agentToken: "tok", retry });
+    await expect(client.check("read:data")).rejects.toThrow(MeshGuardError);
+    expect(spy).toHaveBeenCalledTimes(1);
+  });
+
+  it("waits for Retry-After on 429", async () => {
+    const spy = mockFetchSequence([429, {}, { "Retry-After": "0" }], [200]);
+    const client = new MeshGuardClient({ agentToken: "tok", retry });
+    expect((await client.check("read:data")).allowed).toBe(true);
+    expect(spy).toHaveBeenCalledTimes(2);
+  });
+
+  it("surfaces RateLimitError when Retry-After exceeds maxDelay", async () => {
+    const spy = mockFetchSequence([
+      429,
+      {},
+      { "Retry-After": "120", "X-RateLimit-Limit": "100", "X-RateLimit-Remaining": "0" },
+    ]);
+    const client = new MeshGuardClient({ agentToken: "tok", retry });
+    const err = await client.check("read:data").catch((e) => e);
+
+    expect(spy).toHaveBeenCalledTimes(1);
+    expect(err).toBeInstanceOf(RateLimitError);
+    expect(err.retryAfterMs).toBe(120_000);
+    expect(err.limit).toBe(100);
+    expect(err.remaining).toBe(0);
+  });
+
+  it("stops waiting between attempts when the caller aborts", async () => {
+    const spy = mockFetchSequence([429, {}, { "Retry-After": "30" }], [200]);
+    const client = new MeshGuardClient({
+      agentToken: "tok",
+      retry: { ...retry, maxDelay: 60_000 },
+    });
+    const controller = new AbortController();
+    const reason = new Error("caller gave up");
+    setTimeout(() => controller.abort(reason), 10);
+
+    const started = Date.now();
+    await expect(
+      client.get("/api/users", "read:users", { signal: controller.signal }),
+    ).rejects.toBe(reason);
+    expect(Date.now() - started).toBeLessThan(5_000);
+    expect(spy).toHaveBeenCalledTimes(1);
+  });
+
+  it("only retries non-idempotent proxy methods when allowed", async () => {
+    const spy = mockFetchSequence([503], [200]);
+    const client = new MeshGuardClient({ agentToken: "tok", retry });
+    await expect(
+      client.post("/api/users", "write:users", { body: "{}" }),
+    ).rejects.toThrow(MeshGuardError);
+    expect(spy).toHaveBeenCalledTimes(1);
+
+    spy.mockReset();
+    mockFetchSequence([503], [200]);
+    const eager = new MeshGuardClient({
+      agentToken: "tok",
+      retry: { ...retry, retryNonIdempotent: true },
+    });
+    const response = await eager.post("/api/users", "write:users", { body: "{}" });
+    expect(response.status).toBe(200);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Failure modes
+// ---------------------------------------------------------------------------
+
+describe("failure modes", () => {
+  function unreachable(): void {
+    jest.spyOn(globalThis, "fetch").mockRejectedValue(new TypeError("fetch failed"));
+  }
+
+  it("throws GatewayUnavailableError by default", async () => {
+    unreachable();
+    const client = new MeshGuardClient({ agentToken: "tok" });
+    await expect(client.check("read:data")).rejects.toThrow(GatewayUnavailableError);
+  });
+
+  it("failClosed denies and marks the decision degraded", async () => {
+    mockFetch(503, {});
+    const client = new MeshGuardClient({ agentToken: "tok", failureMode: "failClosed" });
+    const decision = await client.check("read:data");
+
+    expect(decision.allowed).toBe(false);
+    expect(decision.degraded).toBe(true);
+    expect(decision.error).toBeInstanceOf(GatewayUnavailableError);
+    await expect(client.enforce("read:data")).rejects.toThrow(PolicyDeniedError);
+  });
+
+  it("failOpen allows and marks the decision degraded", async () => {
+    unreachable();
+    const client = new MeshGuardClient({ agentToken: "tok", failureMode: "failOpen" });
+    const decision = await client.check("read:data");
+
+    expect(decision.allowed).toBe(true);
+    expect(decision.degraded).toBe(true);
+  });
+
+  it("applies per-action overrides by pattern", async () => {
+    unreachable();
+    const client = new MeshGuardClient({
+      agentToken: "tok",
+      failureMode: "failClosed",
+      failureModes: { "read:*": "failOpen", "read:secrets": "failClosed" },
+    });
+
+    expect((await client.check("read:docs")).allowed).toBe(true);
+    expect((await client.check("read:secrets")).allowed).toBe(false);
+    expect((await client.check("write:docs")).allowed).toBe(false);
+  });
+
+  it("fallback evaluates the local policy", async () => {
+    unreachable();
+    const client = new MeshGuardClient({
+      agentToken: "tok",
+      failureMode: "fallback",
+      fallback: (action) =>
+        action.startsWith("read:")
+          ? true
+          : { allowed: false, action, decision: "deny", policy: "offline" },
+    });
+
+    const read = await client.check("read:docs");
+    const write = await client.check("write:docs");
+    expect(read.allowed).toBe(true);
+    expect(read.degraded).toBe(true);
+    expect(write.allowed).toBe(false);
+    expect(write.policy).toBe("offline");
+    expect(write.degraded).toBe(true);
+  });
+
+  it("passes the decision context to the fallback policy", async () => {
+    unreachable();
+    const fallback = jest.fn((_action: string, _resource?: string, context?: DecisionContext) =>
+      Number(context?.amount) <= 100,
+    );
+    const client = new MeshGuardClient({ agentToken: "tok", failureMode: "fallback", fallback });
+
+    const small = await client.check("write:payment", { resource: "inv-1", context: { amount: 50 } });
+    const large = await client.check("write:payment", { context: { amount: 500 } });
+    expect(small.allowed).toBe(true);
+    expect(large.allowed).toBe(false);
+    expect(fallback).toHaveBeenCalledWith("write:payment", "inv-1", { amount: 50 });
+  });
+
+  it("does not cache degraded decisions", async () => {
+    const spy = mockFetchSequence([503], [200]);
+    const client = new MeshGuardClient({
+      agentToken: "tok",
+      cache: true,
+      failureMode: "failClosed",
+    });
+
+    expect((await client.check("read:data")).degraded).toBe(true);
+    const decision = await client.check("read:data");
+    expect(decision.allowed).toBe(true);
+    expect(decision.degraded).toBeUndefined();
+    expect(spy).toHaveBeenCalledTimes(2);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// checkMany()
+// ---------------------------------------------------------------------------
+
+describe("checkMany()", () => {
+  it("uses the batch endpoint and keeps request order", async () => {
+    const spy = mockFetch(200, {
+      decisions: [
+        { allowed: true, policy: "default" },
+        { allowed: false, policy: "strict", rule: "no-email", reason: "Nope" },
+        { error: "unknown action" },
+      ],
+    });
+    const client = new MeshGuardClient({ agentToken: "tok" });
+    const decisions = await client.checkMany([
+      { action: "read:docs" },
+      { action: "write:email", resource: "external" },
+      { action: "bogus:thing" },
+    ]);
+
+    expect(spy).toHaveBeenCalledTimes(1);
+    const [url, init] = spy.mock.calls[0] as [string, RequestInit];
+    expect(url).toContain("/proxy/check/batch");
+    expect(JSON.parse(init.body as string).checks[1]).toEqual({
+      action: "write:email",
+      resource: "external",
+    });
+
+    expect(decisions.map((d) => d.action)).toEqual(["read:docs", "write:email", "bogus:thing"]);
+    expect(decisions[0].allowed).toBe(true);
+    expect(decisions[1].rule).toBe("no-email");
+    expect(decisions[2].allowed).toBe(false);
+    expect(decisions[2].error?.message).toBe("unknown action");
+  });
+
+  it("falls back to individual checks when batching is unsupported", async () => {
+    const spy = jest.spyOn(globalThis, "fetch").mockImplementation(async (input, init) => {
+      if (String(input).endsWith("/batch")) return new Response("", { status: 404 });
+      const action = (init?.headers as Record<string, string>)["X-MeshGuard-Action"];
+      if (action === "write:email") {
+        return new Response(JSON.stringify({ message: "Denied" }), { status: 403 });
+      }
+      if (action === "read:flaky") return new Response("", { status: 400 });
+      return new Response("{}", { status: 200 });
+    });
+    const client = new MeshGuardClient({ agentToken: "tok" });
+
+    const decisions = await client.checkMany(
+      [{ action: "read:docs" }, { action: "write:email" }, { action: "read:flaky" }],
+      { concurrency: 2 },
+    );
+    expect(decisions.map((d) => d.allowed)).toEqual([true, false, false]);
+    expect(decisions[1].reason).toBe("Denied");
+    expect(decisions[2].error).toBeInstanceOf(MeshGuardError);
+    expect(spy).toHaveBeenCalledTimes(4);
+
+    // The missing endpoint is remembered
+    await client.checkMany([{ action: "read:docs" }]);
+    expect(spy).toHaveBeenCalledTimes(5);
+  });
+
+  it("answers cached items locally", async () => {
+    const spy = mockFetch(200, {});
+    const client = new MeshGuardClient({ agentToken: "tok", cache: true });
+    await client.check("read:docs");
+    spy.mockClear();
+
+    mockFetch(200, { decisions: [{ allowed: true }] });
+    const decisions = await client.checkMany([{ action: "read:docs" }, { action: "read:files" }]);
+    expect(decisions[0].cached).toBe(true);
+    expect(decisions[1].cached).toBe(false);
+  });
+
+  it("applies failure modes when the gateway is down", async () => {
+    jest.spyOn(globalThis, "fetch").mockRejectedValue(new TypeError("fetch failed"));
+    const client = new MeshGuardClient({
+      agentToken: "tok",
+      failureModes: { "read:*": "failOpen" },
+    });
+
+    const [read, write] = await client.checkMany([{ action: "read:docs" }, { action: "write:docs" }]);
+    expect(read.allowed).toBe(true);
+    expect(read.degraded).toBe(true);
+    expect(write.allowed).toBe(false);
+    expect(write.error).toBeInstanceOf(GatewayUnavailableError);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // enforce()
 // ---------------------------------------------------------------------------
@@ -167,6 +657,96 @@ describe("govern()", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Approvals
+// ---------------------------------------------------------------------------
+
+describe("approvals", () => {
+  const pending = { decision: "require_approval", approvalId: "apr-1", policy: "payments" };
+
+  function mockApprovalGateway(...statuses: Array<Record<string, unknown>>): jest.SpyInstance {
+    return jest.spyOn(globalThis, "fetch").mockImplementation(async (input) => {
+      if (String(input).includes("/approvals/")) {
+        const next = statuses.length > 1 ? statuses.shift() : statuses[0];
+        return new Response(JSON.stringify(next), { status: 200 });
+      }
+      return new Response(JSON.stringify(pending), { status: 202 });
+    });
+  }
+
+  it("check() reports require_approval decisions", async () => {
+    mockFetch(202, pending);
+    const client = new MeshGuardClient({ agentToken: "tok", cache: true });
+    const decision = await client.check("write:payment");
+
+    expect(decision.allowed).toBe(false);
+    expect(decision.decision).toBe("require_approval");
+    expect(decision.approvalId).toBe("apr-1");
+    expect(client.cache?.size).toBe(0);
+  });
+
+  it("enforce() throws ApprovalRequiredError without waiting", async () => {
+    mockFetch(200, pending);
+    const client = new MeshGuardClient({ agentToken: "tok" });
+    const err = await client.enforce("write:payment").catch((e) => e);
+
+    expect(err).toBeInstanceOf(ApprovalRequiredError);
+    expect(err).toBeInstanceOf(PolicyDeniedError);
+    expect(err.approvalId).toBe("apr-1");
+  });
+
+  it("govern() waits for approval, then runs", async () => {
+    const spy = mockApprovalGateway(
+      { id: "apr-1", status: "pending" },
+      { id: "apr-1", status: "approved", approver: "alice" },
+    );
+    const client = new MeshGuardClient({ agentToken: "tok" });
+
+    const result = await client.govern("write:payment", () => "paid", {
+      waitForApproval: { pollInterval: 1, longPoll: true },
+    });
+    expect(result).toBe("paid");
+    const approvalUrls = spy.mock.calls
+      .map(([url]) => String(url))
+      .filter((url) => url.includes("/approvals/apr-1"));
+    expect(approvalUrls).toHaveLength(2);
+    expect(approvalUrls[0]).toContain("wait=");
+  });
+
+  it("rejections throw ApprovalRejectedError", async () => {
+    mockApprovalGateway({ id: "apr-1", status: "rejected", approver: "bob", reason: "Too large" });
+    const client = new MeshGuardClient({ agentToken: "tok" });
+    const fn = jest.fn();
+
+    const err = await client
+      .govern("write:payment", fn, { waitForApproval: true })
+      .catch((e) => e);
+    expect(err).toBeInstanceOf(ApprovalRejectedError);
+    expect(err.approver).toBe("bob");
+    expect(err.reason).toBe("Too large");
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it("waitForApproval() times out", async () => {
+    mockApprovalGateway({ id: "apr-1", status: "pending" });
+    const client = new MeshGuardClient({ agentToken: "tok" });
+    await expect(
+      client.waitForApproval("apr-1", { timeout: 20, pollInterval: 5 }),
+    ).rejects.toThrow(ApprovalTimeoutError);
+  });
+
+  it("waitForApproval() honors abort signals", async () => {
+    mockApprovalGateway({ id: "apr-1", status: "pending" });
+    const client = new MeshGuardClient({ agentToken: "tok" });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(new Error("cancelled")), 10);
+
+    await expect(
+      client.waitForApproval("apr-1", { pollInterval: 1_000, signal: controller.signal }),
+    ).rejects.toThrow("cancelled");
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Admin operations
 // ---------------------------------------------------------------------------
@@ -206,6 +786,135 @@ describe("admin operations", () => {
     expect(url).toContain("decision=deny");
   });
 
+  it("listAgents() sends filters", async () => {
+    const spy = mockFetch(200, { agents: [] });
+    const client = new MeshGuardClient({ adminToken: "adm" });
+    await client.listAgents({ tag: "prod", trustTier: "verified" });
+
+    const [url] = spy.mock.calls[0] as [string, RequestInit];
+    expect(url).toContain("tag=prod");
+    expect(url).toContain("trustTier=verified");
+  });
+
+  it("iterateAgents() follows cursors", async () => {
+    mockFetchSequence(
+      [200, { agents: [{ id: "a1", name: "A" }], nextCursor: "c2" }],
+      [200, { agents: [{ id: "a2", name: "B" }] }],
+    );
+    const client = new MeshGuardClient({ adminToken: "adm" });
+    const ids: string[] = [];
+    for await (const agent of client.iterateAgents({ tag: "prod" })) ids.push(agent.id);
+    expect(ids).toEqual(["a1", "a2"]);
+  });
+
+  it("createAgent() returns the issued token", async () => {
+    mockFetch(200, { agent: { id: "a1", name: "Bot", trustTier: "verified" }, token: "tok_new" });
+    const client = new MeshGuardClient({ adminToken: "adm" });
+    const created = await client.createAgent({ name: "Bot" });
+
+    expect(created.id).toBe("a1");
+    expect(created.tags).toEqual([]);
+    expect(created.token).toBe("tok_new");
+  });
+
+  it("manages the agent lifecycle", async () => {
+    const spy = jest.spyOn(globalThis, "fetch").mockImplementation(async (input, init) => {
+      const path = new URL(String(input)).pathname;
+      const body = init?.body ? JSON.parse(init.body as string) : {};
+      const agent = { id: "a/1", name: body.name ?? "Bot", trustTier: "verified" };
+      if (path.endsWith("/rotate-token")) {
+        return new Response(JSON.stringify({ token: "tok_rotated" }), { status: 200 });
+      }
+      if (path.endsWith("/suspend")) {
+        return new Response(JSON.stringify({ ...agent, status: "suspended" }), { status: 200 });
+      }
+      return new Response(JSON.stringify({ agent: { ...agent, status: "active" } }), { status: 200 });
+    });
+    const client = new MeshGuardClient({ adminToken: "adm" });
+
+    expect((await client.getAgent("a/1")).status).toBe("active");
+    expect((await client.updateAgent("a/1", { name: "Renamed" })).name).toBe("Renamed");
+    expect(await client.rotateAgentToken("a/1")).toEqual({
+      agentId: "a/1",
+      token: "tok_rotated",
+      expiresAt: undefined,
+    });
+    expect((await client.suspendAgent("a/1", "incident")).status).toBe("suspended");
+    expect((await client.reinstateAgent("a/1")).status).toBe("active");
+
+    const calls = spy.mock.calls.map(([url, init]) => [
+      (init as RequestInit).method ?? "GET",
+      new URL(String(url)).pathname,
+    ]);
+    expect(calls).toEqual([
+      ["GET", "/admin/agents/a%2F1"],
+      ["PATCH", "/admin/agents/a%2F1"],
+      ["POST", "/admin/agents/a%2F1/rotate-token"],
+      ["POST", "/admin/agents/a%2F1/suspend"],
+      ["POST", "/admin/agents/a%2F1/reinstate"],
+    ]);
+  });
+
+  it("manages policies and their versions", async () => {
+    const spy = jest.spyOn(globalThis, "fetch").mockImplementation(async (input, init) => {
+      const path = new URL(String(input)).pathname;
+      const body = init?.body ? JSON.parse(init.body as string) : {};
+      if (path.endsWith("/versions")) {
+        return new Response(
+          JSON.stringify({ versions: [{ version: 2 }, { version: 1, comment: "initial" }] }),
+          { status: 200 },
+        );
+      }
+      const policy = { id: "p1", name: body.name ?? "pii", rules: [], version: body.version ?? 2 };
+      return new Response(JSON.stringify({ policy }), { status: 200 });
+    });
+    const client = new MeshGuardClient({ adminToken: "adm" });
+
+    const draft = {
+      name: "pii",
+      rules: [{ name: "no-export", effect: "deny" as const, actions: ["export:*"] }],
+    };
+    expect((await client.createPolicy(draft, { dryRun: true })).id).toBe("p1");
+    await client.updatePolicy("p1", { description: "PII" }, { comment: "docs" });
+    expect((await client.getPolicy("p1")).name).toBe("pii");
+    expect((await client.listPolicyVersions("p1")).map((v) => v.version)).toEqual([2, 1]);
+    expect((await client.rollbackPolicy("p1", 1)).version).toBe(1);
+    await client.deletePolicy("p1");
+
+    const calls = spy.mock.calls.map(([url, init]) => {
+      const u = new URL(String(url));
+      return [(init as RequestInit).method ?? "GET", u.pathname + u.search];
+    });
+    expect(calls).toEqual([
+      ["POST", "/admin/policies?dryRun=true"],
+      ["PATCH", "/admin/policies/p1"],
+      ["GET", "/admin/policies/p1"],
+      ["GET", "/admin/policies/p1/versions"],
+      ["POST", "/admin/policies/p1/rollback"],
+      ["DELETE", "/admin/policies/p1"],
+    ]);
+    expect(JSON.parse((spy.mock.calls[1][1] as RequestInit).body as string)).toEqual({
+      description: "PII",
+      comment: "docs",
+    });
+  });
+
+  it("surfaces policy validation problems", async () => {
+    const errors = [{ path: "rules[0].actions", message: "must not be empty" }];
+    mockFetch(422, { message: "Policy is invalid", errors });
+    const client = new MeshGuardClient({ adminToken: "adm" });
+    const draft = { name: "bad", rules: [] };
+
+    await expect(client.validatePolicy(draft)).resolves.toEqual({
+      valid: false,
+      errors,
+      warnings: [],
+    });
+    const err = await client.createPolicy(draft).catch((e) => e);
+    expect(err).toBeInstanceOf(PolicyValidationError);
+    expect(err.issues).toEqual(errors);
+  });
+
   it("throws AuthenticationError without admin token", () => {
     const client = new MeshGuardClient();
     expect(() => client.listAgents()).rejects.toThrow(AuthenticationError);
@@ -0,0 +1,113 @@
+/**
+ * MeshGuard Call Context Tests
+ */
+
+import { MeshGuardClient, MeshGuardContext } from "../src/index";
+import { GovernedTool } from "../src/langchain";
+
+function mockGateway(): jest.SpyInstance {
+  return jest.spyOn(globalThis, "fetch").mockImplementation(
+    async () => new Response("{}", { status: 200 }),
+  );
+}
+
+function sentHeaders(spy: jest.SpyInstance, call = 0): Record<string, string> {
+  return (spy.mock.calls[call][1] as RequestInit).headers as Record<string, string>;
+}
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("withContext()", () => {
+  it("tags calls with the child's IDs and leaves the parent alone", async () => {
+    const spy = mockGateway();
+    const client = new MeshGuardClient({ agentToken: "tok", traceId: "base" });
+    const child = client.withContext({ sessionId: "s-1", userId: "u-1" });
+
+    const decision = await child.check("read:contacts");
+    await client.check("read:contacts");
+
+    expect(decision.traceId).toBe("base");
+    expect(sentHeaders(spy, 0)).toMatchObject({
+      "X-MeshGuard-Trace-ID": "base",
+      "X-MeshGuard-Session-ID": "s-1",
+      "X-MeshGuard-User-ID": "u-1",
+      Authorization: "Bearer tok",
+    });
+    expect(sentHeaders(spy, 1)["X-MeshGuard-Session-ID"]).toBeUndefined();
+  });
+
+  it("nests and shares the decision cache", async () => {
+    const spy = mockGateway();
+    const client = new MeshGuardClient({ cache: true });
+    const run = client.withContext({ sessionId: "s-1" }).withContext({ runId: "r-1", traceId: "t-1" });
+
+    expect(run.traceId).toBe("t-1");
+    expect(run.context).toEqual({ traceId: "t-1", sessionId: "s-1", runId: "r-1" });
+    expect(run.cache).toBe(client.cache);
+
+    await run.check("read:contacts");
+    const cached = await client.check("read:contacts");
+    expect(cached.cached).toBe(true);
+    expect(spy).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("MeshGuardContext", () => {
+  it("scopes IDs across async calls, below explicit child IDs", async () => {
+    const spy = mockGateway();
+    const client = new MeshGuardClient({ traceId: "base" });
+
+    await MeshGuardContext.run({ traceId: "req-1", userId: "u-1" }, async () => {
+      await Promise.resolve();
+      await client.check("read:a");
+      await client.withContext({ userId: "u-2" }).check("read:b");
+    });
+    await client.check("read:c");
+
+    expect(sentHeaders(spy, 0)).toMatchObject({ "X-MeshGuard-Trace-ID": "req-1", "X-MeshGuard-User-ID": "u-1" });
+    expect(sentHeaders(spy, 1)).toMatchObject({ "X-MeshGuard-Trace-ID": "req-1", "X-MeshGuard-User-ID": "u-2" });
+    expect(sentHeaders(spy, 2)["X-MeshGuard-Trace-ID"]).toBe("base");
+  });
+
+  it("propagates a govern() call's IDs to nested calls", async () => {
+    const spy = mockGateway();
+    const client = new MeshGuardClient({ traceId: "base", auditOutcomes: true });
+    const other = new MeshGuardClient({ traceId: "other" });
+
+    await client.withContext({ sessionId: "s-9" }).govern("run:agent", async () => {
+      await other.check("read:inner");
+    });
+
+    const inner = spy.mock.calls.findIndex(
+      (_, i) => sentHeaders(spy, i)["X-MeshGuard-Action"] === "read:inner",
+    );
+    expect(sentHeaders(spy, inner)).toMatchObject({
+      "X-MeshGuard-Trace-ID": "base",
+      "X-MeshGuard-Session-ID": "s-9",
+    });
+
+    const audit = spy.mock.calls.find(([url]) => String(url).endsWith("/audit/events"));
+    expect(JSON.parse((audit![1] as RequestInit).body as string)).toMatchObject({
+      traceId: "base",
+      sessionId: "s-9",
+    });
+  });
+
+  it("runs governed LangChain tools inside the client's scope", async () => {
+    mockGateway();
+    const client = new MeshGuardClient().withContext({ runId: "run-7" });
+    const tool = new GovernedTool({
+      action: "read:web",
+      client,
+      tool: {
+        name: "search",
+        description: "Search",
+        invoke: async () => MeshGuardContext.current(),
+      },
+    });
+
+    expect(await tool.invoke("q")).toMatchObject({ runId: "run-7" });
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * MeshGuard Local Policy Evaluator Tests
+ */
+
+import { generateKeyPairSync, sign } from "node:crypto";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import {
+  LocalPolicyEvaluator,
+  MeshGuardClient,
+  PolicyBundleError,
+} from "../src/index";
+import type { PolicyBundle } from "../src/index";
+import { canonicalJson } from "../src/canonical-json";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const bundle: PolicyBundle = {
+  version: "1",
+  policies: [
+    {
+      name: "crm",
+      rules: [
+        { name: "read-all", effect: "allow", actions: ["read:*"] },
+        {
+          name: "no-exports",
+          effect: "deny",
+          actions: ["read:contacts"],
+          resources: ["exports/**"],
+          reason: "Bulk exports are blocked",
+        },
+        {
+          name: "verified-writes",
+          effect: "allow",
+          actions: ["write:contacts"],
+          resources: ["contacts/*"],
+          conditions: { trustTiers: ["verified"] },
+        },
+      ],
+    },
+    {
+      name: "prod-lockdown",
+      appliesTo: { tags: ["prod"] },
+      rules: [{ name: "no-deletes", effect: "deny", actions: ["delete:*"] }],
+    },
+  ],
+};
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+describe("LocalPolicyEvaluator.evaluate()", () => {
+  const local = new LocalPolicyEvaluator(bundle, {
+    subject: { trustTier: "verified", tags: ["prod"] },
+  });
+
+  it("matches wildcard actions", () => {
+    const decision = local.evaluate("read:files");
+    expect(decision.allowed).toBe(true);
+    expect(decision.policy).toBe("crm");
+    expect(decision.rule).toBe("read-all");
+  });
+
+  it("gives deny rules precedence over allow rules", () => {
+    const decision = local.evaluate("read:contacts", "exports/2024/all.csv");
+    expect(decision.allowed).toBe(false);
+    expect(decision.rule).toBe("no-exports");
+    expect(decision.reason).toBe("Bulk exports are blocked");
+  });
+
+  it("matches resource globs segment by segment", () => {
+    expect(local.evaluate("write:contacts", "contacts/42").allowed).toBe(true);
+    expect(local.evaluate("write:contacts", "contacts/42/notes").allowed).toBe(false);
+    expect(local.evaluate("write:contacts").allowed).toBe(false);
+  });
+
+  it("applies trust-tier and tag conditions", () => {
+    const untrusted = { trustTier: "untrusted", tags: ["staging"] };
+    expect(local.evaluate("write:contacts", "contacts/42", untrusted).allowed).toBe(false);
+    expect(local.evaluate("delete:contacts").rule).toBe("no-deletes");
+    expect(local.evaluate("delete:contacts", undefined, untrusted).rule).toBeUndefined();
+  });
+
+  it("denies by default and honors defaultEffect", () => {
+    expect(local.evaluate("send:email").allowed).toBe(false);
+    const open = new LocalPolicyEvaluator({ ...bundle, defaultEffect: "allow" });
+    expect(open.evaluate("send:email").allowed).toBe(true);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Loading
+// ---------------------------------------------------------------------------
+
+describe("loading bundles", () => {
+  it("rejects malformed bundles with every issue listed", () => {
+    const bad = { version: 1, policies: [{ name: "", rules: [{ effect: "maybe" }] }] };
+    let err: PolicyBundleError | undefined;
+    try {
+      new LocalPolicyEvaluator(bad);
+    } catch (e) {
+      err = e as PolicyBundleError;
+    }
+    expect(err).toBeInstanceOf(PolicyBundleError);
+    expect(err?.issues.length).toBeGreaterThanOrEqual(4);
+  });
+
+  it("rejects expired bundles", () => {
+    expect(
+      () => new LocalPolicyEvaluator({ ...bundle, expiresAt: "2000-01-01T00:00:00Z" }),
+    ).toThrow(/expired/);
+  });
+
+  it("stops evaluating once the bundle expires", () => {
+    jest.useFakeTimers({ now: new Date("2026-01-01T00:00:00Z") });
+    try {
+      const local = new LocalPolicyEvaluator({ ...bundle, expiresAt: "2026-01-01T01:00:00Z" });
+      expect(() => local.evaluate("read:contacts")).not.toThrow();
+
+      jest.advanceTimersByTime(60 * 60_000);
+      expect(() => local.evaluate("read:contacts")).toThrow(PolicyBundleError);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it("loads JSON and YAML files", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "meshguard-"));
+    writeFileSync(join(dir, "bundle.json"), JSON.stringify(bundle));
+    writeFileSync(
+      join(dir, "bundle.yaml"),
+      [
+        'version: "1"',
+        "policies:",
+        "  - name: yaml-policy",
+        "    rules:",
+        "      - name: reads",
+        "        effect: allow",
+        '        actions: ["read:*"]',
+      ].join("\n"),
+    );
+
+    const fromJson = await LocalPolicyEvaluator.fromFile(join(dir, "bundle.json"));
+    const fromYaml = await LocalPolicyEvaluator.fromFile(join(dir, "bundle.yaml"));
+    expect(fromJson.evaluate("read:files").policy).toBe("crm");
+    expect(fromYaml.evaluate("read:files").policy).toBe("yaml-policy");
+  });
+
+  it("verifies bundle signatures", () => {
+    const { publicKey, privateKey } = generateKeyPairSync("ed25519");
+    const signature = sign(null, Buffer.from(canonicalJson(bundle)), privateKey)
+      .toString("base64");
+    const signed = { ...bundle, signature };
+
+    expect(() => new LocalPolicyEvaluator(signed, { publicKey })).not.toThrow();
+    expect(() => new LocalPolicyEvaluator(bundle, { publicKey })).toThrow(/not signed/);
+    expect(
+      () => new LocalPolicyEvaluator({ ...signed, defaultEffect: "allow" }, { publicKey }),
+    ).toThrow(/signature is invalid/);
+  });
+
+  it("downloads bundles from the gateway", async () => {
+    const spy = jest.spyOn(globalThis, "fetch").mockResolvedValue(
+      new Response(JSON.stringify(bundle), { status: 200 }),
+    );
+    const client = new MeshGuardClient({ agentToken: "tok" });
+    const local = await LocalPolicyEvaluator.fromGateway(client);
+
+    const [url] = spy.mock.calls[0] as [string, RequestInit];
+    expect(url).toContain("/policies/bundle");
+    expect(local.bundle.policies).toHaveLength(2);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Client integration
+// ---------------------------------------------------------------------------
+
+describe("MeshGuardClient with localPolicy", () => {
+  it("evaluates checks without calling the gateway", async () => {
+    const spy = jest.spyOn(globalThis, "fetch");
+    const client = new MeshGuardClient({
+      localPolicy: new LocalPolicyEvaluator(bundle),
+      traceId: "trace-1",
+    });
+
+    const decision = await client.check("read:files");
+    expect(decision.allowed).toBe(true);
+    expect(decision.traceId).toBe("trace-1");
+    await expect(client.enforce("send:email")).rejects.toThrow(/denied/);
+    expect(spy).not.toHaveBeenCalled();
+  });
+});
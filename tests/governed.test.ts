@@ -0,0 +1,141 @@
+/**
+ * MeshGuard Governed Function and Decorator Tests
+ */
+
+import {
+  MeshGuardClient,
+  MeshGuardError,
+  PolicyDeniedError,
+  governFn,
+  governed,
+} from "../src/index";
+import { MockMeshGuardGateway } from "../src/testing";
+
+interface Contact {
+  id: string;
+  email: string;
+}
+
+describe("governFn", () => {
+  it("governs each call, deriving resource and context from arguments", async () => {
+    const gateway = new MockMeshGuardGateway()
+      .allow("send:email", { when: (c) => c.context?.domain === "example.com" });
+    const client = gateway.client();
+    const send = jest.fn(async (to: string, subject: string) => `sent ${subject} to ${to}`);
+
+    const governedSend = governFn(client, "send:email", send, {
+      resource: ([to]) => `mailbox/${to}`,
+      context: ([to]) => ({ domain: to.split("@")[1] }),
+    });
+
+    await expect(governedSend("a@example.com", "hi")).resolves.toBe("sent hi to a@example.com");
+    await expect(governedSend("b@evil.test", "hi")).rejects.toThrow(PolicyDeniedError);
+    expect(send).toHaveBeenCalledTimes(1);
+    gateway.assertChecked("send:email", {
+      resource: "mailbox/b@evil.test",
+      context: { domain: "evil.test" },
+    });
+  });
+
+  it("keeps `this` and applies obligations", async () => {
+    const gateway = new MockMeshGuardGateway().allow("read:contacts", {
+      obligations: [{ type: "mask", fields: ["*.email"] }],
+    });
+    const repo = {
+      rows: [{ id: "1", email: "a@example.com" }] as Contact[],
+      list(): Contact[] {
+        return this.rows;
+      },
+    };
+    repo.list = governFn(gateway.client(), "read:contacts", repo.list) as unknown as () => Contact[];
+
+    await expect(repo.list()).resolves.toEqual([{ id: "1", email: "[REDACTED]" }]);
+  });
+});
+
+describe("@governed", () => {
+  const gateway = new MockMeshGuardGateway().allow("read:*").allow("write:crm", {
+    when: (c) => c.resource !== "locked",
+  });
+
+  class CrmService {
+    constructor(readonly meshguard: MeshGuardClient) {}
+
+    @governed("write:crm", { resource: ([contact]: [Contact]) => contact.id })
+    async updateContact(contact: Contact): Promise<string> {
+      return `updated ${contact.id}`;
+    }
+
+    @governed("read:contacts", { context: (_args, self: CrmService) => ({ tenant: self.tenant }) })
+    async listContacts(): Promise<string[]> {
+      return ["c-1"];
+    }
+
+    get tenant(): string {
+      return "acme";
+    }
+  }
+
+  it("governs decorated methods with the instance's client", async () => {
+    const service = new CrmService(gateway.client());
+
+    await expect(service.updateContact({ id: "c-1", email: "" })).resolves.toBe("updated c-1");
+    await expect(service.updateContact({ id: "locked", email: "" })).rejects.toThrow(PolicyDeniedError);
+    await expect(service.listContacts()).resolves.toEqual(["c-1"]);
+
+    gateway.assertChecked("write:crm", { resource: "c-1" });
+    gateway.assertChecked("read:contacts", { context: { tenant: "acme" } });
+  });
+
+  it("takes the client from options and fails clearly without one", async () => {
+    const client = gateway.client();
+    class Reports {
+      @governed("read:reports", { client: () => client })
+      async run(): Promise<string> {
+        return "ok";
+      }
+
+      @governed("read:reports")
+      async orphan(): Promise<string> {
+        return "never";
+      }
+    }
+
+    await expect(new Reports().run()).resolves.toBe("ok");
+    await expect(new Reports().orphan()).rejects.toThrow(MeshGuardError);
+    await expect(new Reports().orphan()).rejects.toThrow(/'orphan' has no MeshGuardClient/);
+  });
+
+  it("only decorates async methods", async () => {
+    class Sync {
+      // @ts-expect-error — a governed method returns a promise
+      @governed("read:reports")
+      list(): string[] {
+        return [];
+      }
+    }
+    // At runtime the result is a promise regardless
+    await expect(new Sync().list()).rejects.toThrow(/no MeshGuardClient/);
+  });
+
+  it("works as a legacy (experimentalDecorators) decorator", async () => {
+    const client = gateway.client();
+    const target = {
+      async remove(id: string) {
+        return `removed ${id}`;
+      },
+    };
+    const descriptor = Object.getOwnPropertyDescriptor(target, "remove")!;
+    const decorated = governed("delete:records", {
+      client,
+      resource: ([id]: [string]) => id,
+    })(target, "remove", descriptor);
+    Object.defineProperty(target, "remove", decorated);
+
+    await expect(target.remove("r-1")).rejects.toThrow(PolicyDeniedError);
+    gateway.assertChecked("delete:records", { resource: "r-1" });
+    expect(() => governed("delete:records")(target, "x", { value: 1 } as PropertyDescriptor)).toThrow(
+      /can only decorate methods/,
+    );
+  });
+});
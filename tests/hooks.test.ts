@@ -0,0 +1,129 @@
+/**
+ * MeshGuard Hooks Tests
+ */
+
+import {
+  GatewayUnavailableError,
+  MeshGuardClient,
+  PolicyDeniedError,
+} from "../src/index";
+import type { HookRequest, PolicyDecision } from "../src/index";
+
+function mockFetch(status: number, body: unknown = {}): jest.SpyInstance {
+  return jest.spyOn(globalThis, "fetch").mockImplementation(
+    async () => new Response(JSON.stringify(body), { status }),
+  );
+}
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("hooks", () => {
+  it("lets onRequest add headers to checks, proxy and admin calls", async () => {
+    const spy = mockFetch(200, { agents: [] });
+    const seen: Array<[string, string | undefined]> = [];
+    const client = new MeshGuardClient({ agentToken: "tok", adminToken: "adm" }).use({
+      onRequest(req) {
+        seen.push([req.kind, req.action]);
+        req.headers["X-Tenant"] = "acme";
+      },
+    });
+
+    await client.check("read:contacts");
+    await client.get("/crm", "read:crm");
+    await client.listAgents();
+
+    expect(seen).toEqual([
+      ["check", "read:contacts"],
+      ["proxy", "read:crm"],
+      ["admin", undefined],
+    ]);
+    for (const [, init] of spy.mock.calls) {
+      expect(((init as RequestInit).headers as Record<string, string>)["X-Tenant"]).toBe("acme");
+    }
+  });
+
+  it("short-circuits checks with a decision, bypassing the gateway and cache", async () => {
+    const spy = mockFetch(200);
+    const override: PolicyDecision = {
+      allowed: false,
+      action: "delete:db",
+      decision: "deny",
+      reason: "Frozen for the release",
+    };
+    const client = new MeshGuardClient({
+      cache: true,
+      hooks: { onRequest: (req) => (req.action === "delete:db" ? override : undefined) },
+    });
+
+    const decision = await client.check("delete:db");
+    expect(decision).toMatchObject({ allowed: false, decision: "deny", reason: "Frozen for the release" });
+    await expect(client.enforce("delete:db")).rejects.toThrow(PolicyDeniedError);
+    expect(client.cache?.size).toBe(0);
+    expect(spy).not.toHaveBeenCalled();
+
+    await client.check("read:db");
+    expect(spy).toHaveBeenCalledTimes(1);
+  });
+
+  it("blocks proxy requests with a non-allow decision", async () => {
+    const spy = mockFetch(200);
+    const client = new MeshGuardClient({
+      hooks: {
+        onRequest: (req) => ({ allowed: req.method === "GET", action: req.action ?? "", decision: "deny" }),
+      },
+    });
+
+    await expect(client.post("/crm", "write:crm")).rejects.toThrow(PolicyDeniedError);
+    await client.get("/crm", "read:crm");
+    expect(spy).toHaveBeenCalledTimes(1);
+  });
+
+  it("runs onResponse, onDecision and onDeny in order", async () => {
+    mockFetch(403, { policy: "p", reason: "nope" });
+    const events: string[] = [];
+    const client = new MeshGuardClient({
+      hooks: [
+        {
+          onResponse: (res) => void events.push(`response:${res.status}`),
+          onDecision: (d) => void events.push(`decision:${d.decision}`),
+        },
+        { onDeny: (d, check) => void events.push(`deny:${check.action}:${d.reason}`) },
+      ],
+    });
+
+    await client.check("write:crm");
+    expect(events).toEqual(["response:403", "decision:deny", "deny:write:crm:nope"]);
+  });
+
+  it("lets onDecision override decisions, including batch results", async () => {
+    mockFetch(200, { decisions: [{ allowed: true }, { allowed: true }] });
+    const client = new MeshGuardClient().use({
+      onDecision: (d) =>
+        d.action.startsWith("delete:") ? { ...d, allowed: false, decision: "deny" } : undefined,
+    });
+
+    const [read, del] = await client.checkMany([{ action: "read:a" }, { action: "delete:a" }]);
+    expect(read.allowed).toBe(true);
+    expect(del.allowed).toBe(false);
+  });
+
+  it("reports transport and HTTP errors to onError", async () => {
+    const errors: Array<[string, HookRequest | undefined]> = [];
+    const client = new MeshGuardClient({ adminToken: "adm" }).use({
+      onError: (err, req) => void errors.push([(err as Error).name, req]),
+    });
+
+    jest.spyOn(globalThis, "fetch").mockRejectedValueOnce(new TypeError("ECONNREFUSED"));
+    await expect(client.check("read:a")).rejects.toThrow(GatewayUnavailableError);
+
+    mockFetch(500, "boom");
+    await expect(client.listPolicies()).rejects.toThrow(GatewayUnavailableError);
+
+    expect(errors.map(([name, req]) => [name, req?.kind])).toEqual([
+      ["GatewayUnavailableError", "check"],
+      ["GatewayUnavailableError", "admin"],
+    ]);
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * MeshGuard LangChain Integration Tests
+ */
+
+import { PolicyDeniedError } from "../src/index";
+import {
+  GovernedTool,
+  GovernedToolkit,
+  MeshGuardCallbackHandler,
+  governedTool,
+} from "../src/langchain";
+import type { DecisionContext } from "../src/index";
+import type { LangChainTool } from "../src/langchain";
+import { MockMeshGuardGateway } from "../src/testing";
+
+interface EmailInput {
+  to: string;
+  body: string;
+}
+
+function fakeTool(name: string): LangChainTool & { invoke: jest.Mock } {
+  return {
+    name,
+    description: `${name} tool`,
+    invoke: jest.fn(async (input: unknown) => `${name}: ${JSON.stringify(input)}`),
+  };
+}
+
+// Only internal recipients may be emailed
+const gateway = new MockMeshGuardGateway()
+  .allow("read:*")
+  .allow("send:email", { when: (c) => String(c.context?.recipient).endsWith("@acme.test") });
+
+afterEach(() => {
+  gateway.calls.length = 0;
+});
+
+describe("governedTool", () => {
+  it("checks the context derived from each input", async () => {
+    const tool = fakeTool("email");
+    const email = governedTool("send:email", gateway.client(), tool, {
+      contextFrom: (input: EmailInput) => ({ recipient: input.to }),
+      resourceFrom: (input: EmailInput) => `mailbox/${input.to}`,
+    });
+
+    await email.invoke({ to: "bob@acme.test", body: "hi" });
+    await expect(email.invoke({ to: "eve@competitor.test", body: "hi" })).rejects.toThrow(
+      PolicyDeniedError,
+    );
+
+    expect(tool.invoke).toHaveBeenCalledTimes(1);
+    gateway.assertChecked("send:email", {
+      resource: "mailbox/eve@competitor.test",
+      context: { recipient: "eve@competitor.test" },
+    });
+  });
+
+  it("passes the arguments of a ToolCall to the extractors", async () => {
+    const tool = fakeTool("email");
+    const email = governedTool("send:email", gateway.client(), tool, {
+      contextFrom: (input: EmailInput) => ({ recipient: input.to }),
+    });
+    const call = (to: string) => ({
+      name: "email",
+      args: { to, body: "hi" },
+      id: "call-1",
+      type: "tool_call",
+    });
+
+    await email.invoke(call("bob@acme.test"));
+    await expect(email.invoke(call("eve@competitor.test"))).rejects.toThrow(PolicyDeniedError);
+
+    expect(tool.invoke).toHaveBeenCalledWith(call("bob@acme.test"));
+    gateway.assertChecked("send:email", { context: { recipient: "eve@competitor.test" } });
+  });
+
+  it("still accepts a deny handler as the fourth argument", async () => {
+    const email = governedTool("send:email", gateway.client(), fakeTool("email"), (err) => err.reason);
+    await expect(email.invoke({ to: "x@y.test" })).resolves.toBe("No matching mock rule");
+  });
+});
+
+describe("GovernedTool", () => {
+  it("derives the action from the input, falling back to its own", async () => {
+    const tool = fakeTool("files");
+    const governed = new GovernedTool({
+      tool,
+      action: "read:files",
+      client: gateway.client(),
+      actionFrom: (input: { op?: string }) => (input.op ? `${input.op}:files` : undefined),
+      resourceFrom: (input: { path: string }) => input.path,
+    });
+
+    await governed.invoke({ path: "/docs/a.md" });
+    await expect(governed.invoke({ op: "delete", path: "/docs/a.md" })).rejects.toThrow(
+      PolicyDeniedError,
+    );
+    expect(gateway.checks().map((c) => [c.action, c.resource])).toEqual([
+      ["read:files", "/docs/a.md"],
+      ["delete:files", "/docs/a.md"],
+    ]);
+  });
+
+  it("unwraps ToolCall input too", async () => {
+    const governed = new GovernedTool({
+      tool: fakeTool("files"),
+      action: "read:files",
+      client: gateway.client(),
+      resourceFrom: (input: { path: string }) => input.path,
+    });
+
+    await governed.invoke({
+      name: "files",
+      args: { path: "/docs/b.md" },
+      id: "call-2",
+      type: "tool_call",
+    });
+    gateway.assertChecked("read:files", { resource: "/docs/b.md" });
+  });
+});
+
+describe("GovernedToolkit", () => {
+  it("applies input extractors to every tool", async () => {
+    const toolkit = new GovernedToolkit({
+      tools: [fakeTool("search"), fakeTool("email")],
+      client: gateway.client(),
+      actionMap: { search: "read:web", email: "send:email" },
+      contextFrom: (input, tool): DecisionContext =>
+        tool.name === "email" ? { recipient: (input as EmailInput).to } : { query: String(input) },
+    });
+    const [search, email] = toolkit.getTools();
+
+    await search.invoke("public docs");
+    await email.invoke({ to: "ann@acme.test", body: "" });
+    await expect(email.invoke({ to: "eve@competitor.test", body: "" })).rejects.toThrow(
+      PolicyDeniedError,
+    );
+    gateway.assertChecked("read:web", { context: { query: "public docs" } });
+    gateway.assertChecked("send:email", { times: 2 });
+  });
+});
+
+describe("MeshGuardCallbackHandler", () => {
+  function setup(options: Partial<ConstructorParameters<typeof MeshGuardCallbackHandler>[0]> = {}) {
+    const gw = new MockMeshGuardGateway()
+      .allow("read:*")
+      .allow("send:email", { when: (c) => String(c.context?.recipient).endsWith("@acme.test") });
+    const handler = new MeshGuardCallbackHandler({
+      client: gw.client(),
+      actionMap: { search: "read:web", send_email: "send:email" },
+      contextFrom: (input, tool) =>
+        tool === "send_email" ? { recipient: (input as EmailInput).to } : undefined,
+      ...options,
+    });
+    return { gw, handler };
+  }
+
+  it("enforces tool starts and audits LLM and tool calls under the root run", async () => {
+    const { gw, handler } = setup();
+
+    // The sequence an AgentExecutor emits
+    await handler.handleChainStart({ id: ["AgentExecutor"] }, {}, "run-1");
+    await handler.handleChatModelStart({ id: ["ChatOpenAI"] }, [], "llm-1", "run-1");
+    await handler.handleLLMEnd({ llmOutput: { tokenUsage: { totalTokens: 42 } } }, "llm-1");
+    await handler.handleAgentAction({ tool: "search", toolInput: "docs" }, "run-1");
+    await handler.handleToolStart({ id: ["DynamicTool"] }, "docs", "tool-1", "run-1");
+    await handler.handleToolEnd("results", "tool-1");
+    await handler.handleChainEnd({}, "run-1");
+    await handler.flush();
+
+    gw.assertChecked("read:web", { times: 1 });
+    expect(gw.events).toEqual([
+      expect.objectContaining({
+        type: "llm",
+        action: "invoke:llm",
+        model: "ChatOpenAI",
+        outcome: "success",
+        runId: "run-1",
+        tokenUsage: { totalTokens: 42 },
+      }),
+      expect.objectContaining({
+        type: "tool",
+        action: "read:web",
+        tool: "search",
+        outcome: "success",
+        decision: "allow",
+        resultSize: 7,
+        runId: "run-1",
+      }),
+    ]);
+  });
+
+  it("aborts the run on a deny", async () => {
+    const onDeny = jest.fn();
+    const { gw, handler } = setup({ onDeny });
+
+    const signal = handler.signalFor("run-2");
+    await handler.handleChainStart({ id: ["AgentExecutor"] }, {}, "run-2");
+    const input = JSON.stringify({ to: "eve@competitor.test", body: "secrets" });
+    const denied = handler
+      .handleToolStart({ id: ["DynamicStructuredTool"] }, input, "tool-2", "run-2", [], {}, "send_email")
+      .catch((e) => e);
+
+    expect(await denied).toBeInstanceOf(PolicyDeniedError);
+    expect(signal.aborted).toBe(true);
+    expect(signal.reason).toBe(await denied);
+    expect(onDeny).toHaveBeenCalledWith(await denied, "send_email", {
+      to: "eve@competitor.test",
+      body: "secrets",
+    });
+
+    await handler.flush();
+    gw.assertChecked("send:email", { context: { recipient: "eve@competitor.test" } });
+    gw.assertEvent({ type: "tool", tool: "send_email", outcome: "blocked", runId: "run-2" });
+  });
+
+  it("aborts only the denied run when runs share the handler", async () => {
+    const { handler } = setup();
+
+    const first = handler.signalFor("run-a");
+    const second = handler.signalFor("run-b");
+    await Promise.all([
+      handler.handleChainStart({ id: ["AgentExecutor"] }, {}, "run-a"),
+      handler.handleChainStart({ id: ["AgentExecutor"] }, {}, "run-b"),
+    ]);
+    const [denied] = await Promise.allSettled([
+      handler.handleToolStart({ name: "delete_files" }, "/", "tool-a", "run-a"),
+      handler.handleToolStart({ name: "search" }, "docs", "tool-b", "run-b"),
+    ]);
+
+    expect(denied).toMatchObject({ status: "rejected", reason: expect.any(PolicyDeniedError) });
+    expect(first.aborted).toBe(true);
+    expect(second.aborted).toBe(false);
+
+    await handler.handleChainError(new Error("aborted"), "run-a");
+    expect(handler.signalFor("run-a")).not.toBe(first);
+  });
+
+  it("only audits denials when abortOnDeny is off", async () => {
+    const { gw, handler } = setup({ abortOnDeny: false });
+
+    const signal = handler.signalFor("tool-3");
+    await handler.handleToolStart({ name: "delete_files" }, "/", "tool-3");
+    await handler.handleToolError(new Error("boom"), "tool-3");
+    await handler.flush();
+
+    expect(signal.aborted).toBe(false);
+    gw.assertEvent({
+      action: "execute:tool",
+      tool: "delete_files",
+      outcome: "error",
+      decision: "deny",
+      error: "boom",
+    });
+  });
+});
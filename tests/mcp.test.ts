@@ -0,0 +1,300 @@
+/**
+ * MeshGuard MCP Integration Tests
+ */
+
+import { PassThrough } from "node:stream";
+
+import { GovernedMcpTransport, StdioMcpTransport, startMcpProxy } from "../src/mcp";
+import type { JsonRpcMessage, McpTransport } from "../src/mcp";
+import { MockMeshGuardGateway } from "../src/testing";
+
+const TOOLS = [
+  { name: "search_code", inputSchema: { type: "object" } },
+  { name: "create_issue", inputSchema: { type: "object" } },
+  { name: "delete_repo", inputSchema: { type: "object" } },
+];
+
+/** Two in-memory transports wired to each other. */
+function linkedPair(): [McpTransport, McpTransport] {
+  const make = (peer: () => McpTransport): McpTransport => ({
+    async start() {},
+    async send(message) {
+      queueMicrotask(() => peer().onmessage?.(message));
+    },
+    async close() {},
+  });
+  const a: McpTransport = make(() => b);
+  const b: McpTransport = make(() => a);
+  return [a, b];
+}
+
+/** A stand-in MCP server that records the requests it handles. */
+function fakeServer(transport: McpTransport): JsonRpcMessage[] {
+  const seen: JsonRpcMessage[] = [];
+  transport.onmessage = (message) => {
+    seen.push(message);
+    const params = message.params as { name?: string } | undefined;
+    const result =
+      message.method === "tools/list"
+        ? { tools: TOOLS }
+        : { content: [{ type: "text", text: `ran ${params?.name}` }] };
+    void transport.send({ jsonrpc: "2.0", id: message.id, result });
+  };
+  return seen;
+}
+
+/** Send a request through `transport` and resolve with the response. */
+function call(transport: McpTransport, message: JsonRpcMessage): Promise<JsonRpcMessage> {
+  return new Promise((resolve) => {
+    transport.onmessage = (response) => {
+      if (response.id === message.id) resolve(response);
+    };
+    void transport.send(message);
+  });
+}
+
+function gateway(): MockMeshGuardGateway {
+  return new MockMeshGuardGateway()
+    .allow("read:code")
+    .allow("write:issues", { when: (c) => c.context?.repo !== "prod" })
+    .allow("write:issues", { when: (c) => c.context === undefined });
+}
+
+const actionMap = {
+  search_code: "read:code",
+  create_issue: "write:issues",
+  delete_repo: "admin:repos",
+};
+
+describe("GovernedMcpTransport", () => {
+  it("governs a client transport", async () => {
+    const gw = gateway();
+    const [clientEnd, serverEnd] = linkedPair();
+    const seen = fakeServer(serverEnd);
+    const transport = new GovernedMcpTransport(clientEnd, { client: gw.client(), actionMap });
+    await transport.start();
+
+    const list = await call(transport, { jsonrpc: "2.0", id: 1, method: "tools/list" });
+    expect((list.result as { tools: { name: string }[] }).tools.map((t) => t.name)).toEqual([
+      "search_code",
+      "create_issue",
+    ]);
+
+    const allowed = await call(transport, {
+      jsonrpc: "2.0",
+      id: 2,
+      method: "tools/call",
+      params: { name: "create_issue", arguments: { repo: "docs", title: "Typo" } },
+    });
+    expect(allowed.result).toEqual({ content: [{ type: "text", text: "ran create_issue" }] });
+
+    const denied = await call(transport, {
+      jsonrpc: "2.0",
+      id: 3,
+      method: "tools/call",
+      params: { name: "create_issue", arguments: { repo: "prod", title: "Oops" } },
+    });
+    expect(denied.result).toEqual({
+      content: [
+        { type: "text", text: 'Tool "create_issue" denied by MeshGuard policy: No matching mock rule' },
+      ],
+      isError: true,
+    });
+
+    // The denied call never reached the server
+    expect(seen.map((m) => m.id)).toEqual([1, 2]);
+    gw.assertChecked("write:issues", { context: { repo: "prod", title: "Oops" } });
+  });
+
+  it("governs a server transport", async () => {
+    const gw = gateway();
+    const [clientEnd, serverEnd] = linkedPair();
+    const transport = new GovernedMcpTransport(serverEnd, {
+      client: gw.client(),
+      actionMap,
+      side: "server",
+      hideDenied: false,
+      resourceFrom: (args) => (args as { repo?: string }).repo,
+    });
+    const seen = fakeServer(transport);
+    await transport.start();
+
+    const list = await call(clientEnd, { jsonrpc: "2.0", id: "a", method: "tools/list" });
+    expect((list.result as { tools: unknown[] }).tools).toHaveLength(3);
+
+    const denied = await call(clientEnd, {
+      jsonrpc: "2.0",
+      id: "b",
+      method: "tools/call",
+      params: { name: "delete_repo", arguments: { repo: "prod" } },
+    });
+    expect(denied.result).toMatchObject({ isError: true });
+    expect(seen.map((m) => m.id)).toEqual(["a"]);
+    gw.assertChecked("admin:repos", { resource: "prod" });
+  });
+
+  it("answers with a JSON-RPC error when the policy check fails", async () => {
+    const gw = gateway().failNetwork();
+    const [clientEnd, serverEnd] = linkedPair();
+    fakeServer(serverEnd);
+    const transport = new GovernedMcpTransport(clientEnd, { client: gw.client(), actionMap });
+
+    const response = await call(transport, {
+      jsonrpc: "2.0",
+      id: 9,
+      method: "tools/call",
+      params: { name: "search_code", arguments: { q: "x" } },
+    });
+    expect(response.error).toMatchObject({
+      code: -32603,
+      message: expect.stringMatching(/^MeshGuard policy check failed/),
+    });
+  });
+
+  it("rejects tool calls without a tool name", async () => {
+    const gw = gateway();
+    const [clientEnd, serverEnd] = linkedPair();
+    const seen = fakeServer(serverEnd);
+    const transport = new GovernedMcpTransport(clientEnd, { client: gw.client(), actionMap });
+
+    const response = await call(transport, {
+      jsonrpc: "2.0",
+      id: 10,
+      method: "tools/call",
+      params: { arguments: {} },
+    });
+    expect(response.error).toMatchObject({ code: -32602 });
+    expect(seen).toEqual([]);
+    expect(gw.calls).toEqual([]);
+  });
+});
+
+describe("StdioMcpTransport", () => {
+  it("decodes multibyte characters split across chunks", async () => {
+    const input = new PassThrough();
+    const transport = new StdioMcpTransport(input, new PassThrough());
+    const messages: JsonRpcMessage[] = [];
+    transport.onmessage = (message) => messages.push(message);
+    await transport.start();
+
+    const bytes = Buffer.from(`${JSON.stringify({ jsonrpc: "2.0", method: "héllo €" })}\n`);
+    const split = bytes.indexOf(Buffer.from("€")) + 1;
+    input.write(bytes.subarray(0, split));
+    input.write(bytes.subarray(split));
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(messages).toEqual([{ jsonrpc: "2.0", method: "héllo €" }]);
+    await transport.close();
+    expect(input.isPaused()).toBe(true);
+  });
+});
+
+// A stdio MCP server stand-in: answers tools/list and echoes tools/call
+const STANDIN_SERVER = `
+const readline = require("node:readline");
+const tools = ${JSON.stringify(TOOLS)};
+readline.createInterface({ input: process.stdin }).on("line", (line) => {
+  const msg = JSON.parse(line);
+  if (msg.id === undefined) return;
+  const result = msg.method === "tools/list"
+    ? { tools }
+    : { content: [{ type: "text", text: "ran " + msg.params.name }] };
+  process.stdout.write(JSON.stringify({ jsonrpc: "2.0", id: msg.id, result }) + "\\n");
+});
+`;
+
+describe("startMcpProxy", () => {
+  it("governs a stdio MCP server process", async () => {
+    const gw = gateway();
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const proxy = await startMcpProxy({
+      client: gw.client(),
+      command: process.execPath,
+      args: ["-e", STANDIN_SERVER],
+      input,
+      output,
+      actionMap,
+    });
+
+    const responses: JsonRpcMessage[] = [];
+    const received = (count: number) =>
+      new Promise<void>((resolve) => {
+        const check = () => (responses.length >= count ? resolve() : setTimeout(check, 5));
+        check();
+      });
+    let buffer = "";
+    output.on("data", (chunk: Buffer) => {
+      buffer += chunk.toString();
+      const lines = buffer.split("\n");
+      buffer = lines.pop()!;
+      responses.push(...lines.map((l) => JSON.parse(l) as JsonRpcMessage));
+    });
+
+    try {
+      input.write(`${JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" })}\n`);
+      input.write(
+        `${JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/call", params: { name: "delete_repo", arguments: {} } })}\n`,
+      );
+      input.write(
+        `${JSON.stringify({ jsonrpc: "2.0", id: 3, method: "tools/call", params: { name: "search_code", arguments: { q: "auth" } } })}\n`,
+      );
+      await received(3);
+
+      const byId = new Map(responses.map((r) => [r.id, r]));
+      expect((byId.get(1)!.result as { tools: unknown[] }).tools).toHaveLength(2);
+      expect(byId.get(2)!.result).toMatchObject({ isError: true });
+      expect(byId.get(3)!.result).toEqual({ content: [{ type: "text", text: "ran search_code" }] });
+    } finally {
+      await proxy.close();
+    }
+    expect(proxy.process.exitCode !== null || proxy.process.signalCode !== null).toBe(true);
+  });
+
+  it("stops reading input when the server exits", async () => {
+    const input = new PassThrough();
+    const proxy = await startMcpProxy({
+      client: gateway().client(),
+      command: process.execPath,
+      args: ["-e", "process.exit(0)"],
+      input,
+      output: new PassThrough(),
+    });
+
+    await proxy.closed;
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(input.isPaused()).toBe(true);
+  });
+
+  it("shuts the server down when the agent's input ends", async () => {
+    const input = new PassThrough();
+    const proxy = await startMcpProxy({
+      client: gateway().client(),
+      command: process.execPath,
+      args: ["-e", STANDIN_SERVER],
+      input,
+      output: new PassThrough(),
+    });
+
+    input.end();
+    await proxy.closed;
+    expect(proxy.process.exitCode).toBe(0);
+  });
+
+  it("kills a server that outlives the agent's input", async () => {
+    const input = new PassThrough();
+    const proxy = await startMcpProxy({
+      client: gateway().client(),
+      command: process.execPath,
+      // Ignores end of input and keeps running
+      args: ["-e", "process.stdin.resume(); setInterval(() => {}, 1000);"],
+      input,
+      output: new PassThrough(),
+      shutdownTimeout: 50,
+    });
+
+    input.end();
+    await proxy.closed;
+    expect(proxy.process.signalCode).toBe("SIGTERM");
+  });
+});
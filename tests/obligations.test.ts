@@ -0,0 +1,167 @@
+/**
+ * MeshGuard Obligations Tests
+ */
+
+import {
+  MeshGuardClient,
+  OutputBlockedError,
+  applyObligations,
+} from "../src/index";
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+// ---------------------------------------------------------------------------
+// applyObligations()
+// ---------------------------------------------------------------------------
+
+describe("applyObligations()", () => {
+  const contacts = {
+    total: 3,
+    contacts: [
+      { name: "Ada", email: "ada@example.com", ssn: "123-45-6789" },
+      { name: "Bob", email: "bob@example.com", ssn: "987-65-4321" },
+      { name: "Cy", email: "cy@example.com", ssn: "555-55-5555" },
+    ],
+  };
+
+  it("masks fields, including through wildcards", () => {
+    const out = applyObligations(
+      contacts,
+      [{ type: "mask", fields: ["contacts.*.email"], replacement: "***" }],
+      "read:contacts",
+    );
+    expect(out.contacts.map((c) => c.email)).toEqual(["***", "***", "***"]);
+    expect(out.contacts[0].name).toBe("Ada");
+  });
+
+  it("removes fields without mutating the input", () => {
+    const out = applyObligations(
+      contacts,
+      [{ type: "remove", fields: ["contacts.*.ssn", "total"] }],
+      "read:contacts",
+    );
+    expect(out.contacts[0]).toEqual({ name: "Ada", email: "ada@example.com" });
+    expect("total" in out).toBe(false);
+    expect(contacts.contacts[0].ssn).toBe("123-45-6789");
+    expect(contacts.total).toBe(3);
+  });
+
+  it("truncates nested and top-level arrays", () => {
+    const nested = applyObligations(
+      contacts,
+      [{ type: "truncate", field: "contacts", maxItems: 2 }],
+      "read:contacts",
+    );
+    expect(nested.contacts).toHaveLength(2);
+
+    const root = applyObligations([1, 2, 3, 4], [{ type: "truncate", maxItems: 1 }], "read:n");
+    expect(root).toEqual([1]);
+  });
+
+  it("blocks results matching a pattern", () => {
+    expect(() =>
+      applyObligations(
+        contacts,
+        [{ type: "block", patterns: ["\\d{3}-\\d{2}-\\d{4}"], reason: "SSNs detected" }],
+        "read:contacts",
+      ),
+    ).toThrow(OutputBlockedError);
+
+    // Scoped to fields that do not match
+    expect(() =>
+      applyObligations(
+        contacts,
+        [{ type: "block", patterns: ["\\d{3}-\\d{2}"], fields: ["contacts.*.name"] }],
+        "read:contacts",
+      ),
+    ).not.toThrow();
+  });
+
+  it("ignores unknown obligation types", () => {
+    const out = applyObligations(contacts, [{ type: "notify", channel: "#sec" }], "read:contacts");
+    expect(out).toBe(contacts);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// govern() integration
+// ---------------------------------------------------------------------------
+
+describe("govern() obligations and outcome auditing", () => {
+  function mockGateway(obligations: unknown[] = []): jest.SpyInstance {
+    return jest.spyOn(globalThis, "fetch").mockImplementation(async (input) => {
+      if (String(input).endsWith("/audit/events")) {
+        return new Response("{}", { status: 200 });
+      }
+      return new Response(JSON.stringify({ policy: "pii", obligations }), { status: 200 });
+    });
+  }
+
+  function auditEvents(spy: jest.SpyInstance): Array<Record<string, unknown>> {
+    return spy.mock.calls
+      .filter(([url]) => String(url).endsWith("/audit/events"))
+      .map(([, init]) => JSON.parse((init as RequestInit).body as string));
+  }
+
+  it("applies obligations to the result", async () => {
+    mockGateway([{ type: "redact", fields: ["email"] }]);
+    const client = new MeshGuardClient({ agentToken: "tok" });
+
+    const result = await client.govern("read:user", () => ({ name: "Ada", email: "a@x.io" }));
+    expect(result).toEqual({ name: "Ada", email: "[REDACTED]" });
+  });
+
+  it("does not report outcomes unless enabled", async () => {
+    const spy = mockGateway();
+    const client = new MeshGuardClient({ agentToken: "tok" });
+    await client.govern("read:user", () => "ok");
+    expect(auditEvents(spy)).toHaveLength(0);
+  });
+
+  it("reports successful outcomes with size and duration", async () => {
+    const spy = mockGateway();
+    const client = new MeshGuardClient({ agentToken: "tok", auditOutcomes: true, traceId: "t-1" });
+
+    await client.govern("read:user", () => ({ ok: true }), "user-1");
+    const [event] = auditEvents(spy);
+    expect(event).toMatchObject({
+      type: "execution",
+      action: "read:user",
+      resource: "user-1",
+      outcome: "success",
+      decision: "allow",
+      resultSize: Buffer.byteLength('{"ok":true}'),
+      traceId: "t-1",
+    });
+    expect(typeof event.durationMs).toBe("number");
+  });
+
+  it("reports errors and blocked output, then rethrows", async () => {
+    const spy = mockGateway([{ type: "block", patterns: ["secret"] }]);
+    const client = new MeshGuardClient({ agentToken: "tok" });
+
+    await expect(
+      client.govern("read:vault", () => "top secret", { audit: true }),
+    ).rejects.toThrow(OutputBlockedError);
+    await expect(
+      client.govern("read:vault", () => { throw new Error("boom"); }, { audit: true }),
+    ).rejects.toThrow("boom");
+
+    expect(auditEvents(spy).map((e) => [e.outcome, e.error])).toEqual([
+      ["blocked", expect.stringContaining("blocked")],
+      ["error", "boom"],
+    ]);
+  });
+
+  it("never fails the governed call when auditing fails", async () => {
+    jest.spyOn(globalThis, "fetch").mockImplementation(async (input) =>
+      String(input).endsWith("/audit/events")
+        ? new Response("", { status: 500 })
+        : new Response("{}", { status: 200 }),
+    );
+    const client = new MeshGuardClient({ agentToken: "tok", auditOutcomes: true });
+    await expect(client.govern("read:user", () => 1)).resolves.toBe(1);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * MeshGuard OpenAI Function-Calling Integration Tests
+ */
+
+import { GatewayUnavailableError } from "../src/index";
+import { GovernedToolDispatcher } from "../src/openai";
+import { MockMeshGuardGateway } from "../src/testing";
+
+function setup(gateway: MockMeshGuardGateway) {
+  const handlers = {
+    get_weather: jest.fn(({ city }: { city: string }) => ({ city, tempC: 21 })),
+    send_email: jest.fn(async ({ to }: { to: string }) => `sent to ${to}`),
+  };
+  const dispatcher = new GovernedToolDispatcher({
+    client: gateway.client(),
+    handlers,
+    actionMap: { get_weather: "read:weather", send_email: "send:email" },
+    contextFrom: (args, name) =>
+      name === "send_email" ? { recipient: (args as { to: string }).to } : undefined,
+  });
+  return { handlers, dispatcher };
+}
+
+function chatCall(id: string, name: string, args: unknown) {
+  return { id, type: "function", function: { name, arguments: JSON.stringify(args) } };
+}
+
+describe("GovernedToolDispatcher", () => {
+  it("answers Chat Completions tool calls in order, refusing denied ones", async () => {
+    const gateway = new MockMeshGuardGateway().allow("read:*").deny("send:email", { reason: "External email" });
+    const { handlers, dispatcher } = setup(gateway);
+
+    const messages = await dispatcher.dispatch([
+      chatCall("c1", "get_weather", { city: "Oslo" }),
+      chatCall("c2", "send_email", { to: "eve@x.test" }),
+    ]);
+
+    expect(messages).toEqual([
+      { role: "tool", tool_call_id: "c1", content: '{"city":"Oslo","tempC":21}' },
+      {
+        role: "tool",
+        tool_call_id: "c2",
+        content:
+          'Tool "send_email" was blocked by policy and was not run: External email. ' +
+          "Do not retry this call; tell the user it is not permitted.",
+      },
+    ]);
+    expect(handlers.send_email).not.toHaveBeenCalled();
+    gateway.assertChecked("send:email", { context: { recipient: "eve@x.test" } });
+  });
+
+  it("answers Responses API function calls and skips other output items", async () => {
+    const gateway = new MockMeshGuardGateway().allow("*");
+    const { dispatcher } = setup(gateway);
+
+    const outputs = await dispatcher.dispatchResponses([
+      { type: "reasoning" },
+      { type: "function_call", call_id: "r1", name: "send_email", arguments: '{"to":"bob@acme.test"}' },
+    ] as { type: string }[]);
+
+    expect(outputs).toEqual([
+      { type: "function_call_output", call_id: "r1", output: "sent to bob@acme.test" },
+    ]);
+  });
+
+  it("reports unknown tools, bad arguments and pending approvals to the model", async () => {
+    const gateway = new MockMeshGuardGateway().requireApproval("send:email", { approvalId: "ap-9" });
+    const { dispatcher } = setup(gateway);
+
+    expect(await dispatcher.run("x1", "delete_everything", "{}")).toBe('Error: unknown tool "delete_everything".');
+    expect(await dispatcher.run("x2", "get_weather", "{city:")).toMatch(/not valid JSON/);
+    expect(await dispatcher.run("x3", "send_email", '{"to":"a@b.test"}')).toMatch(
+      /requires human approval \(request ap-9\)/,
+    );
+    // No check for calls that never reached a handler
+    expect(gateway.checks().map((c) => c.action)).toEqual(["send:email"]);
+  });
+
+  it("uses a custom refusal and propagates gateway failures", async () => {
+    const gateway = new MockMeshGuardGateway();
+    const dispatcher = new GovernedToolDispatcher({
+      client: gateway.client(),
+      handlers: { noop: () => "ok" },
+      refusal: (err, call) => JSON.stringify({ error: "forbidden", tool: call.name, reason: err.reason }),
+    });
+
+    expect(JSON.parse(await dispatcher.run("n1", "noop", ""))).toEqual({
+      error: "forbidden",
+      tool: "noop",
+      reason: "No matching mock rule",
+    });
+    gateway.assertChecked("execute:tool");
+
+    gateway.failNetwork();
+    await expect(dispatcher.run("n2", "noop", "")).rejects.toThrow(GatewayUnavailableError);
+  });
+
+  it("refuses blocked outputs and exhausted budgets without failing other calls", async () => {
+    const gateway = new MockMeshGuardGateway()
+      .allow("read:weather")
+      .allow("read:secrets", {
+        obligations: [{ type: "block", patterns: ["sk-[a-z]+"], reason: "Credentials" }],
+      });
+    const client = gateway.client({
+      budgets: [{ name: "weather", unit: "calls", limit: 1, actions: "read:weather" }],
+    });
+    const dispatcher = new GovernedToolDispatcher({
+      client,
+      handlers: { get_weather: () => "sunny", get_key: () => "sk-abc" },
+      actionMap: { get_weather: "read:weather", get_key: "read:secrets" },
+    });
+
+    const messages = await dispatcher.dispatch([
+      chatCall("c1", "get_weather", {}),
+      chatCall("c2", "get_key", {}),
+      chatCall("c3", "get_weather", {}),
+    ]);
+
+    expect(messages.map((m) => m.content)).toEqual([
+      "sunny",
+      'Tool "get_key" ran, but its output was blocked by policy: Credentials. ' +
+        "Do not retry this call; tell the user the result cannot be shown.",
+      'Tool "get_weather" was not run: the "weather" budget is used up. ' +
+        "Do not retry this call; tell the user the limit was reached.",
+    ]);
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * MeshGuard Policy Simulation Tests
+ */
+
+import { PassThrough } from "node:stream";
+
+import {
+  MeshGuardClient,
+  MeshGuardError,
+  readAuditNdjson,
+  simulatePolicyLocally,
+} from "../src/index";
+import type { AuditEntry, PolicyDefinition } from "../src/index";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const current: PolicyDefinition[] = [
+  {
+    name: "crm",
+    rules: [{ name: "crm-all", effect: "allow", actions: ["read:crm", "write:crm"] }],
+  },
+];
+
+const draft: PolicyDefinition = {
+  name: "crm",
+  rules: [
+    { name: "crm-read", effect: "allow", actions: ["read:crm", "export:crm"] },
+    {
+      name: "untrusted-writes",
+      effect: "allow",
+      actions: ["write:crm"],
+      conditions: { trustTiers: ["verified"] },
+    },
+  ],
+};
+
+const entries: AuditEntry[] = [
+  { id: "e1", timestamp: "2024-06-01T00:00:00Z", action: "read:crm", decision: "allow", agentId: "a1" },
+  { id: "e2", timestamp: "2024-06-01T00:01:00Z", action: "write:crm", decision: "allow", agentId: "a1" },
+  { id: "e3", timestamp: "2024-06-01T00:02:00Z", action: "write:crm", decision: "allow", agentId: "a2" },
+  { id: "e4", timestamp: "2024-06-01T00:03:00Z", action: "export:crm", decision: "deny", agentId: "a2" },
+  { id: "e5", timestamp: "2024-06-01T00:04:00Z", action: "read:crm", decision: "require_approval" },
+];
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+// ---------------------------------------------------------------------------
+// simulatePolicyLocally()
+// ---------------------------------------------------------------------------
+
+describe("simulatePolicyLocally()", () => {
+  it("reports flips aggregated by action and agent", async () => {
+    const report = await simulatePolicyLocally(draft, entries, {
+      policies: current,
+      resolveSubject: (agentId) => ({
+        agentId,
+        trustTier: agentId === "a2" ? "verified" : "untrusted",
+      }),
+    });
+
+    expect(report).toMatchObject({
+      source: "local",
+      policy: "crm",
+      evaluated: 4,
+      skipped: 1,
+      allowToDeny: 1,
+      denyToAllow: 1,
+    });
+    expect(report.changes.map((c) => [c.entry.id, c.before, c.after])).toEqual([
+      ["e2", "allow", "deny"],
+      ["e4", "deny", "allow"],
+    ]);
+    expect(report.byAction["write:crm"]).toEqual({ evaluated: 2, allowToDeny: 1, denyToAllow: 0 });
+    expect(report.byAgent.a2).toEqual({ evaluated: 2, allowToDeny: 0, denyToAllow: 1 });
+  });
+
+  it("filters entries by agent and time window", async () => {
+    const report = await simulatePolicyLocally(draft, entries, {
+      policies: current,
+      agentId: "a1",
+      since: "2024-06-01T00:01:00Z",
+    });
+    expect(report.evaluated).toBe(1);
+    expect(report.changes[0].entry.id).toBe("e2");
+  });
+
+  it("replays exported NDJSON", async () => {
+    const input = new PassThrough();
+    input.end(entries.map((e) => JSON.stringify(e)).join("\n") + "\n\n");
+
+    const report = await simulatePolicyLocally(draft, readAuditNdjson(input), {
+      policies: current,
+    });
+    expect(report.evaluated).toBe(4);
+  });
+
+  it("rejects malformed NDJSON with the line number", async () => {
+    const input = new PassThrough();
+    input.end('{"id":"e1"}\nnot json\n');
+
+    const ids: unknown[] = [];
+    const err = await (async () => {
+      for await (const entry of readAuditNdjson(input)) ids.push(entry.id);
+    })().catch((e) => e);
+
+    expect(ids).toEqual(["e1"]);
+    expect(err).toBeInstanceOf(MeshGuardError);
+    expect(err.message).toContain("line 2");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// client.simulatePolicy()
+// ---------------------------------------------------------------------------
+
+describe("simulatePolicy()", () => {
+  it("uses the gateway simulation endpoint when available", async () => {
+    const spy = jest.spyOn(globalThis, "fetch").mockResolvedValue(
+      new Response(JSON.stringify({ evaluated: 10, allowToDeny: 2, byAction: {} }), {
+        status: 200,
+      }),
+    );
+    const client = new MeshGuardClient({ adminToken: "adm" });
+    const report = await client.simulatePolicy(draft, {
+      since: new Date("2024-06-01T00:00:00Z"),
+      agentId: "a1",
+    });
+
+    expect(report).toMatchObject({ source: "gateway", policy: "crm", evaluated: 10, allowToDeny: 2 });
+    const [url, init] = spy.mock.calls[0] as [string, RequestInit];
+    expect(url).toContain("/admin/policies/simulate");
+    expect(JSON.parse(init.body as string)).toMatchObject({
+      policy: draft,
+      since: "2024-06-01T00:00:00.000Z",
+      agentId: "a1",
+    });
+  });
+
+  it("falls back to replaying the audit log locally", async () => {
+    const spy = jest.spyOn(globalThis, "fetch").mockImplementation(async (input) => {
+      const path = new URL(String(input)).pathname;
+      const json = (body: unknown, status = 200): Response =>
+        new Response(JSON.stringify(body), { status });
+      if (path === "/admin/policies/simulate") return json({}, 404);
+      if (path === "/admin/policies") return json({ policies: current });
+      if (path === "/admin/audit") return json({ entries });
+      if (path === "/admin/agents/a2") {
+        return json({ agent: { id: "a2", name: "B", trustTier: "verified" } });
+      }
+      return json({ error: "not found" }, 404);
+    });
+    const client = new MeshGuardClient({ adminToken: "adm" });
+    const report = await client.simulatePolicy(draft);
+
+    expect(report.source).toBe("local");
+    expect(report.changes.map((c) => c.entry.id)).toEqual(["e2", "e4"]);
+    // Each agent is looked up once
+    const agentCalls = spy.mock.calls.filter(([url]) => String(url).includes("/admin/agents/"));
+    expect(agentCalls).toHaveLength(2);
+  });
+
+  it("simulates supplied entries without calling the gateway endpoint", async () => {
+    const spy = jest.spyOn(globalThis, "fetch").mockImplementation(async () =>
+      new Response(JSON.stringify({ policies: current }), { status: 200 }),
+    );
+    const client = new MeshGuardClient({ adminToken: "adm" });
+    const report = await client.simulatePolicy(draft, { entries: entries.slice(0, 2) });
+
+    expect(report.evaluated).toBe(2);
+    expect(spy.mock.calls.some(([url]) => String(url).includes("/simulate"))).toBe(false);
+  });
+
+  it("replays only enabled policies and skips ones it cannot evaluate", async () => {
+    const policies = [
+      ...current,
+      {
+        id: "p-2",
+        name: "block-deletes",
+        enabled: false,
+        rules: [{ name: "d", effect: "deny", actions: ["read:*"] }],
+      },
+      { id: "p-3", name: "rego", source: "package meshguard\nallow := true" },
+    ];
+    jest.spyOn(globalThis, "fetch").mockImplementation(async () =>
+      new Response(JSON.stringify({ policies }), { status: 200 }),
+    );
+    const client = new MeshGuardClient({ adminToken: "adm" });
+    const report = await client.simulatePolicy(draft, { entries: entries.slice(0, 1) });
+
+    expect(report).toMatchObject({ evaluated: 1, allowToDeny: 0, excluded: ["rego"] });
+  });
+});
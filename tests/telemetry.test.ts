@@ -0,0 +1,164 @@
+/**
+ * MeshGuard OpenTelemetry Tests
+ */
+
+import { metrics, trace } from "@opentelemetry/api";
+
+import { MeshGuardClient, PolicyDeniedError } from "../src/index";
+import type { MeterLike, SpanLike, TelemetryOptions, TracerLike } from "../src/index";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+interface RecordedSpan {
+  name: string;
+  attributes: Record<string, unknown>;
+  status?: { code: number; message?: string };
+  exceptions: unknown[];
+  ended: boolean;
+}
+
+function fakeTracer(): { tracer: TracerLike; spans: RecordedSpan[] } {
+  const spans: RecordedSpan[] = [];
+  let nextId = 1;
+  const tracer: TracerLike = {
+    startActiveSpan(name, options, fn) {
+      const rec: RecordedSpan = {
+        name,
+        attributes: { ...options.attributes },
+        exceptions: [],
+        ended: false,
+      };
+      spans.push(rec);
+      const spanId = String(nextId++).padStart(16, "0");
+      const span: SpanLike = {
+        spanContext: () => ({ traceId: "4bf92f3577b34da6a3ce929d0e0e4736", spanId, traceFlags: 1 }),
+        setAttribute: (k, v) => (rec.attributes[k] = v),
+        setStatus: (s) => (rec.status = s),
+        recordException: (e) => rec.exceptions.push(e),
+        end: () => (rec.ended = true),
+      };
+      return fn(span) as ReturnType<typeof fn>;
+    },
+  };
+  return { tracer, spans };
+}
+
+function fakeMeter(): { meter: MeterLike; points: Array<[string, number, Record<string, unknown>]> } {
+  const points: Array<[string, number, Record<string, unknown>]> = [];
+  const instrument = (name: string) => ({
+    add: (v: number, a: Record<string, unknown> = {}) => points.push([name, v, a]),
+    record: (v: number, a: Record<string, unknown> = {}) => points.push([name, v, a]),
+  });
+  return {
+    meter: { createCounter: instrument, createHistogram: instrument },
+    points,
+  };
+}
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("OpenTelemetry instrumentation", () => {
+  it("accepts tracers and meters from @opentelemetry/api", () => {
+    const telemetry: TelemetryOptions = {
+      tracer: trace.getTracer("meshguard"),
+      meter: metrics.getMeter("meshguard"),
+    };
+    expect(() => new MeshGuardClient({ telemetry })).not.toThrow();
+  });
+
+  it("traces checks with decision attributes and propagates traceparent", async () => {
+    const spy = jest.spyOn(globalThis, "fetch").mockResolvedValue(
+      new Response(JSON.stringify({ policy: "crm", rule: "reads" }), { status: 200 }),
+    );
+    const { tracer, spans } = fakeTracer();
+    const client = new MeshGuardClient({ agentToken: "tok", telemetry: { tracer } });
+
+    await client.check("read:contacts", "contact-1");
+
+    expect(spans).toHaveLength(1);
+    expect(spans[0]).toMatchObject({
+      name: "meshguard.check",
+      ended: true,
+      attributes: {
+        "meshguard.action": "read:contacts",
+        "meshguard.resource": "contact-1",
+        "meshguard.decision": "allow",
+        "meshguard.policy": "crm",
+        "meshguard.rule": "reads",
+      },
+    });
+    const [, init] = spy.mock.calls[0] as [string, RequestInit];
+    expect((init.headers as Record<string, string>).traceparent).toBe(
+      "00-4bf92f3577b34da6a3ce929d0e0e4736-0000000000000001-01",
+    );
+  });
+
+  it("does not propagate when disabled", async () => {
+    const spy = jest.spyOn(globalThis, "fetch").mockResolvedValue(
+      new Response("{}", { status: 200 }),
+    );
+    const { tracer } = fakeTracer();
+    const client = new MeshGuardClient({ telemetry: { tracer, propagate: false } });
+    await client.check("read:contacts");
+
+    const [, init] = spy.mock.calls[0] as [string, RequestInit];
+    expect((init.headers as Record<string, string>).traceparent).toBeUndefined();
+  });
+
+  it("records denied enforce calls as span errors", async () => {
+    jest.spyOn(globalThis, "fetch").mockResolvedValue(
+      new Response(JSON.stringify({ reason: "no" }), { status: 403 }),
+    );
+    const { tracer, spans } = fakeTracer();
+    const client = new MeshGuardClient({ telemetry: { tracer } });
+
+    await expect(client.enforce("delete:db")).rejects.toThrow(PolicyDeniedError);
+    expect(spans.map((s) => s.name)).toEqual(["meshguard.enforce", "meshguard.check"]);
+    expect(spans[0].status?.code).toBe(2);
+    expect(spans[0].exceptions[0]).toBeInstanceOf(PolicyDeniedError);
+    expect(spans[1].attributes["meshguard.decision"]).toBe("deny");
+    expect(spans.every((s) => s.ended)).toBe(true);
+  });
+
+  it("traces proxy requests with the response status", async () => {
+    jest.spyOn(globalThis, "fetch").mockResolvedValue(new Response("{}", { status: 200 }));
+    const { tracer, spans } = fakeTracer();
+    const client = new MeshGuardClient({ gatewayUrl: "https://gw.test", telemetry: { tracer } });
+
+    await client.get("/crm/contacts", "read:contacts");
+    expect(spans[0]).toMatchObject({
+      name: "meshguard.request",
+      attributes: {
+        "meshguard.action": "read:contacts",
+        "http.request.method": "GET",
+        "url.full": "https://gw.test/proxy/crm/contacts",
+        "http.response.status_code": 200,
+      },
+    });
+  });
+
+  it("records decision counts and latency histograms", async () => {
+    jest.spyOn(globalThis, "fetch").mockResolvedValue(new Response("{}", { status: 200 }));
+    const { meter, points } = fakeMeter();
+    const client = new MeshGuardClient({ cache: true, telemetry: { meter } });
+
+    await client.check("read:contacts");
+    await client.check("read:contacts");
+
+    const decisions = points.filter(([name]) => name === "meshguard.decisions");
+    expect(decisions.map(([, v, a]) => [v, a["meshguard.cached"]])).toEqual([[1, false], [1, true]]);
+    expect(points.filter(([name]) => name === "meshguard.check.duration")).toHaveLength(2);
+
+    const requests = points.filter(([name]) => name === "meshguard.request.duration");
+    expect(requests).toHaveLength(1);
+    expect(requests[0][2]).toMatchObject({ "http.request.method": "GET", "http.response.status_code": 200 });
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * MeshGuard Mock Gateway Tests
+ */
+
+import {
+  AuthenticationError,
+  GatewayUnavailableError,
+  MeshGuardClient,
+  PolicyDeniedError,
+  RateLimitError,
+} from "../src/index";
+import { MockMeshGuardGateway } from "../src/testing";
+
+describe("fetch option", () => {
+  it("sends every request through the injected fetch", async () => {
+    const fetchImpl = jest.fn(async () => new Response("{}", { status: 200 }));
+    const global = jest.spyOn(globalThis, "fetch");
+    const client = new MeshGuardClient({ fetch: fetchImpl });
+
+    await client.check("read:a");
+    await client.health();
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+    expect(global).not.toHaveBeenCalled();
+    global.mockRestore();
+  });
+});
+
+describe("MockMeshGuardGateway", () => {
+  it("decides checks from declared rules, latest first", async () => {
+    const gateway = new MockMeshGuardGateway()
+      .allow("read:*")
+      .deny("read:secrets", { reason: "Classified" })
+      .allow("write:payment", { when: (c) => Number(c.context?.amount) < 100 });
+    const client = gateway.client();
+
+    expect((await client.check("read:contacts")).allowed).toBe(true);
+    expect(await client.check("read:secrets")).toMatchObject({ allowed: false, reason: "Classified" });
+    expect((await client.check("write:payment", { context: { amount: 50 } })).allowed).toBe(true);
+    expect((await client.check("write:payment", { context: { amount: 500 } })).allowed).toBe(false);
+    expect((await client.check("delete:all")).allowed).toBe(false);
+
+    gateway.assertChecked("write:payment", { times: 2 });
+    gateway.assertChecked("write:payment", { context: { amount: 500 } });
+    gateway.assertNotChecked("write:email");
+    expect(() => gateway.assertChecked("write:email")).toThrow(/not\. Checked: read:contacts/);
+  });
+
+  it("serves batch checks and proxy requests", async () => {
+    const gateway = new MockMeshGuardGateway({ defaultDecision: "allow" })
+      .deny("delete:*")
+      .onProxy(() => new Response("{}", { status: 201 }));
+    const client = gateway.client();
+
+    const decisions = await client.checkMany([{ action: "read:a" }, { action: "delete:a" }]);
+    expect(decisions.map((d) => d.allowed)).toEqual([true, false]);
+    expect(gateway.checks().map((c) => c.action)).toEqual(["read:a", "delete:a"]);
+
+    const res = await client.get("/crm/contacts", "read:contacts");
+    expect(res.status).toBe(201);
+    expect(gateway.calls.at(-1)).toMatchObject({ path: "/proxy/crm/contacts", action: "read:contacts" });
+    await expect(client.delete("/crm/contacts/1", "delete:contacts")).rejects.toThrow(PolicyDeniedError);
+  });
+
+  it("simulates auth failures, rate limits and outages", async () => {
+    const gateway = new MockMeshGuardGateway().allow("*");
+    const client = gateway.client({ retry: { maxAttempts: 3, baseDelay: 1 } });
+
+    gateway.fail(401);
+    await expect(client.enforce("read:a")).rejects.toThrow(AuthenticationError);
+
+    gateway.fail(429, { retryAfter: 60 });
+    const err = await client.enforce("read:a").catch((e) => e);
+    expect(err).toBeInstanceOf(RateLimitError);
+    expect(err.retryAfterMs).toBe(60_000);
+
+    // Retried past two transient failures
+    gateway.fail(503, { times: 1 }).failNetwork({ times: 1 });
+    await expect(client.enforce("read:a")).resolves.toMatchObject({ allowed: true });
+    expect(gateway.calls.slice(-3).map((c) => c.status)).toEqual([503, undefined, 200]);
+  });
+
+  it("simulates latency against the client timeout", async () => {
+    const gateway = new MockMeshGuardGateway({ latency: 50 }).allow("*");
+    const client = gateway.client({ timeout: 10 });
+    await expect(client.enforce("read:a")).rejects.toThrow(GatewayUnavailableError);
+
+    gateway.setLatency(0);
+    await expect(client.enforce("read:a")).resolves.toMatchObject({ allowed: true });
+  });
+
+  it("runs approval flows and records audit events", async () => {
+    const gateway = new MockMeshGuardGateway().requireApproval("wire:*", { approvalId: "ap-1" });
+    const client = gateway.client({ auditOutcomes: true });
+
+    const pending = client.govern("wire:funds", () => "sent", {
+      waitForApproval: { pollInterval: 5 },
+    });
+    setTimeout(() => gateway.approve("ap-1", "cfo"), 10);
+
+    await expect(pending).resolves.toBe("sent");
+    gateway.assertEvent({ action: "wire:funds", outcome: "success" });
+  });
+});